@@ -0,0 +1,2 @@
+ALTER TABLE `todos` ADD `user_id` text;--> statement-breakpoint
+CREATE INDEX `todos_user_id_idx` ON `todos` (`user_id`);
\ No newline at end of file
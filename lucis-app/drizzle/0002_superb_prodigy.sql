@@ -0,0 +1,5 @@
+ALTER TABLE `todos` ADD `due_at` integer;--> statement-breakpoint
+ALTER TABLE `todos` ADD `remind_at` integer;--> statement-breakpoint
+ALTER TABLE `todos` ADD `reminded_at` integer;--> statement-breakpoint
+ALTER TABLE `todos` ADD `reminder_trigger_id` text;--> statement-breakpoint
+CREATE INDEX `todos_due_at_idx` ON `todos` (`due_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `todos` ADD `parent_id` integer REFERENCES todos(id) ON DELETE set null;--> statement-breakpoint
+CREATE INDEX `todos_parent_id_idx` ON `todos` (`parent_id`);
\ No newline at end of file
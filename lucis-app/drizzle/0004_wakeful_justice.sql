@@ -0,0 +1,16 @@
+CREATE TABLE `tags` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tags_user_id_name_idx` ON `tags` (`user_id`,`name`);--> statement-breakpoint
+CREATE TABLE `todo_tags` (
+	`todo_id` integer NOT NULL,
+	`tag_id` integer NOT NULL,
+	PRIMARY KEY(`todo_id`, `tag_id`),
+	FOREIGN KEY (`todo_id`) REFERENCES `todos`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tag_id`) REFERENCES `tags`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `todo_tags_tag_id_idx` ON `todo_tags` (`tag_id`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `lists` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`archived_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `lists_user_id_idx` ON `lists` (`user_id`);--> statement-breakpoint
+ALTER TABLE `todos` ADD `list_id` integer REFERENCES lists(id) ON DELETE set null;--> statement-breakpoint
+CREATE INDEX `todos_list_id_idx` ON `todos` (`list_id`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `todos` ADD `priority` text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE `todos` ADD `position` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Keep the creation order of existing todos as their manual order
+UPDATE `todos` SET `position` = `id`;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `todos` ADD `recurrence` text;
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Full-text index over todo titles for SEARCH_TODOS. It is an external
+-- content table: the titles live in `todos` and the triggers below keep the
+-- index in sync with them.
+CREATE VIRTUAL TABLE `todos_fts` USING fts5(
+  `title`,
+  content = 'todos',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `todos_fts_after_insert` AFTER INSERT ON `todos` BEGIN
+  INSERT INTO `todos_fts` (`rowid`, `title`) VALUES (new.`id`, new.`title`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `todos_fts_after_delete` AFTER DELETE ON `todos` BEGIN
+  INSERT INTO `todos_fts` (`todos_fts`, `rowid`, `title`) VALUES ('delete', old.`id`, old.`title`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `todos_fts_after_update` AFTER UPDATE OF `title` ON `todos` BEGIN
+  INSERT INTO `todos_fts` (`todos_fts`, `rowid`, `title`) VALUES ('delete', old.`id`, old.`title`);
+  INSERT INTO `todos_fts` (`rowid`, `title`) VALUES (new.`id`, new.`title`);
+END;
+--> statement-breakpoint
+-- Index the todos created before this migration
+INSERT INTO `todos_fts` (`todos_fts`) VALUES ('rebuild');
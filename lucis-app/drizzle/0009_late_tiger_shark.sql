@@ -0,0 +1,2 @@
+ALTER TABLE `todos` ADD `deleted_at` integer;--> statement-breakpoint
+CREATE INDEX `todos_deleted_at_idx` ON `todos` (`deleted_at`);
\ No newline at end of file
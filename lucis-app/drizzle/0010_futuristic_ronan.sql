@@ -0,0 +1,13 @@
+CREATE TABLE `todo_events` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`todo_id` integer NOT NULL,
+	`actor_id` text NOT NULL,
+	`source` text NOT NULL,
+	`type` text NOT NULL,
+	`before` text,
+	`after` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`todo_id`) REFERENCES `todos`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `todo_events_todo_id_idx` ON `todo_events` (`todo_id`);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `feed_tokens` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`token` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `feed_tokens_token_idx` ON `feed_tokens` (`token`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`webhook_id` integer NOT NULL,
+	`idempotency_key` text,
+	`status` text NOT NULL,
+	`error` text,
+	`todo_ids` text NOT NULL,
+	`received_at` integer NOT NULL,
+	FOREIGN KEY (`webhook_id`) REFERENCES `webhooks`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `webhook_deliveries_webhook_id_idx` ON `webhook_deliveries` (`webhook_id`,`idempotency_key`);--> statement-breakpoint
+CREATE TABLE `webhooks` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`token` text NOT NULL,
+	`secret` text NOT NULL,
+	`template` text NOT NULL,
+	`list_id` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`list_id`) REFERENCES `lists`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `webhooks_token_idx` ON `webhooks` (`token`);--> statement-breakpoint
+CREATE INDEX `webhooks_user_id_idx` ON `webhooks` (`user_id`);
\ No newline at end of file
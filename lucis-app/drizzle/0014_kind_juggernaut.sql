@@ -0,0 +1,14 @@
+CREATE TABLE `todo_comments` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`todo_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`author_name` text,
+	`author_avatar` text,
+	`body` text NOT NULL,
+	`mentions` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`edited_at` integer,
+	FOREIGN KEY (`todo_id`) REFERENCES `todos`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `todo_comments_todo_id_idx` ON `todo_comments` (`todo_id`);
\ No newline at end of file
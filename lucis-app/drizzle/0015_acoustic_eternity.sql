@@ -0,0 +1,15 @@
+CREATE TABLE `todo_attachments` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`todo_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`filename` text NOT NULL,
+	`content_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`path` text NOT NULL,
+	`status` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`todo_id`) REFERENCES `todos`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `todo_attachments_todo_id_idx` ON `todo_attachments` (`todo_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `todo_attachments_path_idx` ON `todo_attachments` (`path`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `todos` ADD `assignee_id` text;--> statement-breakpoint
+CREATE INDEX `todos_assignee_id_idx` ON `todos` (`assignee_id`);
\ No newline at end of file
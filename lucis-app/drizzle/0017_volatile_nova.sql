@@ -0,0 +1,11 @@
+CREATE TABLE `todo_dependencies` (
+	`todo_id` integer NOT NULL,
+	`blocked_by_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	PRIMARY KEY(`todo_id`, `blocked_by_id`),
+	FOREIGN KEY (`todo_id`) REFERENCES `todos`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`blocked_by_id`) REFERENCES `todos`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `todo_dependencies_blocked_by_id_idx` ON `todo_dependencies` (`blocked_by_id`);
\ No newline at end of file
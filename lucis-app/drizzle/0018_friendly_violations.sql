@@ -0,0 +1,13 @@
+CREATE TABLE `time_entries` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`todo_id` integer NOT NULL,
+	`started_at` integer NOT NULL,
+	`ended_at` integer,
+	`note` text,
+	FOREIGN KEY (`todo_id`) REFERENCES `todos`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `time_entries_user_id_started_at_idx` ON `time_entries` (`user_id`,`started_at`);--> statement-breakpoint
+CREATE INDEX `time_entries_todo_id_idx` ON `time_entries` (`todo_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `time_entries_running_idx` ON `time_entries` (`user_id`) WHERE "time_entries"."ended_at" is null;
\ No newline at end of file
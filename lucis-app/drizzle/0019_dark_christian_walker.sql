@@ -0,0 +1,2 @@
+ALTER TABLE `lists` ADD `statuses` text;--> statement-breakpoint
+ALTER TABLE `todos` ADD `status` text DEFAULT 'todo' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- Todos used to be either open or completed. Every list starts with the
+-- default workflow (to do, doing, done), so completed todos go to "done"
+-- and open ones stay in "todo", the default of the column.
+UPDATE `todos` SET `status` = 'done' WHERE `completed` = 1;
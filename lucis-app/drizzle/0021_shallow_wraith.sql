@@ -0,0 +1 @@
+ALTER TABLE `todos` ADD `version` integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE `ai_executions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`expires_at` integer NOT NULL
+);
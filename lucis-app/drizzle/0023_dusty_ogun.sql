@@ -0,0 +1,17 @@
+CREATE TABLE `webhook_idempotency_keys` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`webhook_id` integer NOT NULL,
+	`key` text NOT NULL,
+	`todo_ids` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`webhook_id`) REFERENCES `webhooks`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `webhook_idempotency_keys_webhook_id_key_idx` ON `webhook_idempotency_keys` (`webhook_id`,`key`);--> statement-breakpoint
+-- Idempotency keys used to be read from the delivery log, so the keys of
+-- the deliveries that created todos and are still logged carry over.
+INSERT INTO `webhook_idempotency_keys` (`webhook_id`, `key`, `todo_ids`, `created_at`)
+SELECT `webhook_id`, `idempotency_key`, `todo_ids`, min(`received_at`)
+FROM `webhook_deliveries`
+WHERE `status` = 'created' AND `idempotency_key` IS NOT NULL
+GROUP BY `webhook_id`, `idempotency_key`;
@@ -0,0 +1 @@
+ALTER TABLE `webhook_events` ADD `delivery_token` text;
\ No newline at end of file
@@ -1,9 +1,57 @@
 import journal from "./meta/_journal.json";
 import m0000 from "./0000_pretty_silver_centurion.sql";
+import m0001 from "./0001_milky_wraith.sql";
+import m0002 from "./0002_superb_prodigy.sql";
+import m0003 from "./0003_lethal_colleen_wing.sql";
+import m0004 from "./0004_wakeful_justice.sql";
+import m0005 from "./0005_warm_meltdown.sql";
+import m0006 from "./0006_slim_albert_cleary.sql";
+import m0007 from "./0007_grey_warbound.sql";
+import m0008 from "./0008_todos_fts.sql";
+import m0009 from "./0009_late_tiger_shark.sql";
+import m0010 from "./0010_futuristic_ronan.sql";
+import m0011 from "./0011_same_ultimatum.sql";
+import m0012 from "./0012_wide_jamie_braddock.sql";
+import m0013 from "./0013_confused_maddog.sql";
+import m0014 from "./0014_kind_juggernaut.sql";
+import m0015 from "./0015_acoustic_eternity.sql";
+import m0016 from "./0016_greedy_dakota_north.sql";
+import m0017 from "./0017_volatile_nova.sql";
+import m0018 from "./0018_friendly_violations.sql";
+import m0019 from "./0019_dark_christian_walker.sql";
+import m0020 from "./0020_todo_statuses.sql";
+import m0021 from "./0021_shallow_wraith.sql";
+import m0022 from "./0022_flowery_whizzer.sql";
+import m0023 from "./0023_dusty_ogun.sql";
+import m0024 from "./0024_furry_meggan.sql";
 
 export default {
   journal,
   migrations: {
     m0000,
+    m0001,
+    m0002,
+    m0003,
+    m0004,
+    m0005,
+    m0006,
+    m0007,
+    m0008,
+    m0009,
+    m0010,
+    m0011,
+    m0012,
+    m0013,
+    m0014,
+    m0015,
+    m0016,
+    m0017,
+    m0018,
+    m0019,
+    m0020,
+    m0021,
+    m0022,
+    m0023,
+    m0024,
   },
 };
@@ -0,0 +1,270 @@
+/**
+ * Versioned REST API over the todo tools, served under `/api/v1` by the
+ * `fetch` handler of `main.ts` for scripts that cannot speak MCP.
+ *
+ * Each route runs a tool, so inputs are validated by its `inputSchema` and
+ * the response is its output. Requests are authenticated like the tools,
+ * with the session of the signed-in user. The OpenAPI document of the
+ * routes is served at `/api/v1/openapi.json`.
+ */
+import { z } from "zod";
+import type { Env } from "./main.ts";
+import {
+  type ApiRoute,
+  buildOpenApiDocument,
+  INTERNAL_FIELDS,
+  unwrapSchema,
+} from "./openapi.ts";
+import { createListTodosTool } from "./tools/todos/read.ts";
+import { createCreateTodoTool } from "./tools/todos/create.ts";
+import { createUpdateTodoTool } from "./tools/todos/update.ts";
+import { createDeleteTodoTool } from "./tools/todos/delete.ts";
+import {
+  TodoNotFoundError,
+  TodoRequestError,
+} from "./tools/utils/todo-errors.ts";
+import { TodoConflictError } from "./tools/utils/todo-versions.ts";
+
+export const API_PREFIX = "/api/v1";
+
+const OPENAPI_PATH = `${API_PREFIX}/openapi.json`;
+
+/**
+ * A tool of any input; the input is checked with its `inputSchema` before
+ * `execute` is called.
+ */
+type ApiTool = ApiRoute["tool"] & {
+  execute?: (args: { context: never; runtimeContext: never }) => unknown;
+};
+
+const routeTable: (Omit<ApiRoute, "tool"> & {
+  createTool: (env: Env) => ApiTool;
+})[] = [
+  {
+    method: "GET",
+    path: "/todos",
+    input: "query",
+    status: 200,
+    createTool: createListTodosTool,
+  },
+  {
+    method: "POST",
+    path: "/todos",
+    input: "body",
+    status: 201,
+    createTool: createCreateTodoTool,
+  },
+  {
+    method: "PATCH",
+    path: "/todos/{id}",
+    input: "body",
+    status: 200,
+    createTool: createUpdateTodoTool,
+  },
+  {
+    method: "DELETE",
+    path: "/todos/{id}",
+    input: "query",
+    status: 200,
+    createTool: createDeleteTodoTool,
+  },
+];
+
+const json = (body: unknown, status = 200, headers?: HeadersInit) =>
+  Response.json(body, { status, headers });
+
+const error = (status: number, message: string, details?: object) =>
+  json({ error: message, ...details }, status);
+
+/**
+ * Matches `pathname` against a route path, returning its path parameters.
+ * Parameters that are not valid percent-encoding match no route.
+ */
+const matchPath = (path: string, pathname: string) => {
+  const names: string[] = [];
+  const pattern = path.replace(/\{(\w+)\}/g, (_, name) => {
+    names.push(name);
+    return "([^/]+)";
+  });
+  const match = new RegExp(`^${API_PREFIX}${pattern}/?$`).exec(pathname);
+  if (!match) return null;
+
+  try {
+    return Object.fromEntries(
+      names.map((name, index) => [name, decodeURIComponent(match[index + 1])]),
+    );
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses a query string value as the type `schema` expects, leaving it as
+ * a string when it cannot be, so validation reports it.
+ */
+const parseQueryValue = (schema: z.ZodTypeAny, value: string): unknown => {
+  if (value === "null" && schema.isNullable()) return null;
+
+  switch (unwrapSchema(schema)._def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return value.trim() !== "" && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return value === "true" ? true : value === "false" ? false : value;
+    default:
+      return value;
+  }
+};
+
+/**
+ * The tool input given by the query string. Arrays are repeated keys
+ * (`?tags=a&tags=b`) or comma-separated values (`?tags=a,b`).
+ */
+const parseQuery = (schema: z.ZodTypeAny, params: URLSearchParams) => {
+  const object = unwrapSchema(schema);
+  const shape: Record<string, z.ZodTypeAny> = object instanceof z.ZodObject
+    ? object.shape
+    : {};
+  const input: Record<string, unknown> = {};
+
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    const field = shape[key];
+    if (!field) {
+      input[key] = values.at(-1);
+      continue;
+    }
+
+    const type = unwrapSchema(field);
+    input[key] = type instanceof z.ZodArray
+      ? values.flatMap((value) => value.split(","))
+        .filter((value) => value !== "")
+        .map((value) => parseQueryValue(type.element, value))
+      : parseQueryValue(field, values.at(-1)!);
+  }
+
+  return input;
+};
+
+const readBody = async (req: Request) => {
+  try {
+    const body = await req.json();
+    return typeof body === "object" && body !== null && !Array.isArray(body)
+      ? body as Record<string, unknown>
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Changes made from an outdated todo are conflicts. Any error other than
+ * those of the request is the server's.
+ */
+const errorStatus = (err: unknown) =>
+  err instanceof TodoConflictError
+    ? 409
+    : err instanceof TodoNotFoundError
+    ? 404
+    : err instanceof TodoRequestError
+    ? 400
+    : 500;
+
+const runRoute = async (
+  req: Request,
+  env: Env,
+  route: typeof routeTable[number],
+  pathParams: Record<string, string>,
+) => {
+  try {
+    await env.DECO_CHAT_REQUEST_CONTEXT.ensureAuthenticated();
+  } catch {
+    return error(401, "Sign in to use the API");
+  }
+
+  const tool = route.createTool(env);
+  const params = Object.fromEntries(
+    Object.entries(pathParams).map(([name, value]) => [name, Number(value)]),
+  );
+  if (Object.values(params).some((value) => !Number.isInteger(value))) {
+    return error(404, "Not found");
+  }
+
+  let input: Record<string, unknown>;
+  if (route.input === "body") {
+    const body = await readBody(req);
+    if (!body) return error(400, "The body must be a JSON object");
+    input = body;
+  } else {
+    input = parseQuery(tool.inputSchema, new URL(req.url).searchParams);
+  }
+  // Changes made through the API come from the user, whatever they claim
+  for (const field of INTERNAL_FIELDS) delete input[field];
+
+  const parsed = tool.inputSchema.safeParse({ ...input, ...params });
+  if (!parsed.success) {
+    return error(400, "Invalid input", { issues: parsed.error.issues });
+  }
+
+  try {
+    // Tools only read their input from the context
+    const output = await tool.execute!({
+      context: parsed.data as never,
+      runtimeContext: undefined as never,
+    });
+    return json(output, route.status);
+  } catch (err) {
+    const status = errorStatus(err);
+    if (status === 500) {
+      console.error(`Failed to serve ${route.method} ${route.path}:`, err);
+      return error(500, "Something went wrong");
+    }
+    return error(
+      status,
+      (err as Error).message,
+      err instanceof TodoConflictError ? { code: err.code } : undefined,
+    );
+  }
+};
+
+const methodNotAllowed = (methods: string[]) =>
+  json({ error: "Method not allowed" }, 405, { Allow: methods.join(", ") });
+
+const serveApi = async (req: Request, env: Env, pathname: string) => {
+  if (pathname === OPENAPI_PATH) {
+    if (req.method !== "GET") return methodNotAllowed(["GET"]);
+
+    const routes = routeTable.map(({ createTool, ...route }) => ({
+      ...route,
+      tool: createTool(env),
+    }));
+    return json(buildOpenApiDocument(routes, API_PREFIX));
+  }
+
+  const matching = routeTable.flatMap((route) => {
+    const params = matchPath(route.path, pathname);
+    return params ? [{ route, params }] : [];
+  });
+  if (matching.length === 0) return error(404, "Not found");
+
+  const match = matching.find(({ route }) => route.method === req.method);
+  if (!match) {
+    return methodNotAllowed(matching.map(({ route }) => route.method));
+  }
+
+  return runRoute(req, env, match.route, match.params);
+};
+
+/**
+ * Serves the REST API when `req` is for it, or returns `null` so the
+ * request is handled elsewhere.
+ */
+export const handleApiRequest = (req: Request, env: Env) => {
+  const { pathname } = new URL(req.url);
+  if (pathname !== API_PREFIX && !pathname.startsWith(`${API_PREFIX}/`)) {
+    return null;
+  }
+
+  return serveApi(req, env, pathname);
+};
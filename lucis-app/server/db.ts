@@ -2,8 +2,40 @@ import {
   drizzle,
   migrateWithoutTransaction,
 } from "@deco/workers-runtime/drizzle";
+import { isNull } from "drizzle-orm";
+import {
+  drizzle as drizzleProxy,
+  type RemoteCallback,
+} from "drizzle-orm/sqlite-proxy";
 import type { Env } from "./main";
 import migrations from "../drizzle/migrations";
+import { todosTable } from "./schema.ts";
+import { findWorkspaceUserId } from "./team.ts";
+import { nextVersion } from "./tools/utils/todo-versions.ts";
+
+type Db = ReturnType<typeof drizzle>;
+
+let todoOwnersBackfilled = false;
+
+/**
+ * Gives the todos created before todos had owners, whose `user_id` was
+ * left NULL by the migration adding it, to the owner set as
+ * LEGACY_TODOS_OWNER_ID, or else to the user of the personal workspace the
+ * app is installed in. SQL migrations cannot know who that is, so this
+ * runs after them, once per worker. Todos stay unowned, and hidden, in a
+ * team workspace with no owner set.
+ */
+const backfillTodoOwners = async (env: Env, db: Db) => {
+  if (todoOwnersBackfilled) return;
+
+  const ownerId = env.LEGACY_TODOS_OWNER_ID || findWorkspaceUserId(env);
+  if (ownerId) {
+    await db.update(todosTable)
+      .set({ userId: ownerId, version: nextVersion() })
+      .where(isNull(todosTable.userId));
+  }
+  todoOwnersBackfilled = true;
+};
 
 export const getDb = async (env: Env) => {
   const query = async ({ sql, params }: { sql: string; params: string[] }) => {
@@ -24,5 +56,67 @@ export const getDb = async (env: Env) => {
     },
   });
   await migrateWithoutTransaction(db, migrations);
+  await backfillTodoOwners(env, db);
   return db;
 };
+
+type Statement = Parameters<RemoteCallback>;
+
+/**
+ * A parameter of a statement as an SQL literal.
+ */
+const toLiteral = (value: unknown) =>
+  value === null || value === undefined
+    ? "NULL"
+    : typeof value === "number" || typeof value === "bigint"
+    ? String(value)
+    : typeof value === "boolean"
+    ? value ? "1" : "0"
+    : `'${String(value).replaceAll("'", "''")}'`;
+
+/**
+ * The SQL of a statement with its parameters written in as literals, since
+ * the statements of a batch are sent as one text. Quoted strings and names
+ * are kept as they are, so a `?` inside them is not taken for a parameter.
+ */
+const inlineParams = (sql: string, params: unknown[]) => {
+  let index = 0;
+  return sql.replace(
+    /'(?:[^']|'')*'|"(?:[^"]|"")*"|\?/g,
+    (token) => token === "?" ? toLiteral(params[index++]) : token,
+  );
+};
+
+/**
+ * Runs `statements` in one DATABASES_RUN_SQL call, which gives the rows of
+ * each statement in turn.
+ */
+const runStatements = async (env: Env, statements: Statement[]) => {
+  const { result } = await env.DATABASE.DATABASES_RUN_SQL({
+    sql: statements.map(([sql, params]) => inlineParams(sql, params))
+      .join(";\n"),
+  });
+
+  return statements.map(([, , method], index) => {
+    const rows = (result[index]?.results ?? [])
+      .map((row) => Object.values(row as object));
+    return { rows: method === "get" ? rows[0] : rows };
+  });
+};
+
+/**
+ * A database whose `batch` runs its queries in one DATABASES_RUN_SQL call.
+ * The database runs the statements of a call as a batch: in order and in
+ * one transaction, so if one fails none of them apply. Writes that must
+ * not stop halfway are built with it and run together, after whatever they
+ * depend on has been read with `getDb`.
+ */
+export const getBatchDb = (env: Env) =>
+  drizzleProxy(
+    async (...statement) => (await runStatements(env, [statement]))[0],
+    (statements) =>
+      runStatements(
+        env,
+        statements.map(({ sql, params, method }) => [sql, params, method]),
+      ),
+  );
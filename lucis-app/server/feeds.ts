@@ -0,0 +1,165 @@
+/**
+ * Calendar feed of the todos of a user, served at `/feeds/:token.ics` by
+ * the `fetch` handler of `main.ts`.
+ *
+ * Calendar clients subscribe to the URL and poll it without signing in, so
+ * the secret token in the path identifies the user instead of the OAuth
+ * session. Each user has one token (see GET_CALENDAR_FEED), which can be
+ * rotated to revoke the old URL.
+ *
+ * Every todo is a VTODO. Open todos with a due date are also a VEVENT at
+ * that time, since most calendar apps do not show VTODOs.
+ *
+ * Recurring todos are published without an RRULE, only at their next
+ * occurrence: the app counts recurrences in the timezone of the client and
+ * clamps days of the month past the end of short months, which an RRULE
+ * next to a UTC start cannot express. Completing the todo creates the next
+ * occurrence, which the following poll picks up.
+ */
+import { and, eq, isNull } from "drizzle-orm";
+import type { Env } from "./main.ts";
+import { feedTokensTable, todoPriorities, todosTable } from "./schema.ts";
+import { getDb } from "./db.ts";
+import {
+  escapeText,
+  formatCalendar,
+  formatDateTime,
+  type IcsComponent,
+} from "./ical.ts";
+import { getTodoTagNames } from "./tools/utils/todo-helpers.ts";
+
+const FEED_PATH = /^\/feeds\/([A-Za-z0-9_-]+)\.ics$/;
+
+/**
+ * Calendar clients poll feeds often; this keeps them from hitting the
+ * database on every poll.
+ */
+const FEED_MAX_AGE_SECONDS = 300;
+
+/**
+ * PRIORITY values (section 3.8.1.9): 1 is the highest, 9 the lowest.
+ */
+const ICS_PRIORITIES: Record<typeof todoPriorities[number], string | null> = {
+  high: "1",
+  medium: "5",
+  low: "9",
+  none: null,
+};
+
+export const feedPath = (token: string) => `/feeds/${token}.ics`;
+
+type TodoRow = typeof todosTable.$inferSelect;
+
+const toVTodo = (
+  todo: TodoRow,
+  tags: string[],
+  uid: (id: number) => string,
+  now: Date,
+): IcsComponent => {
+  const summary = escapeText(todo.title ?? "");
+  const priority = ICS_PRIORITIES[todo.priority];
+  const properties: [string, string][] = [
+    ["UID", uid(todo.id)],
+    ["DTSTAMP", formatDateTime(now)],
+    ["SUMMARY", summary],
+    ["STATUS", todo.completed === 1 ? "COMPLETED" : "NEEDS-ACTION"],
+  ];
+  if (todo.dueAt) properties.push(["DUE", formatDateTime(todo.dueAt)]);
+  if (priority) properties.push(["PRIORITY", priority]);
+  if (tags.length > 0) {
+    properties.push(["CATEGORIES", tags.map(escapeText).join(",")]);
+  }
+  if (todo.parentId !== null) {
+    properties.push(["RELATED-TO", uid(todo.parentId)]);
+  }
+
+  const alarms: IcsComponent[] = todo.remindAt && todo.completed !== 1
+    ? [{
+      name: "VALARM",
+      properties: [
+        ["ACTION", "DISPLAY"],
+        ["DESCRIPTION", summary],
+        ["TRIGGER;VALUE=DATE-TIME", formatDateTime(todo.remindAt)],
+      ],
+    }]
+    : [];
+
+  return { name: "VTODO", properties, components: alarms };
+};
+
+const toVEvent = (
+  todo: TodoRow & { dueAt: Date },
+  uid: (id: number) => string,
+  now: Date,
+): IcsComponent => ({
+  name: "VEVENT",
+  properties: [
+    ["UID", `${uid(todo.id)}-due`],
+    ["DTSTAMP", formatDateTime(now)],
+    ["SUMMARY", escapeText(todo.title ?? "")],
+    ["DTSTART", formatDateTime(todo.dueAt)],
+    // A reminder of a due date, which should not block the calendar
+    ["TRANSP", "TRANSPARENT"],
+    ["RELATED-TO", uid(todo.id)],
+  ],
+});
+
+const serveCalendarFeed = async (req: Request, env: Env, token: string) => {
+  const db = await getDb(env);
+
+  const feed = await db.select({ userId: feedTokensTable.userId })
+    .from(feedTokensTable)
+    .where(eq(feedTokensTable.token, token))
+    .limit(1);
+  if (feed.length === 0) {
+    return new Response("Feed not found", { status: 404 });
+  }
+
+  const userId = feed[0].userId;
+  const todos = await db.select().from(todosTable)
+    .where(and(eq(todosTable.userId, userId), isNull(todosTable.deletedAt)));
+  const tagNames = await getTodoTagNames(db, userId);
+
+  const host = new URL(req.url).host;
+  const uid = (id: number) => `todo-${id}@${host}`;
+  const now = new Date();
+
+  const calendar = formatCalendar({
+    name: "VCALENDAR",
+    properties: [
+      ["VERSION", "2.0"],
+      ["PRODID", "-//Lucis//Todos//EN"],
+      ["CALSCALE", "GREGORIAN"],
+      ["METHOD", "PUBLISH"],
+      ["X-WR-CALNAME", "Todos"],
+    ],
+    components: [
+      ...todos.map((todo) =>
+        toVTodo(todo, tagNames.get(todo.id) ?? [], uid, now)
+      ),
+      ...todos.flatMap((todo) =>
+        todo.dueAt && todo.completed !== 1
+          ? [toVEvent({ ...todo, dueAt: todo.dueAt }, uid, now)]
+          : []
+      ),
+    ],
+  });
+
+  return new Response(req.method === "HEAD" ? null : calendar, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Cache-Control": `private, max-age=${FEED_MAX_AGE_SECONDS}`,
+    },
+  });
+};
+
+/**
+ * Serves the calendar feed when `req` is for one, or returns `null` so the
+ * request is handled elsewhere.
+ */
+export const handleCalendarFeed = (req: Request, env: Env) => {
+  const match = FEED_PATH.exec(new URL(req.url).pathname);
+  if (!match || (req.method !== "GET" && req.method !== "HEAD")) return null;
+
+  return serveCalendarFeed(req, env, match[1]);
+};
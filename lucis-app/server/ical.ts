@@ -0,0 +1,73 @@
+/**
+ * Writing iCalendar data (RFC 5545).
+ *
+ * A calendar is a tree of components, each with its properties as
+ * `[name, value]` pairs. Names may carry parameters (`TRIGGER;VALUE=...`)
+ * and values must already be in their iCalendar form, e.g. TEXT values
+ * escaped with `escapeText` and dates formatted with `formatDateTime`.
+ */
+export interface IcsComponent {
+  name: string;
+  properties: [string, string][];
+  components?: IcsComponent[];
+}
+
+/**
+ * Lines longer than this many octets are folded (section 3.1).
+ */
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escapes a TEXT value (section 3.3.11).
+ */
+export const escapeText = (value: string) =>
+  value.replace(/[\\;,]/g, (char) => `\\${char}`)
+    .replace(/\r\n|\r|\n/g, "\\n");
+
+/**
+ * A UTC DATE-TIME value (section 3.3.5), e.g. 20261019T093000Z.
+ */
+export const formatDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Folds a content line into lines of at most 75 octets, each continuation
+ * line starting with a space. Lines are only broken between characters, so
+ * multi-octet UTF-8 characters stay whole.
+ */
+export const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n ");
+};
+
+const contentLines = (component: IcsComponent): string[] => [
+  `BEGIN:${component.name}`,
+  ...component.properties.map(([name, value]) => `${name}:${value}`),
+  ...(component.components ?? []).flatMap(contentLines),
+  `END:${component.name}`,
+];
+
+/**
+ * Writes an iCalendar object, with folded lines ending in CRLF.
+ */
+export const formatCalendar = (calendar: IcsComponent) =>
+  contentLines(calendar).map(foldLine).join("\r\n") + "\r\n";
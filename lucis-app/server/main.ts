@@ -11,6 +11,9 @@ import {
   StateSchema,
 } from "../shared/deco.gen.ts";
 
+import { handleApiRequest } from "./api.ts";
+import { handleCalendarFeed } from "./feeds.ts";
+import { handleWebhook } from "./webhooks.ts";
 import { tools } from "./tools/index.ts";
 import { views } from "./views.ts";
 import { workflows } from "./workflows/index.ts";
@@ -26,6 +29,12 @@ export type Env = DefaultEnv & DecoEnv & {
   ASSETS: {
     fetch: (request: Request, init?: RequestInit) => Promise<Response>;
   };
+  /**
+   * Id of the user who gets the todos created before todos had owners,
+   * set under `[vars]` in wrangler.toml. Apps installed in a personal
+   * workspace give them to its user without it.
+   */
+  LEGACY_TODOS_OWNER_ID?: string;
 };
 
 const runtime = withRuntime<Env, typeof StateSchema>({
@@ -69,8 +78,16 @@ const runtime = withRuntime<Env, typeof StateSchema>({
    * Fallback directly to assets for all requests that do not match a tool, workflow or auth.
    * If you wanted to add custom api routes that dont make sense to be a tool or workflow,
    * you can add them on this handler.
+   *
+   * Calendar feeds (/feeds/:token.ics) are served here, since calendar
+   * clients fetch plain URLs and cannot call tools. So is the REST API
+   * (/api/v1), for scripts that cannot speak MCP, and so are inbound
+   * webhooks (/webhooks/:token), which external systems sign instead of
+   * signing in.
    */
-  fetch: (req, env) => env.ASSETS.fetch(req),
+  fetch: (req, env) =>
+    handleCalendarFeed(req, env) ?? handleApiRequest(req, env) ??
+      handleWebhook(req, env) ?? env.ASSETS.fetch(req),
 });
 
 export const Workflow = runtime.Workflow;
@@ -0,0 +1,276 @@
+/**
+ * OpenAPI 3.1 document of the REST API (see `api.ts`), generated from the
+ * zod schemas of the tools behind each route so the two cannot drift.
+ *
+ * Only the zod types the tools use are converted; anything else becomes
+ * an unconstrained schema.
+ */
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A route of the REST API, served by a tool. Path parameters are written
+ * `{name}` and are passed to the tool with the rest of its input, which
+ * comes from the query string or from the JSON body.
+ */
+export interface ApiRoute {
+  method: "GET" | "POST" | "PATCH" | "DELETE";
+  path: string;
+  input: "query" | "body";
+  status: number;
+  tool: {
+    id: string;
+    description: string;
+    inputSchema: z.ZodTypeAny;
+    outputSchema: z.ZodTypeAny;
+  };
+}
+
+/**
+ * Input fields that only AI_TOOL_EXECUTOR sets, which the API drops and
+ * leaves out of the document.
+ */
+export const INTERNAL_FIELDS = ["executionId"];
+
+const Kind = z.ZodFirstPartyTypeKind;
+
+/**
+ * The schema inside optional, nullable, default and effects wrappers.
+ */
+export const unwrapSchema = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  const def = schema._def;
+  switch (def.typeName) {
+    case Kind.ZodOptional:
+    case Kind.ZodNullable:
+      return unwrapSchema(def.innerType);
+    case Kind.ZodDefault:
+      return unwrapSchema(def.innerType);
+    case Kind.ZodEffects:
+      return unwrapSchema(def.schema);
+    default:
+      return schema;
+  }
+};
+
+const stringSchema = (def: z.ZodStringDef): JsonSchema => {
+  const schema: JsonSchema = { type: "string" };
+  for (const check of def.checks) {
+    if (check.kind === "min") schema.minLength = check.value;
+    if (check.kind === "max") schema.maxLength = check.value;
+    if (check.kind === "datetime") schema.format = "date-time";
+  }
+  return schema;
+};
+
+const numberSchema = (def: z.ZodNumberDef): JsonSchema => {
+  const schema: JsonSchema = { type: "number" };
+  for (const check of def.checks) {
+    if (check.kind === "int") schema.type = "integer";
+    if (check.kind === "min") {
+      schema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    }
+    if (check.kind === "max") {
+      schema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  }
+  return schema;
+};
+
+/**
+ * Converts a zod schema into a JSON Schema. Schemas that contain
+ * themselves (through `z.lazy`) are left unconstrained where they recur.
+ */
+export const toJsonSchema = (
+  schema: z.ZodTypeAny,
+  parents: z.ZodTypeAny[] = [],
+): JsonSchema => {
+  if (parents.includes(schema)) return {};
+  const convert = (inner: z.ZodTypeAny) =>
+    toJsonSchema(inner, [...parents, schema]);
+
+  const def = schema._def;
+  let result: JsonSchema;
+  switch (def.typeName) {
+    case Kind.ZodString:
+      result = stringSchema(def);
+      break;
+    case Kind.ZodNumber:
+      result = numberSchema(def);
+      break;
+    case Kind.ZodBoolean:
+      result = { type: "boolean" };
+      break;
+    case Kind.ZodEnum:
+      result = { type: "string", enum: def.values };
+      break;
+    case Kind.ZodLiteral:
+      result = { const: def.value };
+      break;
+    case Kind.ZodArray:
+      result = { type: "array", items: convert(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      break;
+    case Kind.ZodObject: {
+      const shape: Record<string, z.ZodTypeAny> = def.shape();
+      result = {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, convert(value)]),
+        ),
+        required: Object.keys(shape).filter((key) => !shape[key].isOptional()),
+      };
+      if (def.unknownKeys === "strict") result.additionalProperties = false;
+      break;
+    }
+    case Kind.ZodRecord:
+      result = { type: "object", additionalProperties: convert(def.valueType) };
+      break;
+    case Kind.ZodUnion:
+    case Kind.ZodDiscriminatedUnion:
+      result = { oneOf: [...def.options].map(convert) };
+      break;
+    case Kind.ZodNullable:
+      result = { anyOf: [convert(def.innerType), { type: "null" }] };
+      break;
+    case Kind.ZodOptional:
+      result = convert(def.innerType);
+      break;
+    case Kind.ZodDefault:
+      result = { ...convert(def.innerType), default: def.defaultValue() };
+      break;
+    case Kind.ZodEffects:
+      result = convert(def.schema);
+      break;
+    case Kind.ZodLazy:
+      result = convert(def.getter());
+      break;
+    default:
+      result = {};
+  }
+
+  return schema.description
+    ? { ...result, description: schema.description }
+    : result;
+};
+
+const pathParameters = (path: string) =>
+  [...path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: {
+          error: { type: "string" },
+          code: {
+            type: "string",
+            description: "Stable code of the error; TODO_CONFLICT for conflicts",
+          },
+        },
+        required: ["error"],
+      },
+    },
+  },
+});
+
+const toOperation = (route: ApiRoute) => {
+  const input = toJsonSchema(route.tool.inputSchema);
+  const inPath = pathParameters(route.path);
+  const fields = Object.entries(
+    (input.properties ?? {}) as Record<string, JsonSchema>,
+  ).filter(([name]) => !INTERNAL_FIELDS.includes(name));
+  const required = (input.required ?? []) as string[];
+
+  const parameters = [
+    ...inPath.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "integer" },
+    })),
+    ...(route.input === "query"
+      ? fields.filter(([name]) => !inPath.includes(name)).map((
+        [name, schema],
+      ) => ({
+        name,
+        in: "query",
+        required: required.includes(name),
+        schema,
+        // Arrays are repeated keys: ?tags=a&tags=b
+        ...(schema.type === "array" ? { style: "form", explode: true } : {}),
+      }))
+      : []),
+  ];
+
+  const body = route.input === "body"
+    ? {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              ...input,
+              properties: Object.fromEntries(
+                fields.filter(([name]) => !inPath.includes(name)),
+              ),
+              required: required.filter((name) =>
+                !inPath.includes(name) && !INTERNAL_FIELDS.includes(name)
+              ),
+            },
+          },
+        },
+      },
+    }
+    : {};
+
+  return {
+    operationId: route.tool.id,
+    description: route.tool.description,
+    parameters,
+    ...body,
+    responses: {
+      [route.status]: {
+        description: "Success",
+        content: {
+          "application/json": { schema: toJsonSchema(route.tool.outputSchema) },
+        },
+      },
+      400: errorResponse("Invalid input"),
+      401: errorResponse("Not signed in"),
+      404: errorResponse("Not found"),
+      ...(fields.some(([name]) => name === "expectedVersion")
+        ? { 409: errorResponse("Changed since expectedVersion") }
+        : {}),
+      500: errorResponse("Server error"),
+    },
+  };
+};
+
+/**
+ * The OpenAPI document of `routes`, served under `basePath`.
+ */
+export const buildOpenApiDocument = (routes: ApiRoute[], basePath: string) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method.toLowerCase()]: toOperation(route),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Todos API",
+      version: "1",
+      description:
+        "REST access to the todo tools, for clients that do not speak MCP. Requests are authenticated like the tools, with the session of the signed-in user.",
+    },
+    servers: [{ url: basePath }],
+    paths,
+  };
+};
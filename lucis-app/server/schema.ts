@@ -4,10 +4,432 @@
  * After making changes to this file, run `npm run db:generate` to generate the migration file.
  * Then, by just using the app, the migration is lazily ensured at runtime.
  */
-import { integer, sqliteTable, text } from "@deco/workers-runtime/drizzle";
+import {
+  type AnySQLiteColumn,
+  index,
+  integer,
+  primaryKey,
+  real,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "@deco/workers-runtime/drizzle";
+import { sql } from "drizzle-orm";
 
+export const todoPriorities = ["none", "low", "medium", "high"] as const;
+
+/**
+ * `userId` holds the id returned by `ensureAuthenticated()`. Rows created
+ * before todos had owners are given one after the migrations run (see
+ * `backfillTodoOwners` in `db.ts`); nobody sees them until then.
+ *
+ * `reminderTriggerId` is the id of the cron trigger that fires the reminder
+ * at `remindAt`, so it can be replaced or removed when the todo changes.
+ * `remindedAt` records when that reminder actually fired.
+ *
+ * `parentId` makes a todo a subtask of another todo. What happens to the
+ * subtasks of a deleted todo is decided by DELETE_TODO.
+ *
+ * `listId` groups the todo in one of the user's lists. Todos without a list
+ * are in the inbox. Subtasks are kept in the same list as their parent.
+ *
+ * `position` is the manual order of a todo among its siblings (same list
+ * and parent). It is fractional so a todo can be moved between two others
+ * by updating only its own row; see REORDER_TODOS.
+ *
+ * `recurrence` is an RRULE (see `todo-recurrence.ts`). Completing a
+ * recurring todo creates its next occurrence, which takes over the rule.
+ *
+ * `status` is the column of the todo on the board of its list, one of the
+ * statuses of the list's workflow (see `todo-statuses.ts`). `completed`
+ * mirrors whether that status is a done one, so everything that only cares
+ * about done/not done keeps reading it; both are always changed together.
+ *
+ * `version` starts at 1 and goes up with every change to the todo, so a
+ * change made from an outdated copy can be refused instead of silently
+ * overwriting a newer one (see `todo-versions.ts`).
+ *
+ * `assigneeId` is the team member (see `team.ts`) the todo is assigned to.
+ * Assignees see and work on the todo alongside its owner, but only the
+ * owner can delete it or move it between their lists.
+ *
+ * `deletedAt` is set when a todo is moved to the trash. Trashed todos are
+ * hidden from every tool but RESTORE_TODO and the trash listing, and are
+ * purged for good after a retention window (see `todo-trash.ts`).
+ *
+ * Titles are also indexed in `todos_fts`, an FTS5 table kept in sync by
+ * triggers (migration 0008). Drizzle cannot describe virtual tables, so it
+ * only exists in that migration; SEARCH_TODOS queries it with raw SQL.
+ */
 export const todosTable = sqliteTable("todos", {
   id: integer("id").primaryKey(),
   title: text("title"),
   completed: integer("completed").default(0),
+  status: text("status").notNull().default("todo"),
+  userId: text("user_id"),
+  dueAt: integer("due_at", { mode: "timestamp" }),
+  remindAt: integer("remind_at", { mode: "timestamp" }),
+  remindedAt: integer("reminded_at", { mode: "timestamp" }),
+  reminderTriggerId: text("reminder_trigger_id"),
+  parentId: integer("parent_id").references(
+    (): AnySQLiteColumn => todosTable.id,
+    { onDelete: "set null" },
+  ),
+  listId: integer("list_id").references(
+    (): AnySQLiteColumn => listsTable.id,
+    { onDelete: "set null" },
+  ),
+  priority: text("priority", { enum: todoPriorities }).notNull().default(
+    "none",
+  ),
+  position: real("position").notNull().default(0),
+  recurrence: text("recurrence"),
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+  assigneeId: text("assignee_id"),
+  version: integer("version").notNull().default(1),
+}, (table) => [
+  index("todos_user_id_idx").on(table.userId),
+  index("todos_assignee_id_idx").on(table.assigneeId),
+  index("todos_due_at_idx").on(table.dueAt),
+  index("todos_parent_id_idx").on(table.parentId),
+  index("todos_list_id_idx").on(table.listId),
+  index("todos_deleted_at_idx").on(table.deletedAt),
+]);
+
+/**
+ * Named lists (projects) that group the todos of a user. Archived lists
+ * keep their todos but are hidden from the list of lists by default.
+ *
+ * `statuses` is the workflow of the list: the ordered columns of its board,
+ * some of which count as done. NULL means the default workflow, which the
+ * inbox always uses (see `todo-statuses.ts`).
+ */
+export const listsTable = sqliteTable("lists", {
+  id: integer("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  statuses: text("statuses", { mode: "json" })
+    .$type<{ id: string; name: string; done: boolean }[]>(),
+  archivedAt: integer("archived_at", { mode: "timestamp" }),
+}, (table) => [
+  index("lists_user_id_idx").on(table.userId),
+]);
+
+/**
+ * Tags belong to a user and are unique by name for that user.
+ */
+export const tagsTable = sqliteTable("tags", {
+  id: integer("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+}, (table) => [
+  uniqueIndex("tags_user_id_name_idx").on(table.userId, table.name),
+]);
+
+export const todoTagsTable = sqliteTable("todo_tags", {
+  todoId: integer("todo_id").notNull().references(() => todosTable.id, {
+    onDelete: "cascade",
+  }),
+  tagId: integer("tag_id").notNull().references(() => tagsTable.id, {
+    onDelete: "cascade",
+  }),
+}, (table) => [
+  primaryKey({ columns: [table.todoId, table.tagId] }),
+  index("todo_tags_tag_id_idx").on(table.tagId),
+]);
+
+export const todoEventTypes = [
+  "created",
+  "toggled",
+  "edited",
+  "deleted",
+  "restored",
+] as const;
+
+/**
+ * Where a change came from: a person using the app or its tools directly,
+ * code generated by AI_TOOL_EXECUTOR, or an inbound webhook (whose owner
+ * is then the actor).
+ */
+export const todoEventSources = [
+  "user",
+  "AI_TOOL_EXECUTOR",
+  "webhook",
+] as const;
+
+/**
+ * The history of each todo. `actorId` is the user who made the change;
+ * `before` and `after` are JSON objects with the values of the fields that
+ * changed (see `todo-events.ts`).
+ */
+export const todoEventsTable = sqliteTable("todo_events", {
+  id: integer("id").primaryKey(),
+  todoId: integer("todo_id").notNull().references(() => todosTable.id, {
+    onDelete: "cascade",
+  }),
+  actorId: text("actor_id").notNull(),
+  source: text("source", { enum: todoEventSources }).notNull(),
+  type: text("type", { enum: todoEventTypes }).notNull(),
+  before: text("before", { mode: "json" }),
+  after: text("after", { mode: "json" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("todo_events_todo_id_idx").on(table.todoId),
+]);
+
+/**
+ * Runs of AI_TOOL_EXECUTOR in progress. The code it generates calls the
+ * tools with the `id` of its run as `executionId`, which is how they know
+ * their changes come from AI_TOOL_EXECUTOR (see `todo-events.ts`); the id
+ * is only known to that code, so no other caller can claim it.
+ */
+export const aiExecutionsTable = sqliteTable("ai_executions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
 });
+
+/**
+ * Secret tokens of the calendar feeds (see `feeds.ts`), one per user.
+ * Calendar clients cannot sign in, so the token in the feed URL is what
+ * grants access; rotating it replaces the row and the old URL stops working.
+ */
+export const feedTokensTable = sqliteTable("feed_tokens", {
+  userId: text("user_id").primaryKey(),
+  token: text("token").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  uniqueIndex("feed_tokens_token_idx").on(table.token),
+]);
+
+/**
+ * Inbound webhooks (see `webhooks.ts`). External systems POST JSON to the
+ * URL with `token`, signed with `secret`, and `template` (see
+ * `webhook-templates.ts`) maps the payload to the todos created in
+ * `listId` for `userId`.
+ */
+export const webhooksTable = sqliteTable("webhooks", {
+  id: integer("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  token: text("token").notNull(),
+  secret: text("secret").notNull(),
+  template: text("template", { mode: "json" }).notNull(),
+  listId: integer("list_id").references(() => listsTable.id, {
+    onDelete: "set null",
+  }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  uniqueIndex("webhooks_token_idx").on(table.token),
+  index("webhooks_user_id_idx").on(table.userId),
+]);
+
+export const webhookDeliveryStatuses = [
+  "created",
+  "duplicate",
+  "rejected",
+  "failed",
+] as const;
+
+/**
+ * The recent signed requests to each webhook and what came of them. A
+ * delivery whose `idempotencyKey` was already used (see
+ * `webhookIdempotencyKeysTable`) is a `duplicate` and creates nothing.
+ * `todoIds` is a JSON array of the created todos.
+ */
+export const webhookDeliveriesTable = sqliteTable("webhook_deliveries", {
+  id: integer("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(
+    () => webhooksTable.id,
+    { onDelete: "cascade" },
+  ),
+  idempotencyKey: text("idempotency_key"),
+  status: text("status", { enum: webhookDeliveryStatuses }).notNull(),
+  error: text("error"),
+  todoIds: text("todo_ids", { mode: "json" }).$type<number[]>().notNull(),
+  receivedAt: integer("received_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("webhook_deliveries_webhook_id_idx").on(
+    table.webhookId,
+    table.idempotencyKey,
+  ),
+]);
+
+/**
+ * The idempotency keys used by the deliveries of each webhook. A key is
+ * inserted before its delivery creates anything, so of two deliveries with
+ * the same key only one gets to; `todoIds` is null until it has. Keys are
+ * kept longer than the delivery log, so a key is not reused however many
+ * deliveries come after it.
+ */
+export const webhookIdempotencyKeysTable = sqliteTable(
+  "webhook_idempotency_keys",
+  {
+    id: integer("id").primaryKey(),
+    webhookId: integer("webhook_id").notNull().references(
+      () => webhooksTable.id,
+      { onDelete: "cascade" },
+    ),
+    key: text("key").notNull(),
+    todoIds: text("todo_ids", { mode: "json" }).$type<number[]>(),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    uniqueIndex("webhook_idempotency_keys_webhook_id_key_idx").on(
+      table.webhookId,
+      table.key,
+    ),
+  ],
+);
+
+/**
+ * Outbound webhooks: URLs that get a signed POST for each change of the
+ * todos owned by or assigned to `userId` whose type is in `events` (see
+ * `subscriptions.ts`).
+ */
+export const webhookSubscriptionsTable = sqliteTable("webhook_subscriptions", {
+  id: integer("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events", { mode: "json" }).$type<string[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("webhook_subscriptions_user_id_idx").on(table.userId),
+]);
+
+export const webhookEventStatuses = ["pending", "delivered", "failed"] as const;
+
+/**
+ * Events waiting to be, or already, delivered to a subscription. `payload`
+ * is the JSON body, kept so that every retry sends the same event. An
+ * event is `failed` once its attempts ran out. Workflow steps run without
+ * a session, so the DELIVER_WEBHOOK_EVENT run of an event is given its
+ * random `deliveryToken` to prove it was started for it.
+ */
+export const webhookEventsTable = sqliteTable("webhook_events", {
+  id: integer("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(
+    () => webhookSubscriptionsTable.id,
+    { onDelete: "cascade" },
+  ),
+  type: text("type").notNull(),
+  payload: text("payload").notNull(),
+  status: text("status", { enum: webhookEventStatuses }).notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  deliveryToken: text("delivery_token"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("webhook_events_subscription_id_idx").on(table.subscriptionId),
+]);
+
+/**
+ * Each POST of an event: the HTTP status of the response, or the error
+ * when there was none.
+ */
+export const webhookAttemptsTable = sqliteTable("webhook_attempts", {
+  id: integer("id").primaryKey(),
+  eventId: integer("event_id").notNull().references(
+    () => webhookEventsTable.id,
+    { onDelete: "cascade" },
+  ),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  attemptedAt: integer("attempted_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("webhook_attempts_event_id_idx").on(table.eventId),
+]);
+
+/**
+ * Comments on a todo, written in Markdown by `userId`. `authorName` and
+ * `authorAvatar` are copied from the profile of the author when the comment
+ * is written, so the thread shows them without asking for every profile.
+ * `mentions` is a JSON array of the team members mentioned with
+ * `@handle` (see `team.ts`). `editedAt` is set when the body changes.
+ */
+export const todoCommentsTable = sqliteTable("todo_comments", {
+  id: integer("id").primaryKey(),
+  todoId: integer("todo_id").notNull().references(() => todosTable.id, {
+    onDelete: "cascade",
+  }),
+  userId: text("user_id").notNull(),
+  authorName: text("author_name"),
+  authorAvatar: text("author_avatar"),
+  body: text("body").notNull(),
+  mentions: text("mentions", { mode: "json" })
+    .$type<{ userId: string; handle: string }[]>()
+    .notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  editedAt: integer("edited_at", { mode: "timestamp" }),
+}, (table) => [
+  index("todo_comments_todo_id_idx").on(table.todoId),
+]);
+
+export const todoAttachmentStatuses = ["pending", "ready"] as const;
+
+/**
+ * Files attached to a todo. The bytes are in the workspace file system at
+ * `path` (see `todo-attachments.ts`); an attachment is `pending` from the
+ * moment its upload URL is handed out until the upload is confirmed.
+ */
+export const todoAttachmentsTable = sqliteTable("todo_attachments", {
+  id: integer("id").primaryKey(),
+  todoId: integer("todo_id").notNull().references(() => todosTable.id, {
+    onDelete: "cascade",
+  }),
+  userId: text("user_id").notNull(),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  path: text("path").notNull(),
+  status: text("status", { enum: todoAttachmentStatuses }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("todo_attachments_todo_id_idx").on(table.todoId),
+  uniqueIndex("todo_attachments_path_idx").on(table.path),
+]);
+
+/**
+ * "Blocked by" links between todos: `todoId` cannot be completed while
+ * `blockedById` is open (see `todo-dependencies.ts`). `userId` is who added
+ * the link. Links never form a cycle.
+ */
+export const todoDependenciesTable = sqliteTable("todo_dependencies", {
+  todoId: integer("todo_id").notNull().references(() => todosTable.id, {
+    onDelete: "cascade",
+  }),
+  blockedById: integer("blocked_by_id").notNull().references(
+    () => todosTable.id,
+    { onDelete: "cascade" },
+  ),
+  userId: text("user_id").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.todoId, table.blockedById] }),
+  index("todo_dependencies_blocked_by_id_idx").on(table.blockedById),
+]);
+
+/**
+ * Time `userId` spent on a todo. `endedAt` is NULL while the timer runs;
+ * a user has at most one running timer, which the partial unique index
+ * enforces. Entries can also be added and edited by hand (see
+ * `tools/todos/time.ts`).
+ */
+export const timeEntriesTable = sqliteTable("time_entries", {
+  id: integer("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  todoId: integer("todo_id").notNull().references(() => todosTable.id, {
+    onDelete: "cascade",
+  }),
+  startedAt: integer("started_at", { mode: "timestamp" }).notNull(),
+  endedAt: integer("ended_at", { mode: "timestamp" }),
+  note: text("note"),
+}, (table) => [
+  index("time_entries_user_id_started_at_idx").on(
+    table.userId,
+    table.startedAt,
+  ),
+  index("time_entries_todo_id_idx").on(table.todoId),
+  uniqueIndex("time_entries_running_idx").on(table.userId)
+    .where(sql`${table.endedAt} is null`),
+]);
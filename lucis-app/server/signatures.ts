@@ -0,0 +1,105 @@
+/**
+ * HMAC-SHA256 signatures of webhook payloads.
+ *
+ * A payload is sent with the time it was signed at, in Unix seconds, in the
+ * `X-Webhook-Timestamp` header. Its signature is sent as `sha256=<hex
+ * digest of "<timestamp>.<raw body>">` in the `X-Webhook-Signature` header,
+ * so a captured request cannot be replayed once its timestamp is stale.
+ */
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/**
+ * How far the timestamp of a payload may be from the time it is received.
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const SIGNATURE_PREFIX = "sha256=";
+
+const encoder = new TextEncoder();
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+
+const toHex = (bytes: ArrayBuffer) =>
+  [...new Uint8Array(bytes)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const fromHex = (hex: string) => {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) return null;
+  return new Uint8Array(
+    hex.match(/../g)!.map((byte) => parseInt(byte, 16)),
+  );
+};
+
+/**
+ * A random URL-safe secret, used for webhook tokens and signing secrets.
+ */
+export const generateSecret = (bytes = 24) =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(bytes))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const signedContent = (timestamp: string, body: string) =>
+  encoder.encode(`${timestamp}.${body}`);
+
+/**
+ * The timestamp and signature header values of `body`, signed now.
+ */
+export const signPayload = async (secret: string, body: string) => {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const key = await importKey(secret);
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    signedContent(timestamp, body),
+  );
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: `${SIGNATURE_PREFIX}${toHex(digest)}`,
+  };
+};
+
+/**
+ * Whether `timestamp` is a time in Unix seconds within the tolerance of
+ * now.
+ */
+export const isRecentTimestamp = (
+  timestamp: string | null,
+): timestamp is string =>
+  timestamp !== null && /^\d{1,12}$/.test(timestamp) &&
+  Math.abs(Date.now() / 1000 - Number(timestamp)) <=
+    SIGNATURE_TOLERANCE_SECONDS;
+
+/**
+ * Whether `signature` is the signature of `body` sent at `timestamp`. The
+ * comparison is done by WebCrypto, in constant time.
+ */
+export const verifySignature = async (
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string | null,
+) => {
+  if (!signature?.startsWith(SIGNATURE_PREFIX)) return false;
+
+  const digest = fromHex(signature.slice(SIGNATURE_PREFIX.length));
+  if (!digest) return false;
+
+  const key = await importKey(secret);
+  return crypto.subtle.verify(
+    "HMAC",
+    key,
+    digest,
+    signedContent(timestamp, body),
+  );
+};
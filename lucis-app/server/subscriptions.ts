@@ -0,0 +1,250 @@
+/**
+ * Outbound webhooks: every change of a todo is POSTed, signed (see
+ * `signatures.ts`), to the webhook subscriptions of its owner and of its
+ * assignee, whoever made the change.
+ *
+ * Recording a todo event (see `recordTodoEvents`) queues one webhook
+ * event per matching subscription and starts the DELIVER_WEBHOOK_EVENT
+ * workflow for it, which calls ATTEMPT_WEBHOOK_DELIVERY until the event is
+ * delivered or its attempts run out. Attempts after the first wait longer
+ * and longer, so a receiver that is down for a moment gets the event late
+ * instead of never.
+ *
+ * The body of an event is
+ * `{ id, type, occurredAt, todoId, actor: { id, source }, before, after }`,
+ * where `before` and `after` hold the changed fields like the todo
+ * history does, and `id` identifies the event across retries.
+ */
+import { and, desc, eq, inArray, lt } from "drizzle-orm";
+import type { Env } from "./main.ts";
+import {
+  todoEventTypes,
+  todosTable,
+  webhookAttemptsTable,
+  webhookEventsTable,
+  webhookSubscriptionsTable,
+} from "./schema.ts";
+import { generateSecret, signPayload } from "./signatures.ts";
+import type { Db } from "./tools/utils/todo-helpers.ts";
+import type { TodoEvent, TodoEventSource } from "./tools/utils/todo-events.ts";
+
+export const WEBHOOK_WORKFLOW_ID = "DELIVER_WEBHOOK_EVENT";
+
+/**
+ * Attempts made to deliver an event before it is marked as failed.
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+
+/**
+ * Wait before the second attempt; each further attempt waits 4 times
+ * longer (2s, 8s, 32s, 128s).
+ */
+const WEBHOOK_BACKOFF_MS = 2_000;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Events kept per subscription, with their attempts.
+ */
+const WEBHOOK_EVENT_LOG_SIZE = 100;
+
+export const webhookEventNames = [
+  "todo.created",
+  "todo.toggled",
+  "todo.updated",
+  "todo.deleted",
+  "todo.restored",
+] as const;
+
+export type WebhookEventName = typeof webhookEventNames[number];
+
+/**
+ * Names of the todo event types in webhook events.
+ */
+export const webhookEventTypes: Record<
+  typeof todoEventTypes[number],
+  WebhookEventName
+> = {
+  created: "todo.created",
+  toggled: "todo.toggled",
+  edited: "todo.updated",
+  deleted: "todo.deleted",
+  restored: "todo.restored",
+};
+
+export const backoffDelay = (attempts: number) =>
+  attempts === 0 ? 0 : WEBHOOK_BACKOFF_MS * 4 ** (attempts - 1);
+
+/**
+ * Drops the oldest events of a subscription past the log size.
+ */
+const pruneEvents = async (db: Db, subscriptionId: number) => {
+  const kept = await db.select({ id: webhookEventsTable.id })
+    .from(webhookEventsTable)
+    .where(eq(webhookEventsTable.subscriptionId, subscriptionId))
+    .orderBy(desc(webhookEventsTable.id))
+    .limit(1)
+    .offset(WEBHOOK_EVENT_LOG_SIZE - 1);
+  if (kept.length === 0) return;
+
+  const old = and(
+    eq(webhookEventsTable.subscriptionId, subscriptionId),
+    lt(webhookEventsTable.id, kept[0].id),
+  );
+  const oldEvents = db.select({ id: webhookEventsTable.id })
+    .from(webhookEventsTable)
+    .where(old);
+  await db.delete(webhookAttemptsTable)
+    .where(inArray(webhookAttemptsTable.eventId, oldEvents));
+  await db.delete(webhookEventsTable).where(old);
+};
+
+/**
+ * The users a todo event is sent to: the owner of the todo, and whoever it
+ * is assigned to or was assigned to before the change.
+ */
+const recipientsOf = (
+  event: TodoEvent,
+  todo: { userId: string | null; assigneeId: string | null } | undefined,
+) => {
+  const previousAssignee = event.before && "assigneeId" in event.before
+    ? event.before.assigneeId
+    : null;
+  return new Set(
+    [todo?.userId, todo?.assigneeId, previousAssignee]
+      .filter((id): id is string => typeof id === "string"),
+  );
+};
+
+/**
+ * Queues the webhook events of the given todo events for the
+ * subscriptions of the owners and assignees of their todos, whoever made
+ * the change, and starts their deliveries all at once. Failing to start a
+ * delivery is logged but does not fail the change.
+ */
+export const dispatchTodoEvents = async (
+  env: Env,
+  db: Db,
+  { actorId, source }: { actorId: string; source: TodoEventSource },
+  events: TodoEvent[],
+) => {
+  const todos = await db.select({
+    id: todosTable.id,
+    userId: todosTable.userId,
+    assigneeId: todosTable.assigneeId,
+  }).from(todosTable).where(
+    inArray(todosTable.id, [...new Set(events.map((event) => event.todoId))]),
+  );
+  const todosById = new Map(todos.map((todo) => [todo.id, todo]));
+  const recipients = events.map((event) =>
+    recipientsOf(event, todosById.get(event.todoId))
+  );
+
+  const userIds = [...new Set(recipients.flatMap((ids) => [...ids]))];
+  if (userIds.length === 0) return;
+  const subscriptions = await db.select().from(webhookSubscriptionsTable)
+    .where(inArray(webhookSubscriptionsTable.userId, userIds));
+  if (subscriptions.length === 0) return;
+
+  const occurredAt = new Date();
+  const queued = subscriptions.flatMap((subscription) =>
+    events
+      .map((event, index) => ({
+        event,
+        type: webhookEventTypes[event.type],
+        recipients: recipients[index],
+      }))
+      .filter(({ type, recipients }) =>
+        subscription.events.includes(type) &&
+        recipients.has(subscription.userId)
+      )
+      .map(({ event, type }) => ({
+        subscriptionId: subscription.id,
+        type,
+        payload: JSON.stringify({
+          id: crypto.randomUUID(),
+          type,
+          occurredAt: occurredAt.toISOString(),
+          todoId: event.todoId,
+          actor: { id: actorId, source },
+          before: event.before ?? null,
+          after: event.after ?? null,
+        }),
+        status: "pending" as const,
+        deliveryToken: generateSecret(),
+        createdAt: occurredAt,
+      }))
+  );
+  if (queued.length === 0) return;
+
+  const rows = await db.insert(webhookEventsTable).values(queued)
+    .returning({
+      id: webhookEventsTable.id,
+      deliveryToken: webhookEventsTable.deliveryToken,
+    });
+  for (const subscription of subscriptions) {
+    await pruneEvents(db, subscription.id);
+  }
+
+  await Promise.all(rows.map(async (row) => {
+    try {
+      // The runtime exposes each workflow as a start tool on SELF
+      await env.SELF.DECO_CHAT_WORKFLOWS_START_DELIVER_WEBHOOK_EVENT({
+        eventId: row.id,
+        token: row.deliveryToken!,
+      });
+    } catch (error) {
+      console.error("Failed to start webhook delivery:", error);
+    }
+  }));
+};
+
+/**
+ * POSTs a queued event to its subscription once and records the attempt.
+ * Returns the status of the event afterwards.
+ */
+export const attemptDelivery = async (
+  db: Db,
+  event: typeof webhookEventsTable.$inferSelect,
+  subscription: typeof webhookSubscriptionsTable.$inferSelect,
+) => {
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Lucis-Webhooks/1",
+        "X-Webhook-Event": event.type,
+        ...await signPayload(subscription.secret, event.payload),
+      },
+      body: event.payload,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      redirect: "manual",
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `Responded with ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  await db.insert(webhookAttemptsTable).values({
+    eventId: event.id,
+    responseStatus,
+    error,
+    attemptedAt: new Date(),
+  });
+
+  const attempts = event.attempts + 1;
+  const status = error === null
+    ? "delivered" as const
+    : attempts >= WEBHOOK_MAX_ATTEMPTS
+    ? "failed" as const
+    : "pending" as const;
+  await db.update(webhookEventsTable)
+    .set({ attempts, status })
+    .where(eq(webhookEventsTable.id, event.id));
+
+  return { attempts, status };
+};
@@ -0,0 +1,107 @@
+/**
+ * The members of the team the app is installed in, as returned by
+ * TEAM_MEMBERS_GET: the people todos can be assigned to, and whom the
+ * `@handle` mentions of comments refer to.
+ *
+ * A member's handle is their username, or the part of their email before
+ * the `@` when they have none. Apps installed in a personal workspace have
+ * no team, so nobody can be mentioned there and todos can only be assigned
+ * to their owner.
+ */
+import { z } from "zod";
+import type { Env } from "./main.ts";
+
+/**
+ * Workspaces of teams are named `/shared/<team slug>`; personal ones
+ * `/users/<user id>`.
+ */
+const TEAM_WORKSPACE = /^\/?shared\/([^/]+)$/;
+
+const PERSONAL_WORKSPACE = /^\/?users\/([^/]+)$/;
+
+const MENTION = /(?<![\w@])@(\w[\w.-]*)/g;
+
+const teamSchema = z.object({ id: z.number() });
+
+const teamMembersSchema = z.object({
+  items: z.array(z.object({
+    user_id: z.string(),
+    profiles: z.object({
+      email: z.string(),
+      metadata: z.object({
+        full_name: z.string().nullish(),
+        avatar_url: z.string().nullish(),
+        username: z.string().nullish(),
+      }).nullish(),
+    }),
+  })),
+});
+
+export interface TeamMember {
+  id: string;
+  handle: string;
+  name: string | null;
+  avatar: string | null;
+}
+
+export interface Mention {
+  userId: string;
+  handle: string;
+}
+
+/**
+ * The user whose personal workspace the app is installed in, or null when
+ * it is installed in a team's.
+ */
+export const findWorkspaceUserId = (env: Env) =>
+  PERSONAL_WORKSPACE.exec(env.DECO_CHAT_WORKSPACE)?.[1] ?? null;
+
+export const listTeamMembers = async (env: Env): Promise<TeamMember[]> => {
+  const workspace = TEAM_WORKSPACE.exec(env.DECO_CHAT_WORKSPACE);
+  if (!workspace) return [];
+
+  const team = teamSchema.parse(
+    await env.DECO_CHAT_API.TEAMS_GET({ slug: workspace[1] }),
+  );
+  const members = teamMembersSchema.parse(
+    await env.DECO_CHAT_API.TEAM_MEMBERS_GET({ teamId: team.id }),
+  );
+
+  return members.items.map(({ user_id, profiles }) => ({
+    id: user_id,
+    handle: (profiles.metadata?.username || profiles.email.split("@")[0])
+      .toLowerCase(),
+    name: profiles.metadata?.full_name ?? null,
+    avatar: profiles.metadata?.avatar_url ?? null,
+  }));
+};
+
+/**
+ * The team members mentioned in `text`, once each. Handles are matched
+ * case-insensitively, and `@handle`s that match nobody are left as text.
+ * When the team cannot be loaded, the error is logged and nobody is
+ * mentioned, so writing the text does not fail because of it.
+ */
+export const findMentions = async (
+  env: Env,
+  text: string,
+): Promise<Mention[]> => {
+  const handles = new Set(
+    [...text.matchAll(MENTION)].map((match) =>
+      match[1].replace(/[.-]+$/, "").toLowerCase()
+    ),
+  );
+  if (handles.size === 0) return [];
+
+  let members: TeamMember[];
+  try {
+    members = await listTeamMembers(env);
+  } catch (error) {
+    console.error("Failed to load the team members:", error);
+    return [];
+  }
+
+  return members
+    .filter((member) => handles.has(member.handle))
+    .map((member) => ({ userId: member.id, handle: member.handle }));
+};
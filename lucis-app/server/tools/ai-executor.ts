@@ -6,7 +6,11 @@
  */
 import { createPrivateTool } from "@deco/workers-runtime/mastra";
 import { z } from "zod";
+import { eq, lt } from "drizzle-orm";
 import type { Env } from "../main.ts";
+import { aiExecutionsTable } from "../schema.ts";
+import { getDb } from "../db.ts";
+import { getCurrentUserId } from "./utils/todo-helpers.ts";
 
 const AI_TOOL_GENERATION_SCHEMA = {
   type: "object",
@@ -44,6 +48,44 @@ const AI_TOOL_GENERATION_SCHEMA = {
   required: ["toolName", "toolDescription", "inputSchema", "outputSchema", "executeCode", "input", "reasoning"],
 };
 
+/**
+ * How long the code of a run can keep calling the tools as
+ * AI_TOOL_EXECUTOR, should the run never get to finish it.
+ */
+const EXECUTION_TTL_MS = 5 * 60 * 1000;
+
+const DEFAULT_EXPORT = /\bexport\s+default\s+/g;
+
+/**
+ * Wraps the generated code so that every tool it calls through
+ * `ctx.env.SELF` gets the id of the run as `executionId`, which makes them
+ * record AI_TOOL_EXECUTOR as the source of their changes (see
+ * `todo-events.ts`). Whatever the code exports by default, be it a function
+ * or the name of one, becomes `generated`. Code without exactly one default
+ * export is refused.
+ */
+const withExecutionId = (executeCode: string, executionId: string) => {
+  if (executeCode.match(DEFAULT_EXPORT)?.length !== 1) {
+    throw new Error(
+      "Generated code must have exactly one default export: 'export default async function (input, ctx) {'",
+    );
+  }
+
+  return `${executeCode.replace(DEFAULT_EXPORT, "const generated = ")}
+
+export default async function (input, ctx) {
+  const SELF = new Proxy(ctx.env.SELF, {
+    get: (self, name) => (args) =>
+      self[name]({ ...args, executionId: ${JSON.stringify(executionId)} }),
+  });
+  const env = new Proxy(ctx.env, {
+    get: (env, key) => (key === "SELF" ? SELF : env[key]),
+  });
+  return generated(input, { ...ctx, env });
+}
+`;
+};
+
 export const createAIToolExecutorTool = (env: Env) =>
   createPrivateTool({
     id: "AI_TOOL_EXECUTOR",
@@ -59,16 +101,52 @@ export const createAIToolExecutorTool = (env: Env) =>
       error: z.string().optional(),
     }),
     execute: async ({ context }) => {
-      // Use AI to generate the tool code dynamically
+      // Use AI to generate the tool code dynamically. EMPTY_TRASH is left
+      // out on purpose: the trash is what undoes the executor's mistakes.
+      // So is ROTATE_CALENDAR_FEED, which breaks subscribed calendars.
       const aiPrompt = `You are a tool code generator. Based on the user's request, generate JavaScript code that will accomplish the task.
 
 User request: "${context.query}"
 
 You have access to these tools via ctx.env.SELF:
-- ctx.env.SELF.LIST_TODOS({}) - List all todos
+- ctx.env.SELF.LIST_TODOS({ listId?: number | null, due?: "overdue" | "today" | "upcoming", tags?: string[], tagMatch?: "any" | "all", completed?: boolean, assignee?: "me" | "unassigned", text?: string, sort?: "position" | "created" | "title" | "completed" | "priority", order?: "asc" | "desc", limit?: number, cursor?: string, tree?: boolean, deleted?: boolean }) - List the todos the user owns or is assigned to, one page at a time (up to 100, 50 by default), optionally filtered by list (null for the inbox), due date, tags, completion, assignee or title text, or nested as a tree of subtasks. Set deleted to list the trash instead. Returns { todos, nextCursor }; pass nextCursor as cursor to get the next page
+- ctx.env.SELF.SEARCH_TODOS({ query: string, listId?: number | null, completed?: boolean, limit?: number }) - Full-text search of todo titles, best matches first. Returns { results: [{ todo, snippet, score }] }
+- ctx.env.SELF.CREATE_TODO({ title: string, completed?: boolean, dueAt?: string, remindAt?: string, parentId?: number, listId?: number | null, priority?: "none" | "low" | "medium" | "high", recurrence?: string }) - Create a todo with the given title (dates are ISO 8601), in a list when listId is set, as a subtask when parentId is set. recurrence is an RRULE such as "FREQ=DAILY", "FREQ=WEEKLY;BYDAY=MO,WE", "FREQ=MONTHLY;BYMONTHDAY=15" or "FREQ=DAILY;INTERVAL=3"
 - ctx.env.SELF.GENERATE_TODO_WITH_AI({ prompt?: string }) - Generate a todo with AI
-- ctx.env.SELF.TOGGLE_TODO({ id: number }) - Toggle a todo's completion
-- ctx.env.SELF.DELETE_TODO({ id: number }) - Delete a todo
+- ctx.env.SELF.UPDATE_TODO({ id: number, title?: string, completed?: boolean, dueAt?: string | null, remindAt?: string | null, parentId?: number | null, priority?: "none" | "low" | "medium" | "high", recurrence?: string | null, expectedVersion?: number }) - Update some fields of a todo. Todos have a version that goes up with every change; pass the version you read as expectedVersion to fail with a conflict instead of overwriting a change made since
+- ctx.env.SELF.TOGGLE_TODO({ id: number, force?: boolean, expectedVersion?: number }) - Toggle a todo's completion; completing a recurring todo creates its next occurrence. It fails for a todo blocked by open todos unless force is set
+- ctx.env.SELF.MOVE_TODO_STATUS({ id: number, status: string, force?: boolean }) - Move a todo to another status of its list's workflow (a column of its board, e.g. "todo", "doing", "done"); done statuses complete it like TOGGLE_TODO
+- ctx.env.SELF.BULK_UPDATE_TODOS({ ids: number[], action: { type: "complete" } | { type: "uncomplete" } | { type: "delete" } | { type: "move", listId: number | null } | { type: "setPriority", priority: "none" | "low" | "medium" | "high" } }) - Apply one action to up to 100 todos in a single call; use it instead of looping over TOGGLE_TODO, DELETE_TODO or UPDATE_TODO. Returns { results: [{ id, success, error? }] }
+- ctx.env.SELF.REORDER_TODOS({ id: number, previousId: number | null, nextId: number | null }) - Move a todo between two of its siblings in the manual order
+- ctx.env.SELF.ADD_TODO_TAGS({ todoId: number, tags: string[] }) - Tag a todo
+- ctx.env.SELF.REMOVE_TODO_TAGS({ todoId: number, tags: string[] }) - Untag a todo
+- ctx.env.SELF.LIST_TAGS({}) - List tags with how many todos use each one
+- ctx.env.SELF.DELETE_TODO({ id: number, subtasks?: "cascade" | "reparent" }) - Move a todo to the trash, trashing its subtasks too or moving them up to its parent
+- ctx.env.SELF.RESTORE_TODO({ id: number }) - Bring a todo back from the trash
+- ctx.env.SELF.GET_TODO_HISTORY({ id: number }) - Get the history of changes of a todo, with who made each change and whether it came from a person or from AI_TOOL_EXECUTOR
+- ctx.env.SELF.LIST_COMMENTS({ todoId: number }) - List the comments on a todo, oldest first
+- ctx.env.SELF.ADD_COMMENT({ todoId: number, body: string }) - Comment on a todo; the body is Markdown and @handle mentions a team member
+- ctx.env.SELF.LIST_TEAM_MEMBERS({}) - List the team members with the handles to mention them by
+- ctx.env.SELF.ADD_TODO_DEPENDENCY({ todoId: number, blockedById: number }) - Mark a todo as blocked by another; fails if it would create a cycle
+- ctx.env.SELF.REMOVE_TODO_DEPENDENCY({ todoId: number, blockedById: number }) - Remove a "blocked by" link
+- ctx.env.SELF.GET_TODO_GRAPH({ todoId?: number }) - Get what blocks what. Returns { nodes: [{ id, title, completed, blocked }], edges: [{ blockedById, todoId }] }
+- ctx.env.SELF.START_TIMER({ todoId: number, note?: string }) - Start tracking time on a todo, stopping the running timer if any
+- ctx.env.SELF.STOP_TIMER({}) - Stop the running timer
+- ctx.env.SELF.LIST_TIME_ENTRIES({ todoId?: number, from?: string, to?: string, timezoneOffset?: number, limit?: number }) - List time entries, latest first. Returns { entries, running, totals: { seconds, byTodo: [{ todoId, todoTitle, seconds }], byDay: [{ day, seconds }] } }
+- ctx.env.SELF.ADD_TIME_ENTRY({ todoId: number, startedAt: string, endedAt: string, note?: string }) - Log time spent on a todo by hand
+- ctx.env.SELF.UPDATE_TIME_ENTRY({ id: number, startedAt?: string, endedAt?: string, note?: string | null }) - Correct a time entry
+- ctx.env.SELF.DELETE_TIME_ENTRY({ id: number }) - Delete a time entry
+- ctx.env.SELF.ASSIGN_TODO({ id: number, assigneeId: string | null }) - Assign a todo the user owns to a team member, or unassign it with null
+- ctx.env.SELF.EXPORT_TODOS({ format: "json" | "csv" | "markdown" | "todotxt", listId?: number | null, includeCompleted?: boolean }) - Export todos as a file. Returns { filename, mimeType, content, count }
+- ctx.env.SELF.IMPORT_TODOS({ format: "json" | "csv" | "markdown" | "todotxt", content: string, dryRun?: boolean, duplicates?: "skip" | "import" }) - Import todos from the content of a file; with dryRun it only previews the todos, duplicates and parse errors
+- ctx.env.SELF.GET_CALENDAR_FEED({}) - Get the path of the secret iCalendar feed of the todos, for subscribing from a calendar app. Returns { path, createdAt }
+- ctx.env.SELF.LIST_LISTS({ includeArchived?: boolean }) - List the lists (projects) with their workflow statuses and open todo counts
+- ctx.env.SELF.SET_LIST_STATUSES({ id: number, statuses: [{ id: string, name: string, done: boolean }] }) - Set the workflow statuses of a list, in board order; at least one open and one done status
+- ctx.env.SELF.CREATE_LIST({ name: string }) - Create a list
+- ctx.env.SELF.RENAME_LIST({ id: number, name: string }) - Rename a list
+- ctx.env.SELF.ARCHIVE_LIST({ id: number, archived?: boolean }) - Archive (or unarchive) a list
+- ctx.env.SELF.DELETE_LIST({ id: number, todos?: "inbox" | "delete" }) - Delete a list, moving its todos to the inbox or to the trash
+- ctx.env.SELF.MOVE_TODOS({ ids: number[], listId: number | null }) - Move todos to a list, or to the inbox with null
 
 Generate a tool that:
 1. Has a descriptive name and description
@@ -142,11 +220,19 @@ Return a JSON with: toolName, toolDescription, inputSchema, outputSchema, execut
         throw new Error("Failed to generate tool code");
       }
 
-      // Validate that executeCode is in the correct format
-      if (!executeCode.includes("export default async function")) {
-        console.error("Invalid execute code format. Expected ES module with default export.");
-        throw new Error("Generated code is not in the correct ES module format. Code must start with 'export default async function (input, ctx) {'");
-      }
+      // The run is over once DECO_TOOL_RUN_TOOL returns, and with it the
+      // right of its code to act as AI_TOOL_EXECUTOR
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const executionId = crypto.randomUUID();
+      const execute = withExecutionId(executeCode, executionId);
+      await db.delete(aiExecutionsTable)
+        .where(lt(aiExecutionsTable.expiresAt, new Date()));
+      await db.insert(aiExecutionsTable).values({
+        id: executionId,
+        userId,
+        expiresAt: new Date(Date.now() + EXECUTION_TTL_MS),
+      });
 
       // Execute the tool using DECO_TOOL_RUN_TOOL
       try {
@@ -158,7 +244,7 @@ Return a JSON with: toolName, toolDescription, inputSchema, outputSchema, execut
             description: toolDescription,
             inputSchema,
             outputSchema,
-            execute: executeCode,
+            execute,
           },
           input: generatedInput,
         });
@@ -193,6 +279,9 @@ Return a JSON with: toolName, toolDescription, inputSchema, outputSchema, execut
           result: undefined,
           error: error instanceof Error ? error.message : "Unknown error occurred",
         };
+      } finally {
+        await db.delete(aiExecutionsTable)
+          .where(eq(aiExecutionsTable.id, executionId));
       }
     },
   });
@@ -0,0 +1,84 @@
+/**
+ * Calendar feed tools.
+ *
+ * This file contains the tools that manage the secret URL of the calendar
+ * feed of the current user (served by `../feeds.ts`):
+ * - Getting the feed URL, creating its token on first use
+ * - Rotating the token, which revokes the previous URL
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import type { Env } from "../main.ts";
+import { feedTokensTable } from "../schema.ts";
+import { getDb } from "../db.ts";
+import { feedPath } from "../feeds.ts";
+import { generateSecret } from "../signatures.ts";
+import { type Db, getCurrentUserId } from "./utils/todo-helpers.ts";
+
+const feedOutputSchema = z.object({
+  path: z.string()
+    .describe("Path of the feed, to be appended to the origin of the app"),
+  createdAt: z.string().describe("When the current token was created"),
+});
+
+/**
+ * Gives `userId` a new feed token, replacing the previous one.
+ */
+const saveFeedToken = async (db: Db, userId: string) => {
+  const values = { userId, token: generateSecret(), createdAt: new Date() };
+  const saved = await db.insert(feedTokensTable)
+    .values(values)
+    .onConflictDoUpdate({
+      target: feedTokensTable.userId,
+      set: { token: values.token, createdAt: values.createdAt },
+    })
+    .returning();
+
+  return saved[0];
+};
+
+const toFeed = (row: typeof feedTokensTable.$inferSelect) => ({
+  path: feedPath(row.token),
+  createdAt: row.createdAt.toISOString(),
+});
+
+export const createGetCalendarFeedTool = (env: Env) =>
+  createPrivateTool({
+    id: "GET_CALENDAR_FEED",
+    description:
+      "Get the secret URL path of the iCalendar feed of the current user's todos, which calendar apps can subscribe to. Anyone with the URL can read the feed",
+    inputSchema: z.object({}),
+    outputSchema: feedOutputSchema,
+    execute: async () => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const feed = await db.select().from(feedTokensTable)
+        .where(eq(feedTokensTable.userId, userId))
+        .limit(1);
+
+      return toFeed(feed[0] ?? await saveFeedToken(db, userId));
+    },
+  });
+
+export const createRotateCalendarFeedTool = (env: Env) =>
+  createPrivateTool({
+    id: "ROTATE_CALENDAR_FEED",
+    description:
+      "Replace the secret token of the calendar feed. The previous feed URL stops working",
+    inputSchema: z.object({}),
+    outputSchema: feedOutputSchema,
+    execute: async () => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      return toFeed(await saveFeedToken(db, userId));
+    },
+  });
+
+// Export all feed-related tools
+export const feedTools = [
+  createGetCalendarFeedTool,
+  createRotateCalendarFeedTool,
+];
@@ -5,18 +5,33 @@
  * export, making it easy to import all tools in main.ts while keeping
  * the domain separation.
  */
-import { todoTools } from "./todos.ts";
+import { todoTools } from "./todos/index.ts";
 import { userTools } from "./user.ts";
+import { tagTools } from "./tags.ts";
+import { listTools } from "./lists.ts";
 import { aiExecutorTools } from "./ai-executor.ts";
+import { feedTools } from "./feeds.ts";
+import { webhookTools } from "./webhooks.ts";
+import { subscriptionTools } from "./subscriptions.ts";
 
 // Export all tools from all domains
 export const tools = [
   ...todoTools,
   ...userTools,
+  ...tagTools,
+  ...listTools,
   ...aiExecutorTools,
+  ...feedTools,
+  ...webhookTools,
+  ...subscriptionTools,
 ];
 
 // Re-export domain-specific tools for direct access if needed
-export { todoTools } from "./todos.ts";
+export { todoTools } from "./todos/index.ts";
 export { userTools } from "./user.ts";
+export { tagTools } from "./tags.ts";
+export { listTools } from "./lists.ts";
 export { aiExecutorTools } from "./ai-executor.ts";
+export { feedTools } from "./feeds.ts";
+export { webhookTools } from "./webhooks.ts";
+export { subscriptionTools } from "./subscriptions.ts";
@@ -0,0 +1,318 @@
+/**
+ * List-related tools for grouping todos into named lists (projects).
+ *
+ * This file contains all tools related to list operations including:
+ * - Listing, creating and renaming lists
+ * - Archiving and unarchiving lists
+ * - Setting the workflow statuses of a list (see utils/todo-statuses.ts)
+ * - Deleting lists, either trashing their todos or moving them to the inbox
+ *
+ * Moving todos between lists is a todo operation, see todos/move.ts.
+ *
+ * Todos without a list are in the inbox, which is not a row of its own.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, count, eq, inArray, isNull } from "drizzle-orm";
+import type { Env } from "../main.ts";
+import { listsTable, todosTable, webhooksTable } from "../schema.ts";
+import { getDb } from "../db.ts";
+import { findOwnedList, getCurrentUserId } from "./utils/todo-helpers.ts";
+import {
+  diffTodo,
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  type TodoEvent,
+} from "./utils/todo-events.ts";
+import { listNameSchema, toTodo } from "./utils/todo-schemas.ts";
+import {
+  DEFAULT_WORKFLOW,
+  syncStatuses,
+  todoStatusSchema,
+  workflowSchema,
+} from "./utils/todo-statuses.ts";
+import { trashTodos } from "./utils/todo-trash.ts";
+import { nextVersion } from "./utils/todo-versions.ts";
+
+const listSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  archivedAt: z.string().nullable(),
+  statuses: z.array(todoStatusSchema)
+    .describe("Workflow of the list: the columns of its board, in order"),
+});
+
+const toList = (row: typeof listsTable.$inferSelect) => ({
+  id: row.id,
+  name: row.name,
+  archivedAt: row.archivedAt?.toISOString() ?? null,
+  statuses: row.statuses ?? DEFAULT_WORKFLOW,
+});
+
+const ownedList = (id: number, userId: string) =>
+  and(eq(listsTable.id, id), eq(listsTable.userId, userId));
+
+export const createListListsTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_LISTS",
+    description:
+      "List the lists of the current user with their workflow statuses and how many open todos each one has, plus the open todos and statuses of the inbox",
+    inputSchema: z.object({
+      includeArchived: z.boolean().default(false),
+    }),
+    outputSchema: z.object({
+      lists: z.array(listSchema.extend({ openTodos: z.number() })),
+      inbox: z.object({
+        openTodos: z.number(),
+        statuses: z.array(todoStatusSchema),
+      }),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const openTodos = await db.select({
+        listId: todosTable.listId,
+        total: count(),
+      })
+        .from(todosTable)
+        .where(and(
+          eq(todosTable.userId, userId),
+          eq(todosTable.completed, 0),
+          isNull(todosTable.deletedAt),
+        ))
+        .groupBy(todosTable.listId);
+
+      const openByList = new Map(
+        openTodos.map((row) => [row.listId, row.total]),
+      );
+
+      const lists = await db.select().from(listsTable).where(
+        and(
+          eq(listsTable.userId, userId),
+          context.includeArchived ? undefined : isNull(listsTable.archivedAt),
+        ),
+      ).orderBy(asc(listsTable.name));
+
+      return {
+        lists: lists.map((list) => ({
+          ...toList(list),
+          openTodos: openByList.get(list.id) ?? 0,
+        })),
+        inbox: {
+          openTodos: openByList.get(null) ?? 0,
+          statuses: DEFAULT_WORKFLOW,
+        },
+      };
+    },
+  });
+
+export const createCreateListTool = (env: Env) =>
+  createPrivateTool({
+    id: "CREATE_LIST",
+    description: "Create a list to group todos",
+    inputSchema: z.object({
+      name: listNameSchema,
+    }),
+    outputSchema: z.object({
+      list: listSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const list = await db.insert(listsTable).values({
+        name: context.name,
+        userId,
+      }).returning();
+
+      return {
+        list: toList(list[0]),
+      };
+    },
+  });
+
+export const createRenameListTool = (env: Env) =>
+  createPrivateTool({
+    id: "RENAME_LIST",
+    description: "Rename a list",
+    inputSchema: z.object({
+      id: z.number(),
+      name: listNameSchema,
+    }),
+    outputSchema: z.object({
+      list: listSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedList(db, context.id, userId);
+
+      const list = await db.update(listsTable)
+        .set({ name: context.name })
+        .where(ownedList(context.id, userId))
+        .returning();
+
+      return {
+        list: toList(list[0]),
+      };
+    },
+  });
+
+export const createArchiveListTool = (env: Env) =>
+  createPrivateTool({
+    id: "ARCHIVE_LIST",
+    description:
+      "Archive a list, or unarchive it with archived set to false. Archived lists keep their todos but no new todos can be added to them",
+    inputSchema: z.object({
+      id: z.number(),
+      archived: z.boolean().default(true),
+    }),
+    outputSchema: z.object({
+      list: listSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedList(db, context.id, userId);
+
+      const list = await db.update(listsTable)
+        .set({ archivedAt: context.archived ? new Date() : null })
+        .where(ownedList(context.id, userId))
+        .returning();
+
+      return {
+        list: toList(list[0]),
+      };
+    },
+  });
+
+export const createSetListStatusesTool = (env: Env) =>
+  createPrivateTool({
+    id: "SET_LIST_STATUSES",
+    description:
+      "Set the workflow of a list: its statuses, in the order of the columns of its board, each either open or done. There must be at least one of each. Todos keep their status when it remains, and are completed or reopened to match it; todos in a removed status go to the first status with their completion. The inbox always uses the default workflow (to do, doing, done)",
+    inputSchema: z.object({
+      id: z.number(),
+      statuses: workflowSchema,
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      list: listSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      await findOwnedList(db, context.id, userId);
+
+      const list = await db.update(listsTable)
+        .set({ statuses: context.statuses })
+        .where(ownedList(context.id, userId))
+        .returning();
+
+      const listTodos = and(
+        eq(todosTable.listId, context.id),
+        eq(todosTable.userId, userId),
+      );
+      const before = await db.select().from(todosTable).where(listTodos);
+      await syncStatuses(db, listTodos, context.statuses);
+
+      const after = before.length === 0 ? [] : await db.select()
+        .from(todosTable)
+        .where(inArray(todosTable.id, before.map((todo) => todo.id)));
+      const previous = new Map(before.map((todo) => [todo.id, toTodo(todo)]));
+      const events: TodoEvent[] = [];
+      for (const row of after) {
+        const diff = diffTodo(previous.get(row.id)!, toTodo(row));
+        if (!diff) continue;
+        const type = "completed" in diff.after ? "toggled" : "edited";
+        events.push({ todoId: row.id, type, ...diff });
+      }
+      await recordTodoEvents(
+        env,
+        db,
+        { actorId: userId, source },
+        events,
+      );
+
+      return {
+        list: toList(list[0]),
+      };
+    },
+  });
+
+export const createDeleteListTool = (env: Env) =>
+  createPrivateTool({
+    id: "DELETE_LIST",
+    description:
+      "Delete a list. Its todos are either moved to the inbox (inbox) or to the trash (delete). Webhooks creating todos in it create them in the inbox instead",
+    inputSchema: z.object({
+      id: z.number(),
+      todos: z.enum(["inbox", "delete"]).default("inbox"),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      deletedId: z.number(),
+      deletedTodoIds: z.array(z.number()),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      await findOwnedList(db, context.id, userId);
+
+      const listTodos = and(
+        eq(todosTable.listId, context.id),
+        eq(todosTable.userId, userId),
+      );
+      let deletedTodoIds: number[] = [];
+
+      if (context.todos === "delete") {
+        const todos = await db.select({
+          id: todosTable.id,
+          reminderTriggerId: todosTable.reminderTriggerId,
+        }).from(todosTable).where(listTodos);
+
+        deletedTodoIds = await trashTodos(
+          env,
+          db,
+          userId,
+          todos,
+          source,
+        );
+      }
+
+      // Trashed todos go to the inbox too, which is where they are restored
+      await syncStatuses(db, listTodos, DEFAULT_WORKFLOW);
+      await db.update(todosTable)
+        .set({ listId: null, version: nextVersion() })
+        .where(listTodos);
+      await db.update(webhooksTable).set({ listId: null }).where(
+        and(
+          eq(webhooksTable.listId, context.id),
+          eq(webhooksTable.userId, userId),
+        ),
+      );
+
+      await db.delete(listsTable).where(ownedList(context.id, userId));
+
+      return {
+        success: true,
+        deletedId: context.id,
+        deletedTodoIds,
+      };
+    },
+  });
+
+// Export all list-related tools
+export const listTools = [
+  createListListsTool,
+  createCreateListTool,
+  createRenameListTool,
+  createArchiveListTool,
+  createSetListStatusesTool,
+  createDeleteListTool,
+];
@@ -0,0 +1,281 @@
+/**
+ * Outbound webhook tools.
+ *
+ * This file contains the tools that manage the subscriptions to todo
+ * changes (delivered by `../subscriptions.ts`):
+ * - Registering, listing and deleting subscriptions
+ * - Listing the recent delivery attempts of a subscription
+ *
+ * ATTEMPT_WEBHOOK_DELIVERY, which attempts the delivery of an event, is
+ * only the step of the DELIVER_WEBHOOK_EVENT workflow (see
+ * `../workflows/webhooks.ts`) and is not exposed as a tool.
+ */
+import { createPrivateTool, createTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, count, desc, eq, inArray } from "drizzle-orm";
+import type { Env } from "../main.ts";
+import {
+  webhookAttemptsTable,
+  webhookEventsTable,
+  webhookEventStatuses,
+  webhookSubscriptionsTable,
+} from "../schema.ts";
+import { getDb } from "../db.ts";
+import {
+  generateSecret,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from "../signatures.ts";
+import {
+  attemptDelivery,
+  backoffDelay,
+  WEBHOOK_MAX_ATTEMPTS,
+  webhookEventNames,
+} from "../subscriptions.ts";
+import { type Db, getCurrentUserId } from "./utils/todo-helpers.ts";
+
+const MAX_SUBSCRIPTIONS = 10;
+
+const subscriptionSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  secret: z.string()
+    .describe(
+      `Key of the HMAC-SHA256 signature of '<timestamp>.<body>' of each delivery, sent as '${SIGNATURE_HEADER}: sha256=<hex digest>' with the Unix time in seconds as '${TIMESTAMP_HEADER}: <timestamp>'`,
+    ),
+  events: z.array(z.enum(webhookEventNames)),
+  createdAt: z.string(),
+});
+
+const attemptSchema = z.object({
+  id: z.number(),
+  eventId: z.number(),
+  eventType: z.string(),
+  eventStatus: z.enum(webhookEventStatuses),
+  responseStatus: z.number().nullable()
+    .describe("HTTP status of the response; null when there was none"),
+  error: z.string().nullable(),
+  attemptedAt: z.string(),
+});
+
+export const deliveryInputSchema = z.object({
+  eventId: z.number(),
+  token: z.string().describe("deliveryToken of the event"),
+});
+
+/**
+ * The output of an attempt is the input of the next one, so it carries the
+ * event and its token on.
+ */
+export const attemptOutputSchema = deliveryInputSchema.extend({
+  done: z.boolean().describe("Whether no more attempts will be made"),
+  status: z.enum(webhookEventStatuses).nullable()
+    .describe("Status of the event; null when it no longer exists"),
+});
+
+const toSubscription = (
+  row: typeof webhookSubscriptionsTable.$inferSelect,
+) => ({
+  id: row.id,
+  url: row.url,
+  secret: row.secret,
+  events: z.array(z.enum(webhookEventNames)).parse(row.events),
+  createdAt: row.createdAt.toISOString(),
+});
+
+/**
+ * Loads a subscription owned by `userId`, throwing when it does not exist.
+ */
+const findOwnedSubscription = async (db: Db, id: number, userId: string) => {
+  const subscription = await db.select().from(webhookSubscriptionsTable)
+    .where(and(
+      eq(webhookSubscriptionsTable.id, id),
+      eq(webhookSubscriptionsTable.userId, userId),
+    ))
+    .limit(1);
+
+  if (subscription.length === 0) {
+    throw new Error("Subscription not found");
+  }
+
+  return subscription[0];
+};
+
+export const createRegisterWebhookSubscriptionTool = (env: Env) =>
+  createPrivateTool({
+    id: "REGISTER_WEBHOOK_SUBSCRIPTION",
+    description:
+      `Subscribe a URL to changes of the todos the current user owns or is assigned, by anyone. Each change is POSTed to it as a JSON event, signed with the returned secret, and retried with backoff up to ${WEBHOOK_MAX_ATTEMPTS} times until the URL responds with a 2xx status`,
+    inputSchema: z.object({
+      url: z.string().url().max(2000)
+        .refine((url) => url.startsWith("https://"), "The URL must be HTTPS"),
+      events: z.array(z.enum(webhookEventNames)).min(1)
+        .default([...webhookEventNames])
+        .describe("Events to send; all of them by default"),
+    }),
+    outputSchema: z.object({ subscription: subscriptionSchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const existing = await db.select({ count: count() })
+        .from(webhookSubscriptionsTable)
+        .where(eq(webhookSubscriptionsTable.userId, userId));
+      if (existing[0].count >= MAX_SUBSCRIPTIONS) {
+        throw new Error(`At most ${MAX_SUBSCRIPTIONS} subscriptions`);
+      }
+
+      const subscription = await db.insert(webhookSubscriptionsTable).values({
+        userId,
+        url: context.url,
+        secret: generateSecret(32),
+        events: [...new Set(context.events)],
+        createdAt: new Date(),
+      }).returning();
+
+      return { subscription: toSubscription(subscription[0]) };
+    },
+  });
+
+export const createListWebhookSubscriptionsTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_WEBHOOK_SUBSCRIPTIONS",
+    description:
+      "List the URLs subscribed to changes of the todos the current user owns or is assigned",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ subscriptions: z.array(subscriptionSchema) }),
+    execute: async () => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const subscriptions = await db.select().from(webhookSubscriptionsTable)
+        .where(eq(webhookSubscriptionsTable.userId, userId))
+        .orderBy(asc(webhookSubscriptionsTable.id));
+
+      return { subscriptions: subscriptions.map(toSubscription) };
+    },
+  });
+
+export const createDeleteWebhookSubscriptionTool = (env: Env) =>
+  createPrivateTool({
+    id: "DELETE_WEBHOOK_SUBSCRIPTION",
+    description:
+      "Delete a subscription. Events not delivered yet are dropped",
+    inputSchema: z.object({ id: z.number() }),
+    outputSchema: z.object({ success: z.boolean(), deletedId: z.number() }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedSubscription(db, context.id, userId);
+
+      const events = db.select({ id: webhookEventsTable.id })
+        .from(webhookEventsTable)
+        .where(eq(webhookEventsTable.subscriptionId, context.id));
+      await db.delete(webhookAttemptsTable)
+        .where(inArray(webhookAttemptsTable.eventId, events));
+      await db.delete(webhookEventsTable)
+        .where(eq(webhookEventsTable.subscriptionId, context.id));
+      await db.delete(webhookSubscriptionsTable)
+        .where(eq(webhookSubscriptionsTable.id, context.id));
+
+      return { success: true, deletedId: context.id };
+    },
+  });
+
+export const createListWebhookAttemptsTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_WEBHOOK_ATTEMPTS",
+    description:
+      "List the recent delivery attempts of a subscription, newest first, with the event they sent, the HTTP status of the response or the error, and whether the event was eventually delivered",
+    inputSchema: z.object({
+      subscriptionId: z.number(),
+      limit: z.number().int().min(1).max(100).default(20),
+    }),
+    outputSchema: z.object({ attempts: z.array(attemptSchema) }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedSubscription(db, context.subscriptionId, userId);
+
+      const attempts = await db.select({
+        attempt: webhookAttemptsTable,
+        eventType: webhookEventsTable.type,
+        eventStatus: webhookEventsTable.status,
+      })
+        .from(webhookAttemptsTable)
+        .innerJoin(
+          webhookEventsTable,
+          eq(webhookEventsTable.id, webhookAttemptsTable.eventId),
+        )
+        .where(eq(webhookEventsTable.subscriptionId, context.subscriptionId))
+        .orderBy(desc(webhookAttemptsTable.id))
+        .limit(context.limit);
+
+      return {
+        attempts: attempts.map(({ attempt, eventType, eventStatus }) => ({
+          id: attempt.id,
+          eventId: attempt.eventId,
+          eventType,
+          eventStatus,
+          responseStatus: attempt.responseStatus,
+          error: attempt.error,
+          attemptedAt: attempt.attemptedAt.toISOString(),
+        })),
+      };
+    },
+  });
+
+/**
+ * Workflow steps run without the session of the user whose change started
+ * them, so the step is authenticated by the token of the event instead.
+ */
+export const createAttemptWebhookDeliveryTool = (env: Env) =>
+  createTool({
+    id: "ATTEMPT_WEBHOOK_DELIVERY",
+    description:
+      "Step of the DELIVER_WEBHOOK_EVENT workflow: waits for the backoff of a pending webhook event, then POSTs it once. Not meant to be called directly",
+    inputSchema: deliveryInputSchema,
+    outputSchema: attemptOutputSchema,
+    execute: async ({ context }) => {
+      const db = await getDb(env);
+
+      const rows = await db.select({
+        event: webhookEventsTable,
+        subscription: webhookSubscriptionsTable,
+      })
+        .from(webhookEventsTable)
+        .innerJoin(
+          webhookSubscriptionsTable,
+          eq(webhookSubscriptionsTable.id, webhookEventsTable.subscriptionId),
+        )
+        .where(and(
+          eq(webhookEventsTable.id, context.eventId),
+          eq(webhookEventsTable.deliveryToken, context.token),
+        ))
+        .limit(1);
+      if (rows.length === 0) {
+        return { ...context, done: true, status: null };
+      }
+
+      const { event, subscription } = rows[0];
+      if (event.status !== "pending") {
+        return { ...context, done: true, status: event.status };
+      }
+
+      // Workflow steps run in a durable object, which can wait this long
+      await new Promise((resolve) =>
+        setTimeout(resolve, backoffDelay(event.attempts))
+      );
+      const { status } = await attemptDelivery(db, event, subscription);
+
+      return { ...context, done: status !== "pending", status };
+    },
+  });
+
+// Export all subscription-related tools
+export const subscriptionTools = [
+  createRegisterWebhookSubscriptionTool,
+  createListWebhookSubscriptionsTool,
+  createDeleteWebhookSubscriptionTool,
+  createListWebhookAttemptsTool,
+];
@@ -0,0 +1,208 @@
+/**
+ * Tag-related tools for labelling todos.
+ *
+ * This file contains all tools related to tag operations including:
+ * - Adding tags to a todo, creating the tags that do not exist yet
+ * - Removing tags from a todo
+ * - Listing tags with how many todos use them
+ *
+ * Tags belong to the authenticated user, like todos.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, count, eq, inArray, isNull } from "drizzle-orm";
+import type { Env } from "../main.ts";
+import { tagsTable, todosTable, todoTagsTable } from "../schema.ts";
+import { getDb } from "../db.ts";
+import {
+  type Db,
+  findOwnedTodo,
+  getCurrentUserId,
+  getTodoTagNames,
+} from "./utils/todo-helpers.ts";
+import {
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  type TodoEventSource,
+} from "./utils/todo-events.ts";
+import { tagNameSchema } from "./utils/todo-schemas.ts";
+
+const todoTagsInputSchema = z.object({
+  todoId: z.number(),
+  tags: z.array(tagNameSchema).min(1),
+  executionId: executionIdSchema,
+});
+
+const todoTagsOutputSchema = z.object({
+  todoId: z.number(),
+  tags: z.array(z.string()),
+});
+
+/**
+ * Records a change of the tags of a todo in its history.
+ */
+const recordTagsChange = async (
+  env: Env,
+  db: Db,
+  userId: string,
+  { todoId, source }: { todoId: number; source: TodoEventSource },
+  before: string[],
+  after: string[],
+) => {
+  if (before.join() === after.join()) return;
+
+  await recordTodoEvents(env, db, { actorId: userId, source }, [
+    {
+      todoId,
+      type: "edited",
+      before: { tags: before },
+      after: { tags: after },
+    },
+  ]);
+};
+
+export const createAddTodoTagsTool = (env: Env) =>
+  createPrivateTool({
+    id: "ADD_TODO_TAGS",
+    description:
+      "Add tags to a todo. Tags that do not exist yet are created",
+    inputSchema: todoTagsInputSchema,
+    outputSchema: todoTagsOutputSchema,
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      await findOwnedTodo(db, context.todoId, userId);
+      const previousTags = await getTodoTagNames(db, userId, [context.todoId]);
+
+      const names = [...new Set(context.tags)];
+
+      await db.insert(tagsTable)
+        .values(names.map((name) => ({ userId, name })))
+        .onConflictDoNothing();
+
+      const tags = await db.select({ id: tagsTable.id })
+        .from(tagsTable)
+        .where(
+          and(eq(tagsTable.userId, userId), inArray(tagsTable.name, names)),
+        );
+
+      await db.insert(todoTagsTable)
+        .values(tags.map((tag) => ({ todoId: context.todoId, tagId: tag.id })))
+        .onConflictDoNothing();
+
+      const tagNames = await getTodoTagNames(db, userId, [context.todoId]);
+      await recordTagsChange(
+        env,
+        db,
+        userId,
+        { todoId: context.todoId, source },
+        previousTags.get(context.todoId) ?? [],
+        tagNames.get(context.todoId) ?? [],
+      );
+
+      return {
+        todoId: context.todoId,
+        tags: tagNames.get(context.todoId) ?? [],
+      };
+    },
+  });
+
+export const createRemoveTodoTagsTool = (env: Env) =>
+  createPrivateTool({
+    id: "REMOVE_TODO_TAGS",
+    description:
+      "Remove tags from a todo. The tags themselves are kept for other todos",
+    inputSchema: todoTagsInputSchema,
+    outputSchema: todoTagsOutputSchema,
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      await findOwnedTodo(db, context.todoId, userId);
+      const previousTags = await getTodoTagNames(db, userId, [context.todoId]);
+
+      const tags = await db.select({ id: tagsTable.id })
+        .from(tagsTable)
+        .where(
+          and(
+            eq(tagsTable.userId, userId),
+            inArray(tagsTable.name, context.tags),
+          ),
+        );
+
+      if (tags.length > 0) {
+        await db.delete(todoTagsTable).where(
+          and(
+            eq(todoTagsTable.todoId, context.todoId),
+            inArray(todoTagsTable.tagId, tags.map((tag) => tag.id)),
+          ),
+        );
+      }
+
+      const tagNames = await getTodoTagNames(db, userId, [context.todoId]);
+      await recordTagsChange(
+        env,
+        db,
+        userId,
+        { todoId: context.todoId, source },
+        previousTags.get(context.todoId) ?? [],
+        tagNames.get(context.todoId) ?? [],
+      );
+
+      return {
+        todoId: context.todoId,
+        tags: tagNames.get(context.todoId) ?? [],
+      };
+    },
+  });
+
+export const createListTagsTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_TAGS",
+    description:
+      "List the tags of the current user with the number of todos using each one",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      tags: z.array(
+        z.object({
+          id: z.number(),
+          name: z.string(),
+          usage: z.number(),
+        }),
+      ),
+    }),
+    execute: async () => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const tags = await db.select({
+        id: tagsTable.id,
+        name: tagsTable.name,
+        usage: count(todosTable.id),
+      })
+        .from(tagsTable)
+        .leftJoin(todoTagsTable, eq(todoTagsTable.tagId, tagsTable.id))
+        // Todos in the trash do not count
+        .leftJoin(
+          todosTable,
+          and(
+            eq(todosTable.id, todoTagsTable.todoId),
+            isNull(todosTable.deletedAt),
+          ),
+        )
+        .where(eq(tagsTable.userId, userId))
+        .groupBy(tagsTable.id)
+        .orderBy(asc(tagsTable.name));
+
+      return { tags };
+    },
+  });
+
+// Export all tag-related tools
+export const tagTools = [
+  createAddTodoTagsTool,
+  createRemoveTodoTagsTool,
+  createListTagsTool,
+];
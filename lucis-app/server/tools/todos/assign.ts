@@ -0,0 +1,74 @@
+/**
+ * Assigning todos to members of the team (see `../../team.ts`). The
+ * assignee sees the todo next to their own and can work on it, while
+ * deleting, moving and reassigning it stay with its owner.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import { listTeamMembers } from "../../team.ts";
+import {
+  findOwnedTodo,
+  getCurrentUserId,
+  ownedTodo,
+} from "../utils/todo-helpers.ts";
+import { TodoRequestError } from "../utils/todo-errors.ts";
+import {
+  diffTodo,
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+} from "../utils/todo-events.ts";
+import { todoSchema, toTodo } from "../utils/todo-schemas.ts";
+import { nextVersion } from "../utils/todo-versions.ts";
+
+export const createAssignTodoTool = (env: Env) =>
+  createPrivateTool({
+    id: "ASSIGN_TODO",
+    description:
+      "Assign a todo to a member of the team (see LIST_TEAM_MEMBERS for their ids), or unassign it with assigneeId null. The assignee can then list, edit, complete, comment on and attach files to it. Only the owner of a todo can assign it",
+    inputSchema: z.object({
+      id: z.number(),
+      assigneeId: z.string().min(1).nullable(),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({ todo: todoSchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      const currentTodo = await findOwnedTodo(db, context.id, userId);
+
+      const { assigneeId } = context;
+      if (assigneeId !== null && assigneeId !== userId) {
+        const members = await listTeamMembers(env);
+        if (!members.some((member) => member.id === assigneeId)) {
+          throw new TodoRequestError("Assignee is not a member of the team");
+        }
+      }
+
+      const updated = await db.update(todosTable)
+        .set({ assigneeId, version: nextVersion() })
+        .where(ownedTodo(context.id, userId))
+        .returning();
+      const todo = toTodo(updated[0]);
+
+      const diff = diffTodo(toTodo(currentTodo), todo);
+      if (diff) {
+        await recordTodoEvents(
+          env,
+          db,
+          { actorId: userId, source },
+          [{ todoId: todo.id, type: "edited", ...diff }],
+        );
+      }
+
+      return { todo };
+    },
+  });
+
+export const assignTodoTools = [
+  createAssignTodoTool,
+];
@@ -0,0 +1,280 @@
+/**
+ * Files attached to todos, stored in the workspace file system (see
+ * `../utils/todo-attachments.ts`).
+ *
+ * Uploading takes three steps: UPLOAD_ATTACHMENT returns a URL, the file
+ * is PUT to it, and COMPLETE_ATTACHMENT_UPLOAD makes it visible.
+ *
+ * Anyone who can see a todo can attach files to it and download them; an
+ * attachment can be deleted by whoever uploaded it or by the todo's owner.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, count, eq } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todoAttachmentsTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  ATTACHMENT_MAX_BYTES,
+  attachmentContentTypes,
+  attachmentPath,
+  ATTACHMENTS_PER_TODO,
+  deleteAttachments,
+  purgeStaleUploads,
+  readFileMetadata,
+  UPLOAD_URL_TTL,
+} from "../utils/todo-attachments.ts";
+import {
+  type Db,
+  findVisibleTodo,
+  getCurrentUserId,
+} from "../utils/todo-helpers.ts";
+import { TodoNotFoundError, TodoRequestError } from "../utils/todo-errors.ts";
+
+const attachmentSchema = z.object({
+  id: z.number(),
+  todoId: z.number(),
+  filename: z.string(),
+  contentType: z.string(),
+  size: z.number().describe("Size in bytes"),
+  createdAt: z.string(),
+});
+
+const toAttachment = (row: typeof todoAttachmentsTable.$inferSelect) => ({
+  id: row.id,
+  todoId: row.todoId,
+  filename: row.filename,
+  contentType: row.contentType,
+  size: row.size,
+  createdAt: row.createdAt.toISOString(),
+});
+
+/**
+ * Loads an attachment of a todo `userId` can see, with that todo, throwing
+ * when it does not exist.
+ */
+const findVisibleAttachment = async (db: Db, id: number, userId: string) => {
+  const attachment = await db.select().from(todoAttachmentsTable)
+    .where(eq(todoAttachmentsTable.id, id))
+    .limit(1);
+
+  if (attachment.length === 0) {
+    throw new TodoNotFoundError("Attachment not found");
+  }
+  const todo = await findVisibleTodo(db, attachment[0].todoId, userId);
+
+  return { attachment: attachment[0], todo };
+};
+
+export const createUploadAttachmentTool = (env: Env) =>
+  createPrivateTool({
+    id: "UPLOAD_ATTACHMENT",
+    description:
+      `Start attaching a file to a todo. Returns the attachment and a URL to PUT the bytes of the file to, with the same Content-Type, within ${UPLOAD_URL_TTL} seconds; then call COMPLETE_ATTACHMENT_UPLOAD. Files can be up to ${ATTACHMENT_MAX_BYTES} bytes, and a todo can have up to ${ATTACHMENTS_PER_TODO} of them`,
+    inputSchema: z.object({
+      todoId: z.number(),
+      filename: z.string().trim().min(1).max(200),
+      contentType: z.enum(attachmentContentTypes),
+      size: z.number().int().min(1).max(ATTACHMENT_MAX_BYTES)
+        .describe("Size of the file in bytes"),
+    }),
+    outputSchema: z.object({
+      attachment: attachmentSchema,
+      uploadUrl: z.string(),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findVisibleTodo(db, context.todoId, userId);
+      await purgeStaleUploads(env, db, userId);
+
+      const existing = await db.select({ count: count() })
+        .from(todoAttachmentsTable)
+        .where(eq(todoAttachmentsTable.todoId, context.todoId));
+      if (existing[0].count >= ATTACHMENTS_PER_TODO) {
+        throw new TodoRequestError(
+          `A todo can have at most ${ATTACHMENTS_PER_TODO} attachments`,
+        );
+      }
+
+      const path = attachmentPath(userId, context.todoId, context.filename);
+      const { url } = await env.DECO_CHAT_WORKSPACE_API.FS_WRITE({
+        path,
+        contentType: context.contentType,
+        expiresIn: UPLOAD_URL_TTL,
+        metadata: { todoId: context.todoId, userId },
+      });
+
+      const attachment = await db.insert(todoAttachmentsTable).values({
+        todoId: context.todoId,
+        userId,
+        filename: context.filename,
+        contentType: context.contentType,
+        size: context.size,
+        path,
+        status: "pending",
+        createdAt: new Date(),
+      }).returning();
+
+      return { attachment: toAttachment(attachment[0]), uploadUrl: url };
+    },
+  });
+
+export const createCompleteAttachmentUploadTool = (env: Env) =>
+  createPrivateTool({
+    id: "COMPLETE_ATTACHMENT_UPLOAD",
+    description:
+      "Finish attaching a file once it was PUT to the URL from UPLOAD_ATTACHMENT, by the user who started the upload. Fails, and drops the attachment, when the uploaded file is missing, too large, not of the declared type or reported without its type or size",
+    inputSchema: z.object({ id: z.number() }),
+    outputSchema: z.object({ attachment: attachmentSchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const { attachment } = await findVisibleAttachment(
+        db,
+        context.id,
+        userId,
+      );
+      if (attachment.userId !== userId) {
+        throw new TodoNotFoundError("Attachment not found");
+      }
+      if (attachment.status === "ready") {
+        return { attachment: toAttachment(attachment) };
+      }
+
+      let problem: string | null = null;
+      let size = attachment.size;
+      try {
+        const file = await readFileMetadata(env, attachment.path);
+        if (!file) {
+          problem = "The type and size of the file could not be checked";
+        } else if (file.contentLength > ATTACHMENT_MAX_BYTES) {
+          problem = `Files can be up to ${ATTACHMENT_MAX_BYTES} bytes`;
+        } else if (
+          file.contentType.split(";")[0].trim() !== attachment.contentType
+        ) {
+          problem = `The file was uploaded as ${file.contentType}`;
+        } else {
+          size = file.contentLength;
+        }
+      } catch {
+        problem = "The file was not uploaded";
+      }
+
+      if (problem) {
+        await deleteAttachments(
+          env,
+          db,
+          eq(todoAttachmentsTable.id, attachment.id),
+        );
+        throw new TodoRequestError(problem);
+      }
+
+      const completed = await db.update(todoAttachmentsTable)
+        .set({ status: "ready", size })
+        .where(eq(todoAttachmentsTable.id, attachment.id))
+        .returning();
+
+      return { attachment: toAttachment(completed[0]) };
+    },
+  });
+
+export const createListAttachmentsTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_ATTACHMENTS",
+    description: "List the files attached to a todo, oldest first",
+    inputSchema: z.object({ todoId: z.number() }),
+    outputSchema: z.object({ attachments: z.array(attachmentSchema) }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findVisibleTodo(db, context.todoId, userId);
+
+      const attachments = await db.select().from(todoAttachmentsTable)
+        .where(and(
+          eq(todoAttachmentsTable.todoId, context.todoId),
+          eq(todoAttachmentsTable.status, "ready"),
+        ))
+        .orderBy(asc(todoAttachmentsTable.id));
+
+      return { attachments: attachments.map(toAttachment) };
+    },
+  });
+
+export const createDownloadAttachmentTool = (env: Env) =>
+  createPrivateTool({
+    id: "DOWNLOAD_ATTACHMENT",
+    description:
+      "Get a temporary URL to download an attached file from, valid for expiresIn seconds",
+    inputSchema: z.object({
+      id: z.number(),
+      expiresIn: z.number().int().min(10).max(24 * 60 * 60).default(60),
+    }),
+    outputSchema: z.object({
+      url: z.string(),
+      filename: z.string(),
+      contentType: z.string(),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const { attachment } = await findVisibleAttachment(
+        db,
+        context.id,
+        userId,
+      );
+      if (attachment.status !== "ready") {
+        throw new TodoNotFoundError("Attachment not found");
+      }
+
+      const { url } = await env.DECO_CHAT_WORKSPACE_API.FS_READ({
+        path: attachment.path,
+        expiresIn: context.expiresIn,
+      });
+
+      return {
+        url,
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+      };
+    },
+  });
+
+export const createDeleteAttachmentTool = (env: Env) =>
+  createPrivateTool({
+    id: "DELETE_ATTACHMENT",
+    description:
+      "Delete an attached file. Only its uploader and the owner of the todo can",
+    inputSchema: z.object({ id: z.number() }),
+    outputSchema: z.object({ success: z.boolean(), deletedId: z.number() }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const { attachment, todo } = await findVisibleAttachment(
+        db,
+        context.id,
+        userId,
+      );
+      if (attachment.userId !== userId && todo.userId !== userId) {
+        throw new TodoRequestError(
+          "Only the uploader or the owner of the todo can delete an attachment",
+        );
+      }
+
+      await deleteAttachments(
+        env,
+        db,
+        eq(todoAttachmentsTable.id, context.id),
+      );
+
+      return { success: true, deletedId: context.id };
+    },
+  });
+
+export const attachmentTodoTools = [
+  createUploadAttachmentTool,
+  createCompleteAttachmentUploadTool,
+  createListAttachmentsTool,
+  createDownloadAttachmentTool,
+  createDeleteAttachmentTool,
+];
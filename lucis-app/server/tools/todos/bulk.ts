@@ -0,0 +1,267 @@
+/**
+ * Applying one action to many todos at once.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, inArray, isNull } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getBatchDb, getDb } from "../../db.ts";
+import {
+  accessibleTodos,
+  assertWritableList,
+  findDescendants,
+  getCurrentUserId,
+  moveTodosToList,
+  valueById,
+} from "../utils/todo-helpers.ts";
+import {
+  diffTodo,
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  type TodoEvent,
+  todoValues,
+} from "../utils/todo-events.ts";
+import { trashTodos } from "../utils/todo-trash.ts";
+import {
+  blockedMessage,
+  findOpenBlockers,
+} from "../utils/todo-dependencies.ts";
+import { findWorkflows, statusFor } from "../utils/todo-statuses.ts";
+import { nextVersion } from "../utils/todo-versions.ts";
+import { todoPrioritySchema, toTodo } from "../utils/todo-schemas.ts";
+import { nextOccurrenceStatements, scheduleNextReminders } from "./update.ts";
+
+export const BULK_MAX_TODOS = 100;
+
+const bulkActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("complete") }),
+  z.object({ type: z.literal("uncomplete") }),
+  z.object({ type: z.literal("delete") }),
+  z.object({ type: z.literal("move"), listId: z.number().nullable() }),
+  z.object({ type: z.literal("setPriority"), priority: todoPrioritySchema }),
+]);
+
+type TodoRow = typeof todosTable.$inferSelect;
+
+/**
+ * The "edited" or "toggled" events of todos whose rows changed from
+ * `before` to `after`. Rows of `after` missing from `before`, such as the
+ * subtasks moved along with todos, are left out.
+ */
+const changeEvents = (
+  type: "edited" | "toggled",
+  before: TodoRow[],
+  after: TodoRow[],
+) => {
+  const previous = new Map(before.map((todo) => [todo.id, toTodo(todo)]));
+  const events: TodoEvent[] = [];
+  for (const row of after) {
+    if (!previous.has(row.id)) continue;
+    const diff = diffTodo(previous.get(row.id)!, toTodo(row));
+    if (diff) events.push({ todoId: row.id, type, ...diff });
+  }
+  return events;
+};
+
+export const createBulkUpdateTodosTool = (env: Env) =>
+  createPrivateTool({
+    id: "BULK_UPDATE_TODOS",
+    description:
+      `Apply one action to up to ${BULK_MAX_TODOS} todos at once: complete, uncomplete, delete (moves them and their subtasks to the trash), move (to a list, or the inbox with listId null) or setPriority. Prefer it over calling TOGGLE_TODO, DELETE_TODO, MOVE_TODOS or UPDATE_TODO once per todo. Returns whether the action succeeded for each id; todos that are not found fail without affecting the others, as do todos the user is assigned to but does not own when deleting or moving, and blocked todos when completing. The action is applied to all the other todos or, when it fails, to none. A warning tells about what followed from it and failed, such as the reminder of the next occurrence of a completed recurring todo`,
+    inputSchema: z.object({
+      ids: z.array(z.number()).min(1).max(BULK_MAX_TODOS),
+      action: bulkActionSchema,
+      timezoneOffset: z.number().int().min(-840).max(720).optional()
+        .describe(
+          "Client timezone offset in minutes, used for the next occurrences of completed recurring todos; defaults to UTC",
+        ),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      results: z.array(z.object({
+        id: z.number(),
+        success: z.boolean(),
+        error: z.string().optional(),
+        warning: z.string().optional(),
+      })),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      const { action } = context;
+      const ids = [...new Set(context.ids)];
+      const eventContext = { actorId: userId, source };
+
+      // The todos are loaded in one query, and what each action needs is
+      // read before it writes. Its changes are then made in one batch (see
+      // `getBatchDb`), which applies to all of the todos or none
+      const todos = await db.select().from(todosTable).where(and(
+        inArray(todosTable.id, ids),
+        accessibleTodos(userId),
+        isNull(todosTable.deletedAt),
+      ));
+      const foundIds = todos.map((todo) => todo.id);
+      const errors = new Map<number, string>(
+        ids.filter((id) => !foundIds.includes(id))
+          .map((id) => [id, "Todo not found"]),
+      );
+      const warnings = new Map<number, string>();
+
+      // Assignees can change todos, but only owners delete and move them
+      const ownedTodos = (action: string) => {
+        const owned = todos.filter((todo) => todo.userId === userId);
+        for (const todo of todos) {
+          if (todo.userId !== userId) {
+            errors.set(todo.id, `Only the owner of a todo can ${action} it`);
+          }
+        }
+        return owned;
+      };
+
+      if (todos.length > 0) {
+        switch (action.type) {
+          case "complete":
+          case "uncomplete": {
+            const completed = action.type === "complete" ? 1 : 0;
+            // Blocked todos are not completed, as with TOGGLE_TODO
+            const openBlockers = await findOpenBlockers(
+              db,
+              completed ? foundIds : [],
+            );
+            openBlockers.forEach((blockers, id) =>
+              errors.set(id, blockedMessage(blockers))
+            );
+            const changing = todos.filter((todo) =>
+              todo.completed !== completed && !openBlockers.has(todo.id)
+            );
+            if (changing.length === 0) break;
+
+            // Each todo goes to the first done (or open) status of its list
+            const workflows = await findWorkflows(
+              db,
+              changing.map((todo) => todo.listId),
+            );
+            const statuses = new Map(changing.map((todo) => [
+              todo.id,
+              statusFor(workflows.get(todo.listId)!, completed === 1),
+            ]));
+
+            // Completed recurring todos repeat, as with TOGGLE_TODO
+            const recurring = completed
+              ? changing.filter((todo) => todo.recurrence)
+              : [];
+            const batchDb = getBatchDb(env);
+            const next = recurring.length === 0
+              ? null
+              : await nextOccurrenceStatements(
+                db,
+                batchDb,
+                recurring,
+                context.timezoneOffset ?? 0,
+              );
+            const [updated, inserted] = await batchDb.batch([
+              batchDb.update(todosTable)
+                .set({
+                  completed,
+                  status: valueById(statuses),
+                  version: nextVersion(),
+                })
+                .where(inArray(todosTable.id, [...statuses.keys()]))
+                .returning(),
+              ...next?.statements ?? [],
+            ]);
+            const events = changeEvents("toggled", changing, updated);
+
+            let nextById = next?.nextById(inserted as TodoRow[]) ??
+              new Map<number, TodoRow>();
+            try {
+              nextById = await scheduleNextReminders(env, db, nextById);
+            } catch (error) {
+              for (const [id, occurrence] of nextById) {
+                if (!occurrence.remindAt) continue;
+                warnings.set(
+                  id,
+                  `Its next occurrence was created without a reminder: ${
+                    (error as Error).message
+                  }`,
+                );
+              }
+            }
+            for (const occurrence of nextById.values()) {
+              events.push({
+                todoId: occurrence.id,
+                type: "created",
+                after: todoValues(toTodo(occurrence)),
+              });
+            }
+
+            await recordTodoEvents(env, db, eventContext, events);
+            break;
+          }
+          case "delete": {
+            const owned = ownedTodos("delete");
+            const descendants = await findDescendants(
+              db,
+              owned.map((todo) => todo.id),
+              userId,
+            );
+            await trashTodos(
+              env,
+              db,
+              userId,
+              [...owned, ...descendants],
+              source,
+            );
+            break;
+          }
+          case "move": {
+            const owned = ownedTodos("move");
+            if (owned.length === 0) break;
+            await assertWritableList(db, userId, action.listId);
+            const moved = await moveTodosToList(
+              env,
+              db,
+              userId,
+              owned,
+              action.listId,
+            );
+            await recordTodoEvents(
+              env,
+              db,
+              eventContext,
+              changeEvents("edited", owned, moved),
+            );
+            break;
+          }
+          case "setPriority": {
+            const updated = await db.update(todosTable)
+              .set({ priority: action.priority, version: nextVersion() })
+              .where(inArray(todosTable.id, foundIds))
+              .returning();
+            await recordTodoEvents(
+              env,
+              db,
+              eventContext,
+              changeEvents("edited", todos, updated),
+            );
+            break;
+          }
+        }
+      }
+
+      return {
+        results: ids.map((id) =>
+          errors.has(id)
+            ? { id, success: false, error: errors.get(id) }
+            : { id, success: true, warning: warnings.get(id) }
+        ),
+      };
+    },
+  });
+
+export const bulkTodoTools = [
+  createBulkUpdateTodosTool,
+];
@@ -0,0 +1,170 @@
+/**
+ * The comment thread of a todo: notes in Markdown that may `@mention`
+ * members of the team (see `../../team.ts`). Anyone who can see a todo can
+ * read and add to its thread; only the author of a comment can edit or
+ * delete it.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, eq } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todoCommentsTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import { findMentions } from "../../team.ts";
+import {
+  type Db,
+  findVisibleTodo,
+  getCurrentUser,
+  getCurrentUserId,
+} from "../utils/todo-helpers.ts";
+import { TodoNotFoundError } from "../utils/todo-errors.ts";
+
+const commentBodySchema = z.string().trim().min(1).max(5000)
+  .describe(
+    "Markdown; @handle mentions a team member (see LIST_TEAM_MEMBERS)",
+  );
+
+const commentSchema = z.object({
+  id: z.number(),
+  todoId: z.number(),
+  author: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+    avatar: z.string().nullable(),
+  }),
+  body: z.string(),
+  mentions: z.array(z.object({ userId: z.string(), handle: z.string() })),
+  createdAt: z.string(),
+  editedAt: z.string().nullable(),
+});
+
+const toComment = (row: typeof todoCommentsTable.$inferSelect) => ({
+  id: row.id,
+  todoId: row.todoId,
+  author: { id: row.userId, name: row.authorName, avatar: row.authorAvatar },
+  body: row.body,
+  mentions: row.mentions,
+  createdAt: row.createdAt.toISOString(),
+  editedAt: row.editedAt?.toISOString() ?? null,
+});
+
+/**
+ * Loads a comment written by `userId` on a todo they can see, throwing when
+ * it does not exist.
+ */
+const findOwnComment = async (db: Db, id: number, userId: string) => {
+  const comment = await db.select().from(todoCommentsTable).where(
+    and(eq(todoCommentsTable.id, id), eq(todoCommentsTable.userId, userId)),
+  ).limit(1);
+
+  if (comment.length === 0) {
+    throw new TodoNotFoundError("Comment not found");
+  }
+  await findVisibleTodo(db, comment[0].todoId, userId);
+
+  return comment[0];
+};
+
+export const createAddCommentTool = (env: Env) =>
+  createPrivateTool({
+    id: "ADD_COMMENT",
+    description:
+      "Add a comment to the thread of a todo, as the current user. The body is Markdown; @handles of team members become mentions",
+    inputSchema: z.object({
+      todoId: z.number(),
+      body: commentBodySchema,
+    }),
+    outputSchema: z.object({ comment: commentSchema }),
+    execute: async ({ context }) => {
+      const user = getCurrentUser(env);
+      const db = await getDb(env);
+      await findVisibleTodo(db, context.todoId, user.id);
+
+      const comment = await db.insert(todoCommentsTable).values({
+        todoId: context.todoId,
+        userId: user.id,
+        authorName: user.user_metadata.full_name ?? null,
+        authorAvatar: user.user_metadata.avatar_url ?? null,
+        body: context.body,
+        mentions: await findMentions(env, context.body),
+        createdAt: new Date(),
+      }).returning();
+
+      return { comment: toComment(comment[0]) };
+    },
+  });
+
+export const createListCommentsTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_COMMENTS",
+    description: "List the comments on a todo, oldest first",
+    inputSchema: z.object({ todoId: z.number() }),
+    outputSchema: z.object({ comments: z.array(commentSchema) }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findVisibleTodo(db, context.todoId, userId);
+
+      const comments = await db.select().from(todoCommentsTable)
+        .where(eq(todoCommentsTable.todoId, context.todoId))
+        .orderBy(asc(todoCommentsTable.id));
+
+      return { comments: comments.map(toComment) };
+    },
+  });
+
+export const createEditCommentTool = (env: Env) =>
+  createPrivateTool({
+    id: "EDIT_COMMENT",
+    description:
+      "Replace the body of a comment written by the current user. Its mentions are found again in the new body",
+    inputSchema: z.object({
+      id: z.number(),
+      body: commentBodySchema,
+    }),
+    outputSchema: z.object({ comment: commentSchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const existing = await findOwnComment(db, context.id, userId);
+      if (existing.body === context.body) {
+        return { comment: toComment(existing) };
+      }
+
+      const comment = await db.update(todoCommentsTable)
+        .set({
+          body: context.body,
+          mentions: await findMentions(env, context.body),
+          editedAt: new Date(),
+        })
+        .where(eq(todoCommentsTable.id, context.id))
+        .returning();
+
+      return { comment: toComment(comment[0]) };
+    },
+  });
+
+export const createDeleteCommentTool = (env: Env) =>
+  createPrivateTool({
+    id: "DELETE_COMMENT",
+    description: "Delete a comment written by the current user",
+    inputSchema: z.object({ id: z.number() }),
+    outputSchema: z.object({ success: z.boolean(), deletedId: z.number() }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnComment(db, context.id, userId);
+
+      await db.delete(todoCommentsTable)
+        .where(eq(todoCommentsTable.id, context.id));
+
+      return { success: true, deletedId: context.id };
+    },
+  });
+
+export const commentTodoTools = [
+  createAddCommentTool,
+  createListCommentsTool,
+  createEditCommentTool,
+  createDeleteCommentTool,
+];
@@ -0,0 +1,194 @@
+/**
+ * Create operations for todos, either from explicit fields or with AI.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import { eq } from "drizzle-orm";
+import {
+  assertValidParent,
+  assertWritableList,
+  getCurrentUserId,
+  nextPosition,
+} from "../utils/todo-helpers.ts";
+import {
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  todoValues,
+} from "../utils/todo-events.ts";
+import { scheduleReminder } from "../utils/todo-reminders.ts";
+import { findWorkflow, statusFor } from "../utils/todo-statuses.ts";
+import {
+  parseTodoDate,
+  todoFieldsSchema,
+  todoSchema,
+  toTodo,
+} from "../utils/todo-schemas.ts";
+import { nextVersion } from "../utils/todo-versions.ts";
+
+export const createCreateTodoTool = (env: Env) =>
+  createPrivateTool({
+    id: "CREATE_TODO",
+    description:
+      "Create a todo with the given title, without calling AI. Pass listId to add it to a list instead of the inbox, or parentId to create a subtask (in the list of its parent). A reminder is scheduled when remindAt is in the future. Set recurrence to make it repeat",
+    inputSchema: todoFieldsSchema.partial({
+      completed: true,
+      dueAt: true,
+      remindAt: true,
+      parentId: true,
+      priority: true,
+      recurrence: true,
+    }).extend({
+      listId: z.number().int().nullable().optional()
+        .describe("List to add the todo to; null or omitted means the inbox"),
+      executionId: executionIdSchema,
+    }).strict(),
+    outputSchema: z.object({
+      todo: todoSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+
+      // Subtasks always live in the list of their parent
+      const listId = context.parentId
+        ? (await assertValidParent(db, userId, context.parentId)).listId
+        : context.listId ?? null;
+      await assertWritableList(db, userId, listId);
+      const workflow = await findWorkflow(db, listId);
+
+      const inserted = await db.insert(todosTable).values({
+        title: context.title,
+        completed: context.completed ? 1 : 0,
+        status: statusFor(workflow, context.completed ?? false),
+        dueAt: parseTodoDate(context.dueAt),
+        remindAt: parseTodoDate(context.remindAt),
+        parentId: context.parentId ?? null,
+        listId,
+        priority: context.priority,
+        recurrence: context.recurrence,
+        position: await nextPosition(db, userId, listId, context.parentId),
+        userId,
+      }).returning();
+      let todo = inserted[0];
+
+      // The trigger of the reminder needs the id of the todo, so the todo
+      // is deleted again when its reminder cannot be scheduled
+      let reminderTriggerId: string | null;
+      try {
+        reminderTriggerId = await scheduleReminder(env, todo);
+      } catch (error) {
+        await db.delete(todosTable).where(eq(todosTable.id, todo.id));
+        throw error;
+      }
+      if (reminderTriggerId) {
+        const scheduled = await db.update(todosTable)
+          .set({ reminderTriggerId, version: nextVersion() })
+          .where(eq(todosTable.id, todo.id))
+          .returning();
+        todo = scheduled[0];
+      }
+
+      await recordTodoEvents(
+        env,
+        db,
+        { actorId: userId, source },
+        [
+          {
+            todoId: todo.id,
+            type: "created",
+            after: todoValues(toTodo(todo)),
+          },
+        ],
+      );
+
+      return {
+        todo: toTodo(todo),
+      };
+    },
+  });
+
+const TODO_GENERATION_SCHEMA = {
+  type: "object",
+  properties: {
+    title: {
+      type: "string",
+      description: "The title of the todo",
+    },
+  },
+  required: ["title"],
+};
+
+export const createGenerateTodoWithAITool = (env: Env) =>
+  createPrivateTool({
+    id: "GENERATE_TODO_WITH_AI",
+    description: "Generate a todo with AI based on a custom prompt",
+    inputSchema: z.object({
+      prompt: z.string().optional(),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      todo: todoSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      
+      // Use custom prompt or default to funny todo generation
+      const userPrompt = context.prompt || 
+        "Generate a funny TODO title that i can add to my TODO list! Keep it short and sweet, a maximum of 10 words.";
+      
+      const generatedTodo = await env.AI_GATEWAY
+        .AI_GENERATE_OBJECT({
+          model: "openai:gpt-4.1-mini",
+          messages: [
+            {
+              role: "user",
+              content: userPrompt,
+            },
+          ],
+          temperature: 0.9,
+          schema: TODO_GENERATION_SCHEMA,
+        });
+
+      const generatedTodoTitle = String(generatedTodo.object?.title);
+
+      if (!generatedTodoTitle) {
+        throw new Error("Failed to generate todo");
+      }
+
+      const todo = await db.insert(todosTable).values({
+        title: generatedTodoTitle,
+        completed: 0,
+        position: await nextPosition(db, userId, null),
+        userId,
+      }).returning();
+
+      await recordTodoEvents(
+        env,
+        db,
+        { actorId: userId, source },
+        [
+          {
+            todoId: todo[0].id,
+            type: "created",
+            after: todoValues(toTodo(todo[0])),
+          },
+        ],
+      );
+
+      return {
+        todo: toTodo(todo[0]),
+      };
+    },
+  });
+
+export const createTodoTools = [
+  createCreateTodoTool,
+  createGenerateTodoWithAITool,
+];
@@ -0,0 +1,80 @@
+/**
+ * Delete operations for todos. Deleted todos go to the trash; see
+ * trash.ts for restoring or purging them.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  assertTodoOwner,
+  findDescendants,
+  findVisibleTodo,
+  getCurrentUserId,
+} from "../utils/todo-helpers.ts";
+import { executionIdSchema, findEventSource } from "../utils/todo-events.ts";
+import { trashTodos } from "../utils/todo-trash.ts";
+import { nextVersion } from "../utils/todo-versions.ts";
+
+export const createDeleteTodoTool = (env: Env) =>
+  createPrivateTool({
+    id: "DELETE_TODO",
+    description:
+      "Move a todo to the trash, from where RESTORE_TODO can bring it back. Its subtasks are either trashed with it (cascade) or moved up to its parent (reparent). Only the owner of a todo can delete it, not its assignee",
+    inputSchema: z.object({
+      id: z.number(),
+      subtasks: z.enum(["cascade", "reparent"]).default("reparent"),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      deletedId: z.number(),
+      deletedSubtaskIds: z.array(z.number()),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+
+      // First check if the todo exists
+      const existingTodo = await findVisibleTodo(db, context.id, userId);
+      assertTodoOwner(existingTodo, userId, "delete");
+
+      let deletedSubtaskIds: number[] = [];
+
+      if (context.subtasks === "cascade") {
+        const descendants = await findDescendants(db, [context.id], userId);
+        const trashedIds = await trashTodos(
+          env,
+          db,
+          userId,
+          [existingTodo, ...descendants],
+          source,
+        );
+        // Subtasks that were already in the trash are not reported
+        deletedSubtaskIds = trashedIds.filter((id) => id !== context.id);
+      } else {
+        await db.update(todosTable)
+          .set({ parentId: existingTodo.parentId, version: nextVersion() })
+          .where(
+            and(
+              eq(todosTable.parentId, context.id),
+              eq(todosTable.userId, userId),
+            ),
+          );
+        await trashTodos(env, db, userId, [existingTodo], source);
+      }
+
+      return {
+        success: true,
+        deletedId: context.id,
+        deletedSubtaskIds,
+      };
+    },
+  });
+
+export const deleteTodoTools = [
+  createDeleteTodoTool,
+];
@@ -0,0 +1,232 @@
+/**
+ * "Blocked by" links between todos (see `../utils/todo-dependencies.ts`),
+ * and the graph they form.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, eq, inArray, or } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todoDependenciesTable, todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  type Db,
+  findVisibleTodo,
+  getCurrentUserId,
+} from "../utils/todo-helpers.ts";
+import { TodoRequestError } from "../utils/todo-errors.ts";
+import {
+  findOpenBlockers,
+  getBlockerIds,
+  visibleDependencies,
+  wouldCreateCycle,
+} from "../utils/todo-dependencies.ts";
+import {
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  type TodoEventSource,
+} from "../utils/todo-events.ts";
+
+const dependencyInputSchema = z.object({
+  todoId: z.number().describe("The todo that is blocked"),
+  blockedById: z.number().describe("The todo that blocks it"),
+  executionId: executionIdSchema,
+});
+
+const dependencyOutputSchema = z.object({
+  todoId: z.number(),
+  blockedBy: z.array(z.number())
+    .describe("Ids of all the todos now blocking the todo"),
+});
+
+/**
+ * Records a change of the blockers of a todo in its history.
+ */
+const recordBlockersChange = async (
+  env: Env,
+  db: Db,
+  userId: string,
+  { todoId, source }: { todoId: number; source: TodoEventSource },
+  before: number[],
+  after: number[],
+) => {
+  if (before.join() === after.join()) return;
+
+  await recordTodoEvents(env, db, { actorId: userId, source }, [
+    {
+      todoId,
+      type: "edited",
+      before: { blockedBy: before },
+      after: { blockedBy: after },
+    },
+  ]);
+};
+
+export const createAddTodoDependencyTool = (env: Env) =>
+  createPrivateTool({
+    id: "ADD_TODO_DEPENDENCY",
+    description:
+      "Mark a todo as blocked by another one, so it cannot be completed while the other is open. Fails when the other todo is already blocked by it, directly or through other todos, as the link would close a cycle",
+    inputSchema: dependencyInputSchema,
+    outputSchema: dependencyOutputSchema,
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      const { todoId, blockedById } = context;
+      await findVisibleTodo(db, todoId, userId);
+      await findVisibleTodo(db, blockedById, userId);
+
+      if (await wouldCreateCycle(db, todoId, blockedById)) {
+        throw new TodoRequestError(
+          todoId === blockedById
+            ? "A todo cannot block itself"
+            : `Todo #${blockedById} is already blocked by todo #${todoId}, so it cannot block it`,
+        );
+      }
+
+      const before = await getBlockerIds(db, todoId);
+      await db.insert(todoDependenciesTable)
+        .values({ todoId, blockedById, userId, createdAt: new Date() })
+        .onConflictDoNothing();
+      const after = await getBlockerIds(db, todoId);
+      await recordBlockersChange(
+        env,
+        db,
+        userId,
+        { todoId, source },
+        before,
+        after,
+      );
+
+      return { todoId, blockedBy: after };
+    },
+  });
+
+export const createRemoveTodoDependencyTool = (env: Env) =>
+  createPrivateTool({
+    id: "REMOVE_TODO_DEPENDENCY",
+    description: "Remove the link making a todo blocked by another one",
+    inputSchema: dependencyInputSchema,
+    outputSchema: dependencyOutputSchema,
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      const { todoId, blockedById } = context;
+      await findVisibleTodo(db, todoId, userId);
+
+      const before = await getBlockerIds(db, todoId);
+      await db.delete(todoDependenciesTable).where(and(
+        eq(todoDependenciesTable.todoId, todoId),
+        eq(todoDependenciesTable.blockedById, blockedById),
+      ));
+      const after = await getBlockerIds(db, todoId);
+      await recordBlockersChange(
+        env,
+        db,
+        userId,
+        { todoId, source },
+        before,
+        after,
+      );
+
+      return { todoId, blockedBy: after };
+    },
+  });
+
+export const createGetTodoGraphTool = (env: Env) =>
+  createPrivateTool({
+    id: "GET_TODO_GRAPH",
+    description:
+      "Get the graph of blocking dependencies: todos as nodes, and an edge from each blocker to the todo it blocks. With todoId, only that todo and the todos linked to it, directly or not; otherwise every todo that blocks or is blocked by another. Todos in the trash are left out",
+    inputSchema: z.object({
+      todoId: z.number().optional(),
+    }),
+    outputSchema: z.object({
+      nodes: z.array(z.object({
+        id: z.number(),
+        title: z.string().nullable(),
+        completed: z.boolean(),
+        blocked: z.boolean()
+          .describe("Whether any of its blockers is still open"),
+      })),
+      edges: z.array(z.object({
+        blockedById: z.number(),
+        todoId: z.number(),
+      })),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const visible = visibleDependencies(db, userId);
+      const edges = new Map<string, { todoId: number; blockedById: number }>();
+      const addEdges = (found: { todoId: number; blockedById: number }[]) =>
+        found.forEach((edge) =>
+          edges.set(`${edge.blockedById}-${edge.todoId}`, edge)
+        );
+      const selectEdges = () =>
+        db.select({
+          todoId: todoDependenciesTable.todoId,
+          blockedById: todoDependenciesTable.blockedById,
+        }).from(todoDependenciesTable);
+
+      if (context.todoId === undefined) {
+        addEdges(await selectEdges().where(visible));
+      } else {
+        await findVisibleTodo(db, context.todoId, userId);
+
+        // Follows the links both ways, one step at a time
+        const seen = new Set([context.todoId]);
+        let level = [context.todoId];
+        while (level.length > 0) {
+          const linked = await selectEdges().where(and(
+            visible,
+            or(
+              inArray(todoDependenciesTable.todoId, level),
+              inArray(todoDependenciesTable.blockedById, level),
+            ),
+          ));
+          addEdges(linked);
+
+          level = [
+            ...new Set(
+              linked.flatMap((edge) => [edge.todoId, edge.blockedById]),
+            ),
+          ].filter((id) => !seen.has(id));
+          level.forEach((id) => seen.add(id));
+        }
+      }
+
+      const links = [...edges.values()];
+      const ids = [
+        ...new Set([
+          ...context.todoId === undefined ? [] : [context.todoId],
+          ...links.flatMap((edge) => [edge.todoId, edge.blockedById]),
+        ]),
+      ];
+      const todos = ids.length === 0 ? [] : await db.select({
+        id: todosTable.id,
+        title: todosTable.title,
+        completed: todosTable.completed,
+      }).from(todosTable).where(inArray(todosTable.id, ids))
+        .orderBy(todosTable.id);
+      const openBlockers = await findOpenBlockers(db, ids);
+
+      return {
+        nodes: todos.map((todo) => ({
+          id: todo.id,
+          title: todo.title,
+          completed: todo.completed === 1,
+          blocked: openBlockers.has(todo.id),
+        })),
+        edges: links,
+      };
+    },
+  });
+
+export const dependencyTodoTools = [
+  createAddTodoDependencyTool,
+  createRemoveTodoDependencyTool,
+  createGetTodoGraphTool,
+];
@@ -0,0 +1,78 @@
+/**
+ * The history of a todo, as recorded by `recordTodoEvents`.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, eq } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import {
+  todoEventsTable,
+  todoEventSources,
+  todoEventTypes,
+  todosTable,
+} from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  accessibleTodos,
+  getCurrentUserId,
+} from "../utils/todo-helpers.ts";
+import { TodoNotFoundError } from "../utils/todo-errors.ts";
+
+const todoEventSchema = z.object({
+  id: z.number(),
+  type: z.enum(todoEventTypes),
+  source: z.enum(todoEventSources),
+  actorId: z.string().describe("Id of the user who made the change"),
+  before: z.record(z.unknown()).nullable()
+    .describe("Values of the changed fields before the change"),
+  after: z.record(z.unknown()).nullable()
+    .describe("Values of the changed fields after the change"),
+  createdAt: z.string(),
+});
+
+export const createGetTodoHistoryTool = (env: Env) =>
+  createPrivateTool({
+    id: "GET_TODO_HISTORY",
+    description:
+      "Get the history of a todo, oldest first: who created, toggled, edited, deleted or restored it, when, the values before and after each change, and whether it came from a person (user) or from AI_TOOL_EXECUTOR. Works for todos in the trash too",
+    inputSchema: z.object({
+      id: z.number(),
+    }),
+    outputSchema: z.object({
+      events: z.array(todoEventSchema),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const todo = await db.select({ id: todosTable.id }).from(todosTable)
+        .where(
+          and(eq(todosTable.id, context.id), accessibleTodos(userId)),
+        )
+        .limit(1);
+
+      if (todo.length === 0) {
+        throw new TodoNotFoundError("Todo not found");
+      }
+
+      const events = await db.select().from(todoEventsTable)
+        .where(eq(todoEventsTable.todoId, context.id))
+        .orderBy(asc(todoEventsTable.createdAt), asc(todoEventsTable.id));
+
+      return {
+        events: events.map((event) => ({
+          id: event.id,
+          type: event.type,
+          source: event.source,
+          actorId: event.actorId,
+          before: event.before as Record<string, unknown> | null,
+          after: event.after as Record<string, unknown> | null,
+          createdAt: event.createdAt.toISOString(),
+        })),
+      };
+    },
+  });
+
+export const historyTodoTools = [
+  createGetTodoHistoryTool,
+];
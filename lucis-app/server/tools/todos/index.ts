@@ -0,0 +1,63 @@
+/**
+ * Todo-related tools for managing tasks.
+ *
+ * The todo domain outgrew a single file, so it is split by operation type:
+ * - create.ts: creating todos, manually or with AI
+ * - read.ts: listing todos
+ * - search.ts: full-text search over titles
+ * - update.ts: toggling, editing and moving todos between statuses
+ * - reorder.ts: manual ordering of todos
+ * - move.ts: moving todos between lists
+ * - assign.ts: assigning todos to team members
+ * - dependencies.ts: todos blocking other todos
+ * - time.ts: tracking the time spent on todos
+ * - bulk.ts: applying one action to many todos at once
+ * - transfer.ts: exporting todos to files and importing them
+ * - delete.ts: deleting todos
+ * - trash.ts: restoring deleted todos and emptying the trash
+ * - reminders.ts: firing scheduled reminders
+ * - history.ts: the history of changes of a todo
+ * - comments.ts: the comment thread of a todo
+ * - attachments.ts: files attached to a todo
+ *
+ * Shared schemas and helpers live in `../utils/`. Every tool is scoped
+ * to the authenticated user: the todos they own, and those assigned to them.
+ */
+import { createTodoTools } from "./create.ts";
+import { readTodoTools } from "./read.ts";
+import { searchTodoTools } from "./search.ts";
+import { updateTodoTools } from "./update.ts";
+import { reorderTodoTools } from "./reorder.ts";
+import { moveTodoTools } from "./move.ts";
+import { assignTodoTools } from "./assign.ts";
+import { dependencyTodoTools } from "./dependencies.ts";
+import { timeTodoTools } from "./time.ts";
+import { bulkTodoTools } from "./bulk.ts";
+import { transferTodoTools } from "./transfer.ts";
+import { deleteTodoTools } from "./delete.ts";
+import { trashTodoTools } from "./trash.ts";
+import { reminderTodoTools } from "./reminders.ts";
+import { historyTodoTools } from "./history.ts";
+import { commentTodoTools } from "./comments.ts";
+import { attachmentTodoTools } from "./attachments.ts";
+
+// Export all todo-related tools
+export const todoTools = [
+  ...readTodoTools,
+  ...searchTodoTools,
+  ...createTodoTools,
+  ...updateTodoTools,
+  ...reorderTodoTools,
+  ...moveTodoTools,
+  ...assignTodoTools,
+  ...dependencyTodoTools,
+  ...timeTodoTools,
+  ...bulkTodoTools,
+  ...transferTodoTools,
+  ...deleteTodoTools,
+  ...trashTodoTools,
+  ...reminderTodoTools,
+  ...historyTodoTools,
+  ...commentTodoTools,
+  ...attachmentTodoTools,
+];
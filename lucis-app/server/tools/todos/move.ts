@@ -0,0 +1,74 @@
+/**
+ * Moving todos between lists.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import type { Env } from "../../main.ts";
+import { getDb } from "../../db.ts";
+import {
+  assertWritableList,
+  findOwnedTodo,
+  getCurrentUserId,
+  moveTodosToList,
+} from "../utils/todo-helpers.ts";
+import {
+  diffTodo,
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  type TodoEvent,
+} from "../utils/todo-events.ts";
+import { toTodo } from "../utils/todo-schemas.ts";
+
+export const createMoveTodosTool = (env: Env) =>
+  createPrivateTool({
+    id: "MOVE_TODOS",
+    description:
+      "Move todos, with their subtasks, to the end of a list or of the inbox (listId null). A moved subtask whose parent stays in another list becomes top-level",
+    inputSchema: z.object({
+      ids: z.array(z.number()).min(1),
+      listId: z.number().nullable(),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      listId: z.number().nullable(),
+      movedIds: z.array(z.number()),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      await assertWritableList(db, userId, context.listId);
+
+      const todos = [];
+      for (const id of new Set(context.ids)) {
+        todos.push(await findOwnedTodo(db, id, userId));
+      }
+
+      const moved = await moveTodosToList(
+        env,
+        db,
+        userId,
+        todos,
+        context.listId,
+      );
+
+      const eventContext = { actorId: userId, source };
+      const events: TodoEvent[] = [];
+      const movedById = new Map(moved.map((todo) => [todo.id, todo]));
+      for (const todo of todos) {
+        const diff = diffTodo(toTodo(todo), toTodo(movedById.get(todo.id)!));
+        if (diff) events.push({ todoId: todo.id, type: "edited", ...diff });
+      }
+      await recordTodoEvents(env, db, eventContext, events);
+
+      return {
+        listId: context.listId,
+        movedIds: moved.map((todo) => todo.id),
+      };
+    },
+  });
+
+export const moveTodoTools = [
+  createMoveTodosTool,
+];
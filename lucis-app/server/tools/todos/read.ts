@@ -0,0 +1,247 @@
+/**
+ * Read operations for todos.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  inArray,
+  isNotNull,
+  isNull,
+  notInArray,
+  or,
+  type SQL,
+  sum,
+} from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  accessibleTodos,
+  getCurrentUserId,
+  getTodoTagNames,
+} from "../utils/todo-helpers.ts";
+import {
+  afterCursor,
+  decodeCursor,
+  dueFilter,
+  encodeCursor,
+  sortExpression,
+  tagFilter,
+  textFilter,
+  todoSorts,
+} from "../utils/todo-queries.ts";
+import {
+  type ListedTodo,
+  listedTodoSchema,
+  tagNameSchema,
+  toTodo,
+} from "../utils/todo-schemas.ts";
+import { purgeExpiredTrash } from "../utils/todo-trash.ts";
+
+/**
+ * Nests todos under their parents. Todos whose parent is not in the list
+ * (e.g. filtered out) become roots.
+ */
+const buildTodoTree = (todos: ListedTodo[]) => {
+  const byId = new Map(
+    todos.map((todo) => [todo.id, { ...todo, children: [] as ListedTodo[] }]),
+  );
+  const roots: ListedTodo[] = [];
+
+  for (const todo of byId.values()) {
+    const parent = todo.parentId === null
+      ? undefined
+      : byId.get(todo.parentId);
+    if (parent) {
+      parent.children.push(todo);
+    } else {
+      roots.push(todo);
+    }
+  }
+
+  return roots;
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+export const createListTodosTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_TODOS",
+    description:
+      "List the todos the current user owns or is assigned to, one page at a time, in their manual order or sorted by creation, title, completion or priority. Todos can be filtered by list (null for the inbox), due date (overdue, today, upcoming), tags, completion, assignee and title text. Each todo reports its tags and the completion of its subtasks. Set tree to nest subtasks under their parents; pages then contain top-level todos with all their matching subtasks. Pass the returned nextCursor to get the next page. Todos in the trash (only the user's own) are listed when deleted is set instead",
+    inputSchema: z.object({
+      tree: z.boolean().optional()
+        .describe("Return top-level todos with their subtasks in `children`"),
+      listId: z.number().int().nullable().optional()
+        .describe(
+          "Only return the todos of this list; null means the inbox. Omit it to list todos of every list",
+        ),
+      due: z.enum(["overdue", "today", "upcoming"]).optional(),
+      timezoneOffset: z.number().int().min(-840).max(720).optional()
+        .describe(
+          "Client timezone offset in minutes, as returned by Date.getTimezoneOffset(). Defines what 'today' means; defaults to UTC",
+        ),
+      tags: z.array(tagNameSchema).optional()
+        .describe("Only return todos with these tags"),
+      tagMatch: z.enum(["any", "all"]).default("any")
+        .describe("Whether todos need any or all of the given tags"),
+      completed: z.boolean().optional()
+        .describe("Only return completed (true) or open (false) todos"),
+      assignee: z.enum(["me", "unassigned"]).optional()
+        .describe(
+          "Only return the todos assigned to the current user, or those assigned to nobody",
+        ),
+      text: z.string().trim().min(1).optional()
+        .describe("Only return todos whose title contains this text"),
+      sort: z.enum(todoSorts).default("position")
+        .describe(
+          "position is the manual order; created is the creation order",
+        ),
+      order: z.enum(["asc", "desc"]).default("asc"),
+      limit: z.number().int().min(1).max(MAX_PAGE_SIZE)
+        .default(DEFAULT_PAGE_SIZE),
+      cursor: z.string().optional()
+        .describe("nextCursor of the previous page"),
+      deleted: z.boolean().default(false)
+        .describe("List the todos in the trash instead"),
+    }),
+    outputSchema: z.object({
+      todos: z.array(listedTodoSchema),
+      nextCursor: z.string().nullable()
+        .describe("Cursor of the next page, or null on the last page"),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await purgeExpiredTrash(env, db, userId);
+
+      const { sort, order, limit } = context;
+      // The trash only holds the user's own todos, as only owners delete
+      const scope = context.deleted
+        ? and(eq(todosTable.userId, userId), isNotNull(todosTable.deletedAt))
+        : and(accessibleTodos(userId), isNull(todosTable.deletedAt));
+      const filters = and(
+        scope,
+        context.listId === undefined
+          ? undefined
+          : context.listId === null
+          ? isNull(todosTable.listId)
+          : eq(todosTable.listId, context.listId),
+        context.due
+          ? dueFilter(context.due, context.timezoneOffset ?? 0)
+          : undefined,
+        context.tags?.length
+          ? tagFilter(db, userId, context.tags, context.tagMatch)
+          : undefined,
+        context.completed === undefined
+          ? undefined
+          : eq(todosTable.completed, context.completed ? 1 : 0),
+        context.assignee === "me"
+          ? eq(todosTable.assigneeId, userId)
+          : context.assignee === "unassigned"
+          ? isNull(todosTable.assigneeId)
+          : undefined,
+        context.text ? textFilter(context.text) : undefined,
+      );
+
+      const sortValue = sortExpression(sort);
+      const direction = order === "asc" ? asc : desc;
+      const selectSorted = (where: SQL | undefined) =>
+        db.select({ ...getTableColumns(todosTable), sortValue })
+          .from(todosTable)
+          .where(where)
+          .orderBy(direction(sortValue), direction(todosTable.id));
+
+      // In a tree, pages are made of the todos whose parent does not match
+      // the filters (so they are not shown under it)
+      const roots = context.tree
+        ? or(
+          isNull(todosTable.parentId),
+          notInArray(
+            todosTable.parentId,
+            db.select({ id: todosTable.id }).from(todosTable).where(filters),
+          ),
+        )
+        : undefined;
+
+      const rows = await selectSorted(
+        and(
+          filters,
+          roots,
+          context.cursor
+            ? afterCursor(decodeCursor(context.cursor, sort, order))
+            : undefined,
+        ),
+      ).limit(limit + 1);
+
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      const nextCursor = rows.length > limit
+        ? encodeCursor({
+          sort,
+          order,
+          value: last.sortValue as string | number,
+          id: last.id,
+        })
+        : null;
+
+      // Matching subtasks of the page, level by level
+      const todos = [...page];
+      let level = context.tree ? page.map((todo) => todo.id) : [];
+      while (level.length > 0) {
+        const children = await selectSorted(
+          and(filters, inArray(todosTable.parentId, level)),
+        );
+        todos.push(...children);
+        level = children.map((child) => child.id);
+      }
+
+      // Subtask completion counts, e.g. "3/5" for a parent with 5 subtasks
+      const subtaskCounts = await db.select({
+        parentId: todosTable.parentId,
+        total: count(),
+        completed: sum(todosTable.completed),
+      }).from(todosTable).where(
+        and(
+          scope,
+          inArray(todosTable.parentId, todos.map((todo) => todo.id)),
+        ),
+      ).groupBy(todosTable.parentId);
+
+      const countsByParent = new Map(
+        subtaskCounts.map((row) => [row.parentId, row]),
+      );
+      const tagNames = await getTodoTagNames(
+        db,
+        userId,
+        todos.map((todo) => todo.id),
+      );
+      const listed = todos.map(({ sortValue: _, ...todo }): ListedTodo => {
+        const counts = countsByParent.get(todo.id);
+        return {
+          ...toTodo(todo),
+          tags: tagNames.get(todo.id) ?? [],
+          subtasks: {
+            completed: Number(counts?.completed ?? 0),
+            total: counts?.total ?? 0,
+          },
+        };
+      });
+
+      return {
+        todos: context.tree ? buildTodoTree(listed) : listed,
+        nextCursor,
+      };
+    },
+  });
+
+export const readTodoTools = [
+  createListTodosTool,
+];
@@ -0,0 +1,64 @@
+/**
+ * Reminder tools for todos.
+ *
+ * FIRE_TODO_REMINDER is not meant to be called by users: it is the target
+ * of the cron triggers created by `syncReminder`.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  findOwnedTodo,
+  getCurrentUserId,
+  ownedTodo,
+} from "../utils/todo-helpers.ts";
+import {
+  cancelReminder,
+  REMINDER_TOOL_NAME,
+} from "../utils/todo-reminders.ts";
+import { todoSchema, toTodo } from "../utils/todo-schemas.ts";
+import { nextVersion } from "../utils/todo-versions.ts";
+
+export const createFireTodoReminderTool = (env: Env) =>
+  createPrivateTool({
+    id: REMINDER_TOOL_NAME,
+    description:
+      "Called by a todo's reminder trigger when its reminder is due. Marks the todo as reminded and removes the one-shot trigger",
+    inputSchema: z.object({
+      id: z.number(),
+    }),
+    outputSchema: z.object({
+      reminded: z.boolean(),
+      todo: todoSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const todo = await findOwnedTodo(db, context.id, userId);
+      await cancelReminder(env, todo.reminderTriggerId);
+
+      // Completed todos need no reminder, but their trigger is still dropped
+      const reminded = todo.completed !== 1;
+
+      const updatedTodo = await db.update(todosTable)
+        .set({
+          reminderTriggerId: null,
+          remindedAt: reminded ? new Date() : todo.remindedAt,
+          version: nextVersion(),
+        })
+        .where(ownedTodo(context.id, userId))
+        .returning();
+
+      return {
+        reminded,
+        todo: toTodo(updatedTodo[0]),
+      };
+    },
+  });
+
+export const reminderTodoTools = [
+  createFireTodoReminderTool,
+];
@@ -0,0 +1,143 @@
+/**
+ * Manual ordering of todos.
+ *
+ * A moved todo gets the midpoint between the positions of its new
+ * neighbours, so a move usually updates a single row. When repeated moves
+ * into the same gap exhaust the precision of a double, the siblings are
+ * rebalanced to evenly spaced positions.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { asc, eq } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  type Db,
+  findOwnedTodo,
+  getCurrentUserId,
+  ownedTodo,
+  siblingTodos,
+} from "../utils/todo-helpers.ts";
+import { TodoRequestError } from "../utils/todo-errors.ts";
+import { todoSchema, toTodo } from "../utils/todo-schemas.ts";
+import { nextVersion } from "../utils/todo-versions.ts";
+
+/**
+ * Smallest gap between two neighbours that still leaves room for a midpoint.
+ */
+const MIN_POSITION_GAP = 1e-9;
+
+/**
+ * Position between `previous` and `next`, or `null` when they are too close
+ * to fit another todo in between.
+ */
+const positionBetween = (previous: number | null, next: number | null) => {
+  if (previous === null && next === null) return 1;
+  if (previous === null) return next! - 1;
+  if (next === null) return previous + 1;
+  if (next - previous < MIN_POSITION_GAP) return null;
+
+  return previous + (next - previous) / 2;
+};
+
+/**
+ * Rewrites the positions of all siblings of `todo` as 1, 2, 3..., placing
+ * `todo` right after `previousId`, or right before `nextId` when it is the
+ * first one.
+ */
+const rebalanceSiblings = async (
+  db: Db,
+  userId: string,
+  todo: typeof todosTable.$inferSelect,
+  previousId: number | null,
+  nextId: number | null,
+) => {
+  const siblings = await db.select({ id: todosTable.id })
+    .from(todosTable)
+    .where(siblingTodos(userId, todo.listId, todo.parentId))
+    .orderBy(asc(todosTable.position), asc(todosTable.id));
+
+  const ids = siblings.map((sibling) => sibling.id)
+    .filter((id) => id !== todo.id);
+  const index = previousId === null
+    ? ids.indexOf(nextId!)
+    : ids.indexOf(previousId) + 1;
+  ids.splice(index, 0, todo.id);
+
+  for (const [index, id] of ids.entries()) {
+    await db.update(todosTable)
+      .set({ position: index + 1, version: nextVersion() })
+      .where(eq(todosTable.id, id));
+  }
+};
+
+export const createReorderTodosTool = (env: Env) =>
+  createPrivateTool({
+    id: "REORDER_TODOS",
+    description:
+      "Move a todo between two of its siblings (todos in the same list and under the same parent). Pass the id of the todo that should come right before it, right after it, or both; null means it becomes the first or last one",
+    inputSchema: z.object({
+      id: z.number(),
+      previousId: z.number().nullable()
+        .describe("Todo that ends up right before the moved one"),
+      nextId: z.number().nullable()
+        .describe("Todo that ends up right after the moved one"),
+    }),
+    outputSchema: z.object({
+      todo: todoSchema,
+      rebalanced: z.boolean(),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const { id, previousId, nextId } = context;
+
+      if (previousId === null && nextId === null) {
+        throw new TodoRequestError("Pass previousId or nextId");
+      }
+      if (previousId === id || nextId === id) {
+        throw new TodoRequestError("A todo cannot be its own neighbour");
+      }
+
+      const todo = await findOwnedTodo(db, id, userId);
+      const neighbours: (typeof todosTable.$inferSelect)[] = [];
+      for (const neighbourId of [previousId, nextId]) {
+        if (neighbourId === null) continue;
+
+        const neighbour = await findOwnedTodo(db, neighbourId, userId);
+        if (
+          neighbour.listId !== todo.listId ||
+          neighbour.parentId !== todo.parentId
+        ) {
+          throw new TodoRequestError("Todos can only be reordered among their siblings");
+        }
+        neighbours.push(neighbour);
+      }
+
+      const positionOf = (neighbourId: number | null) =>
+        neighbours.find((neighbour) => neighbour.id === neighbourId)
+          ?.position ?? null;
+      const position = positionBetween(
+        positionOf(previousId),
+        positionOf(nextId),
+      );
+
+      if (position === null) {
+        await rebalanceSiblings(db, userId, todo, previousId, nextId);
+      } else {
+        await db.update(todosTable)
+          .set({ position, version: nextVersion() })
+          .where(ownedTodo(id, userId));
+      }
+
+      return {
+        todo: toTodo(await findOwnedTodo(db, id, userId)),
+        rebalanced: position === null,
+      };
+    },
+  });
+
+export const reorderTodoTools = [
+  createReorderTodosTool,
+];
@@ -0,0 +1,127 @@
+/**
+ * Full-text search over todo titles.
+ *
+ * Titles are indexed in the `todos_fts` FTS5 table (see the `todos_fts`
+ * migration), which triggers keep in sync with `todos`. Matches are ranked
+ * with bm25, the best first.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, desc, eq, getTableColumns, isNull, sql } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  accessibleTodos,
+  getCurrentUserId,
+} from "../utils/todo-helpers.ts";
+import { todoSchema, toTodo } from "../utils/todo-schemas.ts";
+
+/**
+ * Control characters marking the matched terms in snippets. They cannot
+ * appear in titles typed by users, unlike HTML-like markers.
+ */
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+/**
+ * Turns free text into an FTS5 query matching todos that contain every
+ * word, each one as a prefix so results show up while typing. Words are
+ * quoted, so FTS5 operators and punctuation in `text` match literally.
+ */
+const toMatchQuery = (text: string) =>
+  text.split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `"${word.replaceAll('"', '""')}"*`)
+    .join(" ");
+
+const snippetSchema = z.array(z.object({
+  text: z.string(),
+  match: z.boolean(),
+})).describe(
+  "The title around the matches, split into matched and unmatched parts",
+);
+
+/**
+ * Splits a snippet marked with MATCH_START/MATCH_END into parts.
+ */
+const toSnippet = (marked: string) =>
+  marked.split(MATCH_START).flatMap((part, index) => {
+    if (index === 0) return part ? [{ text: part, match: false }] : [];
+    const [matched, rest = ""] = part.split(MATCH_END);
+    return [
+      { text: matched, match: true },
+      ...(rest ? [{ text: rest, match: false }] : []),
+    ];
+  });
+
+const DEFAULT_RESULT_COUNT = 20;
+const MAX_RESULT_COUNT = 50;
+
+export const createSearchTodosTool = (env: Env) =>
+  createPrivateTool({
+    id: "SEARCH_TODOS",
+    description:
+      "Search the titles of the todos the current user owns or is assigned to, leaving out the trash. Every word of the query must appear at the start of a word in the title, ignoring case and accents. Returns the best matches first, each with a snippet of its title where the matched words are flagged",
+    inputSchema: z.object({
+      query: z.string().trim().min(1, "Query cannot be empty"),
+      listId: z.number().int().nullable().optional()
+        .describe(
+          "Only search the todos of this list; null means the inbox. Omit it to search every list",
+        ),
+      completed: z.boolean().optional()
+        .describe("Only return completed (true) or open (false) todos"),
+      limit: z.number().int().min(1).max(MAX_RESULT_COUNT)
+        .default(DEFAULT_RESULT_COUNT),
+    }),
+    outputSchema: z.object({
+      results: z.array(z.object({
+        todo: todoSchema,
+        snippet: snippetSchema,
+        score: z.number().describe("Relevance of the match; higher is better"),
+      })),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const matchQuery = toMatchQuery(context.query);
+      // bm25 scores are negative, lower meaning more relevant
+      const rank = sql<number>`bm25(todos_fts)`;
+      const snippet = sql<string>`snippet(todos_fts, 0, ${MATCH_START}, ${MATCH_END}, '…', 16)`;
+      const rows = await db.select({
+        ...getTableColumns(todosTable),
+        rank,
+        snippet,
+      })
+        .from(todosTable)
+        .innerJoin(sql`todos_fts`, sql`todos_fts.rowid = ${todosTable.id}`)
+        .where(and(
+          sql`todos_fts match ${matchQuery}`,
+          accessibleTodos(userId),
+          isNull(todosTable.deletedAt),
+          context.listId === undefined
+            ? undefined
+            : context.listId === null
+            ? isNull(todosTable.listId)
+            : eq(todosTable.listId, context.listId),
+          context.completed === undefined
+            ? undefined
+            : eq(todosTable.completed, context.completed ? 1 : 0),
+        ))
+        .orderBy(asc(rank), desc(todosTable.id))
+        .limit(context.limit);
+
+      return {
+        results: rows.map(({ rank: bm25, snippet: marked, ...todo }) => ({
+          todo: toTodo(todo),
+          snippet: toSnippet(marked),
+          score: -Number(bm25),
+        })),
+      };
+    },
+  });
+
+export const searchTodoTools = [
+  createSearchTodosTool,
+];
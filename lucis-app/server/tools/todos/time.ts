@@ -0,0 +1,369 @@
+/**
+ * Time tracking on todos. A timer is a time entry that has not ended yet;
+ * each user has at most one, so starting a timer stops the one running.
+ * Entries can also be logged, corrected and deleted by hand.
+ *
+ * Entries belong to the user who tracked them, on any todo they can see.
+ * Those of todos in the trash are left out, and a timer stops when its
+ * todo is trashed.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import {
+  and,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  isNull,
+  lt,
+  sql,
+} from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { timeEntriesTable, todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  type Db,
+  findVisibleTodo,
+  getCurrentUserId,
+} from "../utils/todo-helpers.ts";
+import { TodoNotFoundError, TodoRequestError } from "../utils/todo-errors.ts";
+
+const timeEntrySchema = z.object({
+  id: z.number(),
+  todoId: z.number(),
+  todoTitle: z.string().nullable(),
+  startedAt: z.string(),
+  endedAt: z.string().nullable()
+    .describe("null while the timer is running"),
+  seconds: z.number().describe("Duration, so far for a running timer"),
+  note: z.string().nullable(),
+});
+
+const noteSchema = z.string().trim().max(500).nullable();
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+type TimeEntryRow = typeof timeEntriesTable.$inferSelect & {
+  todoTitle: string | null;
+};
+
+const toTimeEntry = (row: TimeEntryRow, now = new Date()) => ({
+  id: row.id,
+  todoId: row.todoId,
+  todoTitle: row.todoTitle,
+  startedAt: row.startedAt.toISOString(),
+  endedAt: row.endedAt?.toISOString() ?? null,
+  seconds: Math.round(
+    ((row.endedAt ?? now).getTime() - row.startedAt.getTime()) / 1000,
+  ),
+  note: row.note,
+});
+
+/**
+ * The time entries, with the title of their todo.
+ */
+const selectTimeEntries = (db: Db) =>
+  db.select({
+    ...getTableColumns(timeEntriesTable),
+    todoTitle: todosTable.title,
+  })
+    .from(timeEntriesTable)
+    .innerJoin(todosTable, eq(todosTable.id, timeEntriesTable.todoId));
+
+/**
+ * Matches the time entries of `userId` on todos that are not in the trash.
+ */
+const ownTimeEntries = (userId: string) =>
+  and(eq(timeEntriesTable.userId, userId), isNull(todosTable.deletedAt));
+
+/**
+ * Loads a time entry of `userId`, throwing when it does not exist.
+ */
+const findOwnTimeEntry = async (db: Db, id: number, userId: string) => {
+  const entry = await selectTimeEntries(db)
+    .where(and(eq(timeEntriesTable.id, id), ownTimeEntries(userId)))
+    .limit(1);
+
+  if (entry.length === 0) {
+    throw new TodoNotFoundError("Time entry not found");
+  }
+
+  return entry[0];
+};
+
+/**
+ * Ensures an entry starts before it ends, and neither is in the future.
+ */
+const assertValidPeriod = (startedAt: Date, endedAt: Date | null) => {
+  const now = new Date();
+  if (startedAt > now || (endedAt && endedAt > now)) {
+    throw new TodoRequestError("Time entries cannot be in the future");
+  }
+  if (endedAt && endedAt <= startedAt) {
+    throw new TodoRequestError("A time entry must end after it starts");
+  }
+};
+
+/**
+ * Stops the running timer of `userId`, returning its entry, or null when
+ * none was running.
+ */
+const stopRunningTimer = async (db: Db, userId: string) => {
+  const stopped = await db.update(timeEntriesTable)
+    .set({ endedAt: new Date() })
+    .where(and(
+      eq(timeEntriesTable.userId, userId),
+      isNull(timeEntriesTable.endedAt),
+    ))
+    .returning();
+  if (stopped.length === 0) return null;
+
+  return findOwnTimeEntry(db, stopped[0].id, userId);
+};
+
+export const createStartTimerTool = (env: Env) =>
+  createPrivateTool({
+    id: "START_TIMER",
+    description:
+      "Start tracking time on a todo. Only one timer runs at a time, so the running one, if any, is stopped and returned as stopped",
+    inputSchema: z.object({
+      todoId: z.number(),
+      note: noteSchema.optional(),
+    }),
+    outputSchema: z.object({
+      entry: timeEntrySchema,
+      stopped: timeEntrySchema.nullable(),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findVisibleTodo(db, context.todoId, userId);
+
+      const stopped = await stopRunningTimer(db, userId);
+      const started = await db.insert(timeEntriesTable).values({
+        userId,
+        todoId: context.todoId,
+        startedAt: new Date(),
+        note: context.note ?? null,
+      }).returning();
+
+      return {
+        entry: toTimeEntry(await findOwnTimeEntry(db, started[0].id, userId)),
+        stopped: stopped && toTimeEntry(stopped),
+      };
+    },
+  });
+
+export const createStopTimerTool = (env: Env) =>
+  createPrivateTool({
+    id: "STOP_TIMER",
+    description: "Stop the running timer. Fails when no timer is running",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ entry: timeEntrySchema }),
+    execute: async () => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const stopped = await stopRunningTimer(db, userId);
+      if (!stopped) {
+        throw new TodoRequestError("No timer is running");
+      }
+
+      return { entry: toTimeEntry(stopped) };
+    },
+  });
+
+const DEFAULT_ENTRY_COUNT = 50;
+const MAX_ENTRY_COUNT = 200;
+
+export const createListTimeEntriesTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_TIME_ENTRIES",
+    description:
+      "List the time entries of the current user, latest first, with the running timer and the total time per todo and per day. Entries can be limited to a todo and to those started in a period; totals cover every matching entry, not only the listed ones. Days are counted in the client timezone, and an entry counts towards the day it started",
+    inputSchema: z.object({
+      todoId: z.number().optional(),
+      from: timestampSchema.optional()
+        .describe("Only entries started at or after this time"),
+      to: timestampSchema.optional()
+        .describe("Only entries started before this time"),
+      timezoneOffset: z.number().int().min(-840).max(720).optional()
+        .describe(
+          "Client timezone offset in minutes, as returned by Date.getTimezoneOffset(). Defines the days of the totals; defaults to UTC",
+        ),
+      limit: z.number().int().min(1).max(MAX_ENTRY_COUNT)
+        .default(DEFAULT_ENTRY_COUNT),
+    }),
+    outputSchema: z.object({
+      entries: z.array(timeEntrySchema),
+      running: timeEntrySchema.nullable(),
+      totals: z.object({
+        seconds: z.number(),
+        byTodo: z.array(z.object({
+          todoId: z.number(),
+          todoTitle: z.string().nullable(),
+          seconds: z.number(),
+        })),
+        byDay: z.array(z.object({
+          day: z.string().describe("YYYY-MM-DD"),
+          seconds: z.number(),
+        })),
+      }),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const now = new Date();
+      const filters = and(
+        ownTimeEntries(userId),
+        context.todoId === undefined
+          ? undefined
+          : eq(timeEntriesTable.todoId, context.todoId),
+        context.from
+          ? gte(timeEntriesTable.startedAt, new Date(context.from))
+          : undefined,
+        context.to
+          ? lt(timeEntriesTable.startedAt, new Date(context.to))
+          : undefined,
+      );
+
+      const entries = await selectTimeEntries(db)
+        .where(filters)
+        .orderBy(desc(timeEntriesTable.startedAt), desc(timeEntriesTable.id))
+        .limit(context.limit);
+      const running = await selectTimeEntries(db)
+        .where(and(ownTimeEntries(userId), isNull(timeEntriesTable.endedAt)))
+        .limit(1);
+
+      // Timestamps are stored in seconds; running timers count until now
+      const seconds = sql<number>`sum(coalesce(${timeEntriesTable.endedAt}, ${
+        Math.floor(now.getTime() / 1000)
+      }) - ${timeEntriesTable.startedAt})`.mapWith(Number);
+      const day = sql<string>`date(${timeEntriesTable.startedAt} - ${
+        (context.timezoneOffset ?? 0) * 60
+      }, 'unixepoch')`;
+
+      const byTodo = await db.select({
+        todoId: timeEntriesTable.todoId,
+        todoTitle: todosTable.title,
+        seconds,
+      })
+        .from(timeEntriesTable)
+        .innerJoin(todosTable, eq(todosTable.id, timeEntriesTable.todoId))
+        .where(filters)
+        .groupBy(timeEntriesTable.todoId, todosTable.title)
+        .orderBy(desc(seconds));
+      const byDay = await db.select({ day, seconds })
+        .from(timeEntriesTable)
+        .innerJoin(todosTable, eq(todosTable.id, timeEntriesTable.todoId))
+        .where(filters)
+        .groupBy(day)
+        .orderBy(desc(day));
+
+      return {
+        entries: entries.map((entry) => toTimeEntry(entry, now)),
+        running: running.length ? toTimeEntry(running[0], now) : null,
+        totals: {
+          seconds: byTodo.reduce((total, todo) => total + todo.seconds, 0),
+          byTodo,
+          byDay,
+        },
+      };
+    },
+  });
+
+export const createAddTimeEntryTool = (env: Env) =>
+  createPrivateTool({
+    id: "ADD_TIME_ENTRY",
+    description:
+      "Log time spent on a todo by hand, from startedAt to endedAt (ISO 8601)",
+    inputSchema: z.object({
+      todoId: z.number(),
+      startedAt: timestampSchema,
+      endedAt: timestampSchema,
+      note: noteSchema.optional(),
+    }),
+    outputSchema: z.object({ entry: timeEntrySchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findVisibleTodo(db, context.todoId, userId);
+      const startedAt = new Date(context.startedAt);
+      const endedAt = new Date(context.endedAt);
+      assertValidPeriod(startedAt, endedAt);
+
+      const added = await db.insert(timeEntriesTable).values({
+        userId,
+        todoId: context.todoId,
+        startedAt,
+        endedAt,
+        note: context.note ?? null,
+      }).returning();
+
+      return {
+        entry: toTimeEntry(await findOwnTimeEntry(db, added[0].id, userId)),
+      };
+    },
+  });
+
+export const createUpdateTimeEntryTool = (env: Env) =>
+  createPrivateTool({
+    id: "UPDATE_TIME_ENTRY",
+    description:
+      "Correct a time entry by hand. Only the given fields change; setting endedAt on the running timer stops it",
+    inputSchema: z.object({
+      id: z.number(),
+      startedAt: timestampSchema.optional(),
+      endedAt: timestampSchema.optional(),
+      note: noteSchema.optional(),
+    }),
+    outputSchema: z.object({ entry: timeEntrySchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const entry = await findOwnTimeEntry(db, context.id, userId);
+      const startedAt = context.startedAt
+        ? new Date(context.startedAt)
+        : entry.startedAt;
+      const endedAt = context.endedAt
+        ? new Date(context.endedAt)
+        : entry.endedAt;
+      assertValidPeriod(startedAt, endedAt);
+
+      await db.update(timeEntriesTable)
+        .set({ startedAt, endedAt, note: context.note })
+        .where(eq(timeEntriesTable.id, entry.id));
+
+      return {
+        entry: toTimeEntry(await findOwnTimeEntry(db, entry.id, userId)),
+      };
+    },
+  });
+
+export const createDeleteTimeEntryTool = (env: Env) =>
+  createPrivateTool({
+    id: "DELETE_TIME_ENTRY",
+    description: "Delete a time entry, or discard the running timer",
+    inputSchema: z.object({ id: z.number() }),
+    outputSchema: z.object({ success: z.boolean(), deletedId: z.number() }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnTimeEntry(db, context.id, userId);
+
+      await db.delete(timeEntriesTable)
+        .where(eq(timeEntriesTable.id, context.id));
+
+      return { success: true, deletedId: context.id };
+    },
+  });
+
+export const timeTodoTools = [
+  createStartTimerTool,
+  createStopTimerTool,
+  createListTimeEntriesTool,
+  createAddTimeEntryTool,
+  createUpdateTimeEntryTool,
+  createDeleteTimeEntryTool,
+];
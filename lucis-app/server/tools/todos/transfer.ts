@@ -0,0 +1,299 @@
+/**
+ * Exporting todos to files and importing them back; the formats are in
+ * `../utils/todo-formats.ts`.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { listsTable, todosTable, todoTagsTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  getCurrentUserId,
+  getTodoTagNames,
+  nextPosition,
+  upsertTags,
+} from "../utils/todo-helpers.ts";
+import { TodoRequestError } from "../utils/todo-errors.ts";
+import {
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  todoValues,
+} from "../utils/todo-events.ts";
+import {
+  formatTodoFile,
+  parseTodoFile,
+  type PortableTodo,
+  todoFileFormats,
+  todoFileTypes,
+} from "../utils/todo-formats.ts";
+import { toTodo } from "../utils/todo-schemas.ts";
+import { findWorkflows, statusFor } from "../utils/todo-statuses.ts";
+
+export const IMPORT_MAX_TODOS = 1000;
+
+const IMPORT_MAX_LENGTH = 1_000_000;
+
+/**
+ * Imported todos are written a few at a time to stay within the number of
+ * parameters a single statement can bind.
+ */
+const IMPORT_BATCH_SIZE = 10;
+
+const fileFormatSchema = z.enum(todoFileFormats);
+
+const duplicateKey = (title: string, list: string | null) =>
+  `${list?.toLowerCase() ?? ""}\n${title.toLowerCase()}`;
+
+const batches = <T>(items: T[]) =>
+  Array.from(
+    { length: Math.ceil(items.length / IMPORT_BATCH_SIZE) },
+    (_, index) =>
+      items.slice(index * IMPORT_BATCH_SIZE, (index + 1) * IMPORT_BATCH_SIZE),
+  );
+
+export const createExportTodosTool = (env: Env) =>
+  createPrivateTool({
+    id: "EXPORT_TODOS",
+    description:
+      "Export the todos of the current user as a file: json, csv, markdown (a GitHub checklist per list) or todotxt. Returns the content of the file with a suggested file name and MIME type",
+    inputSchema: z.object({
+      format: fileFormatSchema,
+      listId: z.number().nullable().optional()
+        .describe("Only export this list, or the inbox with null"),
+      includeCompleted: z.boolean().default(true),
+    }),
+    outputSchema: z.object({
+      filename: z.string(),
+      mimeType: z.string(),
+      content: z.string(),
+      count: z.number(),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const rows = await db.select().from(todosTable)
+        .where(and(
+          eq(todosTable.userId, userId),
+          isNull(todosTable.deletedAt),
+          context.listId === undefined
+            ? undefined
+            : context.listId === null
+            ? isNull(todosTable.listId)
+            : eq(todosTable.listId, context.listId),
+          context.includeCompleted ? undefined : eq(todosTable.completed, 0),
+        ))
+        .orderBy(asc(todosTable.listId), asc(todosTable.position));
+
+      const lists = await db.select().from(listsTable)
+        .where(eq(listsTable.userId, userId));
+      const listNames = new Map(lists.map((list) => [list.id, list.name]));
+      const tagNames = await getTodoTagNames(db, userId);
+
+      const todos = rows.map((row): PortableTodo => ({
+        title: row.title ?? "",
+        completed: row.completed === 1,
+        priority: row.priority,
+        dueAt: row.dueAt?.toISOString() ?? null,
+        list: row.listId === null ? null : listNames.get(row.listId) ?? null,
+        tags: tagNames.get(row.id) ?? [],
+        recurrence: row.recurrence,
+      }));
+      const { extension, mimeType } = todoFileTypes[context.format];
+
+      return {
+        filename: `todos-${new Date().toISOString().slice(0, 10)}.${extension}`,
+        mimeType,
+        content: formatTodoFile(context.format, todos),
+        count: todos.length,
+      };
+    },
+  });
+
+export const createImportTodosTool = (env: Env) =>
+  createPrivateTool({
+    id: "IMPORT_TODOS",
+    description:
+      `Import todos from the content of a file in one of the EXPORT_TODOS formats. Lists named in the file are created when missing. Todos with the same title as another one in the same list are duplicates, and are skipped unless duplicates is "import". Invalid todos are reported with their line and skipped. With dryRun nothing is written, so the result previews the import. At most ${IMPORT_MAX_TODOS} todos per file`,
+    inputSchema: z.object({
+      format: fileFormatSchema,
+      content: z.string().max(IMPORT_MAX_LENGTH),
+      dryRun: z.boolean().default(false),
+      duplicates: z.enum(["skip", "import"]).default("skip"),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      dryRun: z.boolean(),
+      todos: z.array(z.object({
+        line: z.number(),
+        title: z.string(),
+        completed: z.boolean(),
+        list: z.string().nullable(),
+        status: z.enum(["new", "duplicate"]),
+      })),
+      errors: z.array(z.object({ line: z.number(), message: z.string() })),
+      newLists: z.array(z.string()).describe("Lists that the import creates"),
+      createdIds: z.array(z.number()),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+
+      const parsed = parseTodoFile(context.format, context.content);
+      if (parsed.todos.length > IMPORT_MAX_TODOS) {
+        throw new TodoRequestError(
+          `A file can have at most ${IMPORT_MAX_TODOS} todos, this one has ${parsed.todos.length}`,
+        );
+      }
+      const errors = [...parsed.errors];
+
+      const lists = await db.select().from(listsTable)
+        .where(eq(listsTable.userId, userId));
+      const listsByName = new Map<string, typeof lists[number]>();
+      for (const list of lists) {
+        // Live lists win over archived ones with the same name
+        const other = listsByName.get(list.name.toLowerCase());
+        if (!other || other.archivedAt) {
+          listsByName.set(list.name.toLowerCase(), list);
+        }
+      }
+
+      const existing = await db.select({
+        title: todosTable.title,
+        listId: todosTable.listId,
+      }).from(todosTable)
+        .where(
+          and(eq(todosTable.userId, userId), isNull(todosTable.deletedAt)),
+        );
+      const seen = new Set(existing.map((todo) =>
+        duplicateKey(
+          todo.title ?? "",
+          lists.find((list) => list.id === todo.listId)?.name ?? null,
+        )
+      ));
+
+      const todos = [];
+      const newLists = new Map<string, string>();
+      for (const { line, todo } of parsed.todos) {
+        const list = todo.list
+          ? listsByName.get(todo.list.toLowerCase())
+          : undefined;
+        if (list?.archivedAt) {
+          errors.push({ line, message: `List "${list.name}" is archived` });
+          continue;
+        }
+        if (todo.list && !list) {
+          newLists.set(todo.list.toLowerCase(), todo.list);
+        }
+
+        const key = duplicateKey(todo.title, todo.list);
+        todos.push({
+          line,
+          todo,
+          status: seen.has(key) ? "duplicate" as const : "new" as const,
+        });
+        seen.add(key);
+      }
+      errors.sort((a, b) => a.line - b.line);
+
+      const result = {
+        dryRun: context.dryRun,
+        todos: todos.map(({ line, todo, status }) => ({
+          line,
+          title: todo.title,
+          completed: todo.completed,
+          list: todo.list,
+          status,
+        })),
+        errors,
+        newLists: [...newLists.values()],
+        createdIds: [] as number[],
+      };
+      if (context.dryRun) return result;
+
+      if (newLists.size > 0) {
+        const created = await db.insert(listsTable)
+          .values([...newLists.values()].map((name) => ({ userId, name })))
+          .returning();
+        created.forEach((list) =>
+          listsByName.set(list.name.toLowerCase(), list)
+        );
+      }
+
+      const imported = todos.filter(({ status }) =>
+        status === "new" || context.duplicates === "import"
+      );
+      const listIds = imported.map(({ todo }) =>
+        todo.list ? listsByName.get(todo.list.toLowerCase())!.id : null
+      );
+      const workflows = await findWorkflows(db, listIds);
+      const positions = new Map<number | null, number>();
+      const values = [];
+      for (const [index, { todo }] of imported.entries()) {
+        const listId = listIds[index];
+        const position = positions.get(listId) ??
+          await nextPosition(db, userId, listId);
+        positions.set(listId, position + 1);
+        values.push({
+          title: todo.title,
+          completed: todo.completed ? 1 : 0,
+          status: statusFor(workflows.get(listId)!, todo.completed),
+          dueAt: todo.dueAt ? new Date(todo.dueAt) : null,
+          listId,
+          priority: todo.priority,
+          recurrence: todo.recurrence,
+          position,
+          userId,
+        });
+      }
+
+      const tagNames = [...new Set(imported.flatMap(({ todo }) => todo.tags))];
+      const tagIds = await upsertTags(db, userId, tagNames);
+
+      // RETURNING has no order, so the inserted rows are matched back by
+      // their place, which no two imported todos share
+      const placeOf = (todo: { listId: number | null; position: number }) =>
+        `${todo.listId}/${todo.position}`;
+      const tagsByPlace = new Map(
+        values.map((value, index) => [
+          placeOf(value),
+          imported[index].todo.tags,
+        ]),
+      );
+
+      for (const batch of batches(values)) {
+        const rows = await db.insert(todosTable).values(batch).returning();
+        const todoTags = rows.flatMap((row) =>
+          tagsByPlace.get(placeOf(row))!.map((tag) => ({
+            todoId: row.id,
+            tagId: tagIds.get(tag)!,
+          }))
+        );
+        if (todoTags.length > 0) {
+          await db.insert(todoTagsTable).values(todoTags);
+        }
+
+        await recordTodoEvents(
+          env,
+          db,
+          { actorId: userId, source },
+          rows.map((row) => ({
+            todoId: row.id,
+            type: "created",
+            after: todoValues(toTodo(row)),
+          })),
+        );
+        result.createdIds.push(...rows.map((row) => row.id));
+      }
+
+      return result;
+    },
+  });
+
+export const transferTodoTools = [
+  createExportTodosTool,
+  createImportTodosTool,
+];
@@ -0,0 +1,164 @@
+/**
+ * Trash operations for todos: restoring deleted todos or deleting them for
+ * good. The trash itself is listed with LIST_TODOS and `deleted` set.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, eq, inArray } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todosTable } from "../../schema.ts";
+import { getDb } from "../../db.ts";
+import {
+  getCurrentUserId,
+  nextPosition,
+  ownedTodo,
+} from "../utils/todo-helpers.ts";
+import { TodoNotFoundError } from "../utils/todo-errors.ts";
+import {
+  diffTodo,
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+} from "../utils/todo-events.ts";
+import { syncReminder } from "../utils/todo-reminders.ts";
+import {
+  purgeTrashedTodos,
+  TRASH_RETENTION_DAYS,
+  trashedTodos,
+} from "../utils/todo-trash.ts";
+import { todoSchema, toTodo } from "../utils/todo-schemas.ts";
+import { nextVersion } from "../utils/todo-versions.ts";
+
+export const createRestoreTodoTool = (env: Env) =>
+  createPrivateTool({
+    id: "RESTORE_TODO",
+    description:
+      "Bring a todo back from the trash, with the subtasks that were deleted along with it. It goes to the end of its list, and becomes top-level when its parent is still in the trash",
+    inputSchema: z.object({
+      id: z.number(),
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      todo: todoSchema,
+      restoredIds: z.array(z.number()),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+
+      const trashed = await db.select().from(todosTable).where(
+        and(eq(todosTable.id, context.id), trashedTodos(userId)),
+      ).limit(1);
+
+      if (trashed.length === 0) {
+        throw new TodoNotFoundError("Todo not found in the trash");
+      }
+
+      // Subtasks deleted at the same time as the todo come back with it
+      const todo = trashed[0];
+      const restored = [todo];
+      let level = [todo.id];
+      while (level.length > 0) {
+        const children = await db.select().from(todosTable).where(
+          and(
+            inArray(todosTable.parentId, level),
+            trashedTodos(userId),
+            eq(todosTable.deletedAt, todo.deletedAt!),
+          ),
+        );
+        restored.push(...children);
+        level = children.map((child) => child.id);
+      }
+
+      let parentId = todo.parentId;
+      if (parentId !== null) {
+        const parent = await db.select({ id: todosTable.id })
+          .from(todosTable)
+          .where(ownedTodo(parentId, userId))
+          .limit(1);
+        if (parent.length === 0) parentId = null;
+      }
+
+      const restoredIds = restored.map((row) => row.id);
+      await db.update(todosTable)
+        .set({ deletedAt: null, version: nextVersion() })
+        .where(inArray(todosTable.id, restoredIds));
+
+      const updatedTodo = await db.update(todosTable)
+        .set({
+          parentId,
+          position: await nextPosition(db, userId, todo.listId, parentId),
+          version: nextVersion(),
+        })
+        .where(ownedTodo(todo.id, userId))
+        .returning();
+
+      // Reminders were cancelled on deletion
+      for (const row of restored) {
+        const reminderTriggerId = await syncReminder(env, {
+          ...row,
+          reminderTriggerId: null,
+        });
+        if (reminderTriggerId) {
+          await db.update(todosTable)
+            .set({ reminderTriggerId, version: nextVersion() })
+            .where(eq(todosTable.id, row.id));
+        }
+      }
+
+      await recordTodoEvents(
+        env,
+        db,
+        { actorId: userId, source },
+        restored.map((row) => ({
+          todoId: row.id,
+          type: "restored",
+          ...diffTodo(
+            toTodo(row),
+            toTodo(row.id === todo.id ? updatedTodo[0] : {
+              ...row,
+              deletedAt: null,
+            }),
+          ),
+        })),
+      );
+
+      return {
+        todo: toTodo(updatedTodo[0]),
+        restoredIds,
+      };
+    },
+  });
+
+export const createEmptyTrashTool = (env: Env) =>
+  createPrivateTool({
+    id: "EMPTY_TRASH",
+    description:
+      `Delete todos in the trash for good. Without ids, the whole trash is emptied. Todos are also purged automatically after ${TRASH_RETENTION_DAYS} days in the trash`,
+    inputSchema: z.object({
+      ids: z.array(z.number()).min(1).optional()
+        .describe("Only delete these todos of the trash"),
+    }),
+    outputSchema: z.object({
+      deletedIds: z.array(z.number()),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const deletedIds = await purgeTrashedTodos(
+        env,
+        db,
+        userId,
+        context.ids ? inArray(todosTable.id, context.ids) : undefined,
+      );
+
+      return { deletedIds };
+    },
+  });
+
+export const trashTodoTools = [
+  createRestoreTodoTool,
+  createEmptyTrashTool,
+];
@@ -0,0 +1,482 @@
+/**
+ * Update operations for todos.
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, eq, inArray, or } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todosTable, todoTagsTable } from "../../schema.ts";
+import { getBatchDb, getDb } from "../../db.ts";
+import {
+  assertTodoOwner,
+  assertValidParent,
+  type Db,
+  findVisibleTodo,
+  getCurrentUserId,
+  moveTodoTrees,
+  nextPositions,
+  siblingTodos,
+  updateVisibleTodo,
+  valueById,
+} from "../utils/todo-helpers.ts";
+import { TodoRequestError } from "../utils/todo-errors.ts";
+import { nextOccurrence, parseRecurrence } from "../utils/todo-recurrence.ts";
+import {
+  blockedMessage,
+  findOpenBlockers,
+} from "../utils/todo-dependencies.ts";
+import {
+  diffTodo,
+  executionIdSchema,
+  findEventSource,
+  recordTodoEvents,
+  type TodoEventSource,
+  todoValues,
+} from "../utils/todo-events.ts";
+import { cancelReminder, scheduleReminder } from "../utils/todo-reminders.ts";
+import {
+  assertTodoVersion,
+  expectedVersionSchema,
+  nextVersion,
+} from "../utils/todo-versions.ts";
+import {
+  findStatus,
+  findWorkflow,
+  findWorkflows,
+  statusFor,
+  type TodoStatus,
+} from "../utils/todo-statuses.ts";
+import {
+  parseTodoDate,
+  todoFieldsSchema,
+  todoSchema,
+  toTodo,
+} from "../utils/todo-schemas.ts";
+
+type TodoRow = typeof todosTable.$inferSelect;
+
+/**
+ * The statements that create the occurrences that follow completed
+ * recurring todos, each with the same title, list, parent, priority,
+ * assignee and tags, to run in one batch built with `batchDb`. Its due date
+ * is the next one of the rule (counted from the completed due date, or from
+ * now when there was none) and its reminder keeps the same distance to it.
+ * The rule moves to the new todo, so completing the old one again does not
+ * repeat it. Every statement covers all the todos. `nextById` takes the rows
+ * the first statement returns to the next occurrences by the id of the todo
+ * they follow.
+ */
+export const nextOccurrenceStatements = async (
+  db: Db,
+  batchDb: Db,
+  todos: TodoRow[],
+  timezoneOffset: number,
+) => {
+  const now = new Date();
+  const workflows = await findWorkflows(db, todos.map((todo) => todo.listId));
+  const positionAfter = await nextPositions(
+    db,
+    todos.map((todo) => ({ ...todo, userId: todo.userId! })),
+  );
+  const values = todos.map((todo) => {
+    const anchor = todo.dueAt ?? now;
+    const dueAt = nextOccurrence(parseRecurrence(todo.recurrence!), anchor, {
+      now,
+      timezoneOffset,
+    });
+
+    return {
+      title: todo.title,
+      completed: 0,
+      status: statusFor(workflows.get(todo.listId)!, false),
+      userId: todo.userId!,
+      dueAt,
+      remindAt: todo.remindAt
+        ? new Date(todo.remindAt.getTime() + dueAt.getTime() - anchor.getTime())
+        : null,
+      parentId: todo.parentId,
+      listId: todo.listId,
+      priority: todo.priority,
+      assigneeId: todo.assigneeId,
+      position: positionAfter({ ...todo, userId: todo.userId! }),
+      recurrence: todo.recurrence,
+    };
+  });
+
+  // RETURNING has no order, and the tags are copied before the new ids are
+  // known, so next occurrences are found by their place, which each has to
+  // itself among its siblings
+  const placeOf = (todo: typeof values[number] | TodoRow) =>
+    `${todo.userId}/${todo.listId}/${todo.parentId}/${todo.position}`;
+  const isPlacedAs = (next: typeof values[number]) =>
+    and(
+      siblingTodos(next.userId, next.listId, next.parentId),
+      eq(todosTable.position, next.position),
+    );
+
+  const ids = todos.map((todo) => todo.id);
+  return {
+    statements: [
+      batchDb.insert(todosTable).values(values).returning(),
+      batchDb.update(todosTable)
+        .set({ recurrence: null, version: nextVersion() })
+        .where(inArray(todosTable.id, ids)),
+      batchDb.insert(todoTagsTable).select(
+        batchDb.select({ todoId: todosTable.id, tagId: todoTagsTable.tagId })
+          .from(todoTagsTable)
+          .innerJoin(
+            todosTable,
+            or(...todos.map((todo, index) =>
+              and(
+                eq(todoTagsTable.todoId, todo.id),
+                isPlacedAs(values[index]),
+              )
+            )),
+          ),
+      ),
+    ] as const,
+    nextById: (inserted: TodoRow[]) => {
+      const insertedByPlace = new Map(
+        inserted.map((row) => [placeOf(row), row]),
+      );
+      return new Map(todos.map((todo, index) => [
+        todo.id,
+        insertedByPlace.get(placeOf(values[index]))!,
+      ]));
+    },
+  };
+};
+
+/**
+ * Schedules the reminders of next occurrences, returning them as they are
+ * then.
+ */
+export const scheduleNextReminders = async (
+  env: Env,
+  db: Db,
+  nextById: Map<number, TodoRow>,
+) => {
+  const reminded = [...nextById.values()].filter((next) => next.remindAt);
+  if (reminded.length === 0) return nextById;
+
+  const triggerIds = new Map<number, string | null>();
+  for (const next of reminded) {
+    triggerIds.set(next.id, await scheduleReminder(env, next));
+  }
+  const scheduled = await db.update(todosTable)
+    .set({ reminderTriggerId: valueById(triggerIds), version: nextVersion() })
+    .where(inArray(todosTable.id, [...triggerIds.keys()]))
+    .returning();
+  const scheduledById = new Map(scheduled.map((row) => [row.id, row]));
+  return new Map(
+    [...nextById].map(([id, next]) => [id, scheduledById.get(next.id) ?? next]),
+  );
+};
+
+/**
+ * Creates the occurrences that follow completed recurring todos (see
+ * `nextOccurrenceStatements`) and schedules their reminders. Returns the
+ * next occurrences by the id of the todo they follow.
+ */
+export const createNextOccurrences = async (
+  env: Env,
+  db: Db,
+  todos: TodoRow[],
+  timezoneOffset: number,
+) => {
+  if (todos.length === 0) return new Map<number, TodoRow>();
+
+  const batchDb = getBatchDb(env);
+  const next = await nextOccurrenceStatements(
+    db,
+    batchDb,
+    todos,
+    timezoneOffset,
+  );
+  const [inserted] = await batchDb.batch(next.statements);
+  return scheduleNextReminders(env, db, next.nextById(inserted));
+};
+
+/**
+ * Moves a todo to `status`. Moving it to a done status completes it, which
+ * is refused while it is blocked unless `force` is set, and creates the next
+ * occurrence of a recurring todo. Moving it to an open status reopens it.
+ */
+const changeTodoStatus = async (
+  env: Env,
+  db: Db,
+  currentTodo: typeof todosTable.$inferSelect,
+  status: TodoStatus,
+  { userId, expectedVersion, force, timezoneOffset, source }: {
+    userId: string;
+    expectedVersion?: number;
+    force: boolean;
+    timezoneOffset?: number;
+    source: TodoEventSource;
+  },
+) => {
+  const id = currentTodo.id;
+  const wasCompleted = currentTodo.completed === 1;
+  assertTodoVersion(currentTodo, expectedVersion);
+
+  if (status.done && !wasCompleted && !force) {
+    const blockers = (await findOpenBlockers(db, [id])).get(id);
+    if (blockers) {
+      throw new TodoRequestError(
+        `${blockedMessage(blockers)}. Complete them first, or set force`,
+      );
+    }
+  }
+
+  const updatedTodo = await updateVisibleTodo(db, userId, currentTodo, {
+    completed: status.done ? 1 : 0,
+    status: status.id,
+  });
+
+  const eventContext = { actorId: userId, source };
+  // Moving between two open (or two done) statuses is not a toggle
+  const type = status.done === wasCompleted ? "edited" : "toggled";
+
+  if (!status.done || wasCompleted || !currentTodo.recurrence) {
+    const todo = toTodo(updatedTodo);
+    const diff = diffTodo(toTodo(currentTodo), todo);
+    if (diff) {
+      await recordTodoEvents(env, db, eventContext, [
+        { todoId: id, type, ...diff },
+      ]);
+    }
+
+    return {
+      todo,
+      nextOccurrence: null,
+    };
+  }
+
+  const nextById = await createNextOccurrences(
+    env,
+    db,
+    [updatedTodo],
+    timezoneOffset ?? 0,
+  );
+  const next = toTodo(nextById.get(id)!);
+  const todo = toTodo(await findVisibleTodo(db, id, userId));
+
+  // The completed todo hands its recurrence over to the next one
+  await recordTodoEvents(env, db, eventContext, [
+    { todoId: id, type, ...diffTodo(toTodo(currentTodo), todo) },
+    { todoId: next.id, type: "created", after: todoValues(next) },
+  ]);
+
+  return {
+    todo,
+    nextOccurrence: next,
+  };
+};
+
+const timezoneOffsetSchema = z.number().int().min(-840).max(720).optional()
+  .describe(
+    "Client timezone offset in minutes, as returned by Date.getTimezoneOffset(). Weekdays and month days of recurrences are counted in it; defaults to UTC",
+  );
+
+export const createToggleTodoTool = (env: Env) =>
+  createPrivateTool({
+    id: "TOGGLE_TODO",
+    description:
+      "Toggle a todo's completion status, moving it to the first done (or open) status of its list's workflow. Completing a recurring todo creates its next occurrence. A todo cannot be completed while a todo blocking it (see ADD_TODO_DEPENDENCY) is open, unless force is set. Fails with a conflict when the todo is no longer at expectedVersion",
+    inputSchema: z.object({
+      id: z.number(),
+      timezoneOffset: timezoneOffsetSchema,
+      force: z.boolean().default(false)
+        .describe("Complete the todo even though it is blocked"),
+      expectedVersion: expectedVersionSchema,
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      todo: todoSchema,
+      nextOccurrence: todoSchema.nullable(),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+
+      const currentTodo = await findVisibleTodo(db, context.id, userId);
+      const workflow = await findWorkflow(db, currentTodo.listId);
+      const status = findStatus(
+        workflow,
+        statusFor(workflow, currentTodo.completed !== 1),
+      );
+
+      return changeTodoStatus(env, db, currentTodo, status, {
+        userId,
+        expectedVersion: context.expectedVersion,
+        force: context.force,
+        timezoneOffset: context.timezoneOffset,
+        source,
+      });
+    },
+  });
+
+export const createMoveTodoStatusTool = (env: Env) =>
+  createPrivateTool({
+    id: "MOVE_TODO_STATUS",
+    description:
+      "Move a todo to another status of its list's workflow (see LIST_LISTS), i.e. to another column of its board. Moving it to a done status completes it as TOGGLE_TODO does: blocked todos are refused unless force is set, and recurring todos create their next occurrence. Moving it to an open status reopens it. Fails with a conflict when the todo is no longer at expectedVersion",
+    inputSchema: z.object({
+      id: z.number(),
+      status: z.string().describe("Id of the status to move the todo to"),
+      timezoneOffset: timezoneOffsetSchema,
+      force: z.boolean().default(false)
+        .describe("Complete the todo even though it is blocked"),
+      expectedVersion: expectedVersionSchema,
+      executionId: executionIdSchema,
+    }),
+    outputSchema: z.object({
+      todo: todoSchema,
+      nextOccurrence: todoSchema.nullable(),
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+
+      const currentTodo = await findVisibleTodo(db, context.id, userId);
+      const workflow = await findWorkflow(db, currentTodo.listId);
+      const status = findStatus(workflow, context.status);
+
+      return changeTodoStatus(env, db, currentTodo, status, {
+        userId,
+        expectedVersion: context.expectedVersion,
+        force: context.force,
+        timezoneOffset: context.timezoneOffset,
+        source,
+      });
+    },
+  });
+
+export const createUpdateTodoTool = (env: Env) =>
+  createPrivateTool({
+    id: "UPDATE_TODO",
+    description:
+      "Partially update a todo. Only the given fields are changed; unknown fields are rejected. Changing remindAt reschedules the reminder, changing parentId moves the todo (and its subtasks) under another todo and into its list, which only its owner can do. Pass expectedVersion to fail with a conflict instead of overwriting a newer change. Completing or reopening a todo moves it to the first done (or open) status of its workflow; use MOVE_TODO_STATUS for other statuses. Blocked todos cannot be completed",
+    inputSchema: todoFieldsSchema.partial().extend({
+      id: z.number(),
+      expectedVersion: expectedVersionSchema,
+      executionId: executionIdSchema,
+    }).strict(),
+    outputSchema: z.object({
+      todo: todoSchema,
+    }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      const source = await findEventSource(db, userId, context.executionId);
+      const {
+        id,
+        title,
+        completed,
+        dueAt,
+        remindAt,
+        parentId,
+        priority,
+        recurrence,
+      } = context;
+
+      if (
+        title === undefined && completed === undefined &&
+        dueAt === undefined && remindAt === undefined &&
+        parentId === undefined && priority === undefined &&
+        recurrence === undefined
+      ) {
+        throw new TodoRequestError("Nothing to update");
+      }
+
+      const currentTodo = await findVisibleTodo(db, id, userId);
+      assertTodoVersion(currentTodo, context.expectedVersion);
+
+      if (completed && !currentTodo.completed) {
+        const blockers = (await findOpenBlockers(db, [id])).get(id);
+        if (blockers) {
+          throw new TodoRequestError(
+            `${
+              blockedMessage(blockers)
+            }. Use TOGGLE_TODO with force to complete it anyway`,
+          );
+        }
+      }
+
+      if (parentId !== undefined) {
+        assertTodoOwner(currentTodo, userId, "move");
+      }
+      const listId = parentId
+        ? (await assertValidParent(db, userId, parentId, id)).listId
+        : currentTodo.listId;
+
+      // Completing or reopening takes the first done (or open) status
+      const status = completed === undefined ||
+          completed === (currentTodo.completed === 1)
+        ? undefined
+        : statusFor(await findWorkflow(db, listId), completed);
+
+      // A new reminder time gets its trigger before anything is written, so
+      // a reminder that cannot be scheduled changes nothing
+      const reminderTriggerId = remindAt === undefined
+        ? undefined
+        : await scheduleReminder(env, {
+          id,
+          title: title ?? currentTodo.title,
+          remindAt: parseTodoDate(remindAt) ?? null,
+        });
+
+      let updatedTodo;
+      try {
+        updatedTodo = await updateVisibleTodo(db, userId, currentTodo, {
+          title,
+          completed: completed === undefined ? undefined : completed ? 1 : 0,
+          status,
+          dueAt: parseTodoDate(dueAt),
+          remindAt: parseTodoDate(remindAt),
+          parentId,
+          priority,
+          recurrence,
+          ...(reminderTriggerId === undefined
+            ? {}
+            : { reminderTriggerId, remindedAt: null }),
+        });
+      } catch (error) {
+        await cancelReminder(env, reminderTriggerId ?? null);
+        throw error;
+      }
+      if (remindAt !== undefined) {
+        await cancelReminder(env, currentTodo.reminderTriggerId);
+      }
+
+      // Subtasks follow their new parent's list, once nothing conflicted
+      if (listId !== currentTodo.listId) {
+        await moveTodoTrees(env, db, userId, [id], listId);
+        updatedTodo = await findVisibleTodo(db, id, userId);
+      }
+
+      const todo = toTodo(updatedTodo);
+
+      const diff = diffTodo(toTodo(currentTodo), todo);
+      if (diff) {
+        await recordTodoEvents(
+          env,
+          db,
+          { actorId: userId, source },
+          [{ todoId: id, type: "edited", ...diff }],
+        );
+      }
+
+      return {
+        todo,
+      };
+    },
+  });
+
+export const updateTodoTools = [
+  createToggleTodoTool,
+  createMoveTodoStatusTool,
+  createUpdateTodoTool,
+];
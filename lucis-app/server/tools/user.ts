@@ -4,10 +4,12 @@
  * This file contains all tools related to user operations including:
  * - Getting current user information
  * - User authentication checks
+ * - Listing the members of the team, who can be mentioned in comments
  */
 import { createPrivateTool } from "@deco/workers-runtime/mastra";
 import { z } from "zod";
 import type { Env } from "../main.ts";
+import { listTeamMembers } from "../team.ts";
 
 /**
  * `createPrivateTool` is a wrapper around `createTool` that
@@ -45,7 +47,25 @@ export const createGetUserTool = (env: Env) =>
     },
   });
 
+export const createListTeamMembersTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_TEAM_MEMBERS",
+    description:
+      "List the members of the team the app is installed in, with the handle to @mention them by in comments and the id to assign todos to them with ASSIGN_TODO. Empty in a personal workspace",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      members: z.array(z.object({
+        id: z.string(),
+        handle: z.string(),
+        name: z.string().nullable(),
+        avatar: z.string().nullable(),
+      })),
+    }),
+    execute: async () => ({ members: await listTeamMembers(env) }),
+  });
+
 // Export all user-related tools
 export const userTools = [
   createGetUserTool,
+  createListTeamMembersTool,
 ];
@@ -0,0 +1,121 @@
+/**
+ * Storage of the files attached to todos.
+ *
+ * The bytes never go through the app: UPLOAD_ATTACHMENT hands out a
+ * temporary FS_WRITE URL the browser PUTs the file to, and
+ * COMPLETE_ATTACHMENT_UPLOAD checks what arrived with FS_READ_METADATA
+ * before the attachment is listed. Downloads are temporary FS_READ URLs.
+ *
+ * Files of a todo in the trash are kept, so restoring it brings them back;
+ * they are deleted when the todo is purged for good.
+ */
+import { z } from "zod";
+import { and, eq, inArray, lt, type SQL } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { todoAttachmentsTable } from "../../schema.ts";
+import type { Db } from "./todo-helpers.ts";
+
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const ATTACHMENTS_PER_TODO = 20;
+
+/**
+ * Seconds the upload URL of an attachment is valid for.
+ */
+export const UPLOAD_URL_TTL = 5 * 60;
+
+/**
+ * Uploads still pending this long after their URL was handed out were
+ * abandoned and are deleted.
+ */
+const STALE_UPLOAD_MS = 60 * 60 * 1000;
+
+/**
+ * Types that can be attached. SVG and HTML are left out on purpose: opened
+ * from their download URL, they could run scripts.
+ */
+export const attachmentContentTypes = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  "application/json",
+  "application/zip",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+] as const;
+
+/**
+ * What FS_READ_METADATA reports about a file, from the HEAD of its object
+ * in the workspace bucket: `contentType` and `contentLength` in bytes. Its
+ * output is untyped in the generated bindings, so it is parsed here.
+ */
+const fileMetadataSchema = z.object({
+  contentType: z.string(),
+  contentLength: z.number().int().min(0),
+});
+
+export const attachmentPath = (
+  userId: string,
+  todoId: number,
+  filename: string,
+) =>
+  `attachments/${userId}/${todoId}/${crypto.randomUUID()}-${
+    filename.replace(/[^\w.-]+/g, "_")
+  }`;
+
+/**
+ * The type and size of the file at `path`, or `null` when they are not
+ * both reported, so an upload that cannot be checked is never accepted.
+ * Throws when there is no file.
+ */
+export const readFileMetadata = async (env: Env, path: string) => {
+  const metadata = fileMetadataSchema.safeParse(
+    await env.DECO_CHAT_WORKSPACE_API.FS_READ_METADATA({ path }),
+  );
+  return metadata.success ? metadata.data : null;
+};
+
+/**
+ * Deletes the attachments matching `where` with their files. A file that
+ * cannot be deleted is logged and left behind, so it never blocks deleting
+ * the todo.
+ */
+export const deleteAttachments = async (env: Env, db: Db, where: SQL) => {
+  const attachments = await db.delete(todoAttachmentsTable)
+    .where(where)
+    .returning({ path: todoAttachmentsTable.path });
+
+  for (const { path } of attachments) {
+    try {
+      await env.DECO_CHAT_WORKSPACE_API.FS_DELETE({ path });
+    } catch (error) {
+      console.error("Failed to delete attachment file:", error);
+    }
+  }
+};
+
+export const deleteTodoAttachments = (env: Env, db: Db, todoIds: number[]) =>
+  deleteAttachments(env, db, inArray(todoAttachmentsTable.todoId, todoIds));
+
+/**
+ * Deletes the uploads of `userId` that were never completed.
+ */
+export const purgeStaleUploads = (env: Env, db: Db, userId: string) =>
+  deleteAttachments(
+    env,
+    db,
+    and(
+      eq(todoAttachmentsTable.userId, userId),
+      eq(todoAttachmentsTable.status, "pending"),
+      lt(
+        todoAttachmentsTable.createdAt,
+        new Date(Date.now() - STALE_UPLOAD_MS),
+      ),
+    )!,
+  );
@@ -0,0 +1,117 @@
+/**
+ * The CSV format of EXPORT_TODOS and IMPORT_TODOS: a header row with the
+ * names of the `PortableTodo` fields, then one todo per row. Tags are
+ * separated by commas.
+ */
+import type { ParsedRecord, PortableTodo } from "./todo-formats.ts";
+
+const CSV_COLUMNS = [
+  "title",
+  "completed",
+  "priority",
+  "dueAt",
+  "list",
+  "tags",
+  "recurrence",
+] as const;
+
+const csvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+
+/**
+ * Splits CSV into rows of fields (RFC 4180), with the line each row starts
+ * on. Quoted fields may contain commas, quotes and line breaks.
+ */
+const parseCsvRows = (content: string) => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === "\n") line++;
+
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (content[i + 1] === '"') field += content[++i];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+        line++;
+      } else if (char === "\r") {
+        line++;
+      }
+      endRow();
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || fields.length > 0) endRow();
+
+  return rows;
+};
+
+export const parseCsv = (content: string) => {
+  const [header, ...rows] = parseCsvRows(content);
+  const columns = header?.fields.map((name) => name.trim()) ?? [];
+  if (!columns.includes("title")) {
+    return {
+      records: [],
+      errors: [{ line: 1, message: "The header has no title column" }],
+    };
+  }
+
+  const records = rows.map(({ line, fields }): ParsedRecord => {
+    const row = Object.fromEntries(
+      columns.map((column, index) => [column, fields[index]?.trim() ?? ""]),
+    );
+    return {
+      line,
+      value: {
+        title: row.title,
+        completed: ["true", "1", "x", "yes"].includes(
+          row.completed?.toLowerCase() ?? "",
+        ),
+        priority: row.priority || undefined,
+        dueAt: row.dueAt || null,
+        list: row.list || null,
+        tags: row.tags ? row.tags.split(/\s*,\s*/).filter(Boolean) : [],
+        recurrence: row.recurrence || null,
+      },
+    };
+  });
+
+  return { records, errors: [] };
+};
+
+export const formatCsv = (todos: PortableTodo[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...todos.map((todo) =>
+      CSV_COLUMNS.map((column) => {
+        const value = todo[column];
+        return csvField(
+          Array.isArray(value) ? value.join(", ") : String(value ?? ""),
+        );
+      }).join(",")
+    ),
+  ].join("\r\n");
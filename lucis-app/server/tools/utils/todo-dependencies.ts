@@ -0,0 +1,117 @@
+/**
+ * "Blocked by" links between todos (see `todoDependenciesTable`).
+ *
+ * A todo is blocked while any of its blockers is open, i.e. neither
+ * completed nor in the trash. Links only join todos the user can see, and
+ * a link that would close a cycle is refused, so every chain of blockers
+ * ends.
+ */
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { todoDependenciesTable, todosTable } from "../../schema.ts";
+import { accessibleTodos, type Db } from "./todo-helpers.ts";
+
+/**
+ * Matches the dependencies whose two todos `userId` can see, leaving out
+ * the trash.
+ */
+export const visibleDependencies = (db: Db, userId: string) => {
+  const visibleIds = db.select({ id: todosTable.id }).from(todosTable)
+    .where(and(accessibleTodos(userId), isNull(todosTable.deletedAt)));
+
+  return and(
+    inArray(todoDependenciesTable.todoId, visibleIds),
+    inArray(todoDependenciesTable.blockedById, visibleIds),
+  );
+};
+
+/**
+ * Ids of the todos blocking `todoId`, smallest first.
+ */
+export const getBlockerIds = async (db: Db, todoId: number) => {
+  const blockers = await db.select({
+    id: todoDependenciesTable.blockedById,
+  })
+    .from(todoDependenciesTable)
+    .where(eq(todoDependenciesTable.todoId, todoId))
+    .orderBy(todoDependenciesTable.blockedById);
+
+  return blockers.map((blocker) => blocker.id);
+};
+
+/**
+ * Whether `todoId` already blocks `blockedById`, directly or through other
+ * todos, in which case `blockedById` cannot block `todoId` in turn.
+ */
+export const wouldCreateCycle = async (
+  db: Db,
+  todoId: number,
+  blockedById: number,
+) => {
+  if (todoId === blockedById) return true;
+
+  const seen = new Set([blockedById]);
+  let level = [blockedById];
+  while (level.length > 0) {
+    const blockers = await db.select({
+      id: todoDependenciesTable.blockedById,
+    })
+      .from(todoDependenciesTable)
+      .where(inArray(todoDependenciesTable.todoId, level));
+
+    level = [];
+    for (const { id } of blockers) {
+      if (id === todoId) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      level.push(id);
+    }
+  }
+
+  return false;
+};
+
+interface Blocker {
+  id: number;
+  title: string | null;
+}
+
+/**
+ * The open blockers of each of the given todos that has any.
+ */
+export const findOpenBlockers = async (db: Db, todoIds: number[]) => {
+  const openBlockers = new Map<number, Blocker[]>();
+  if (todoIds.length === 0) return openBlockers;
+
+  const rows = await db.select({
+    todoId: todoDependenciesTable.todoId,
+    id: todosTable.id,
+    title: todosTable.title,
+  })
+    .from(todoDependenciesTable)
+    .innerJoin(
+      todosTable,
+      eq(todosTable.id, todoDependenciesTable.blockedById),
+    )
+    .where(and(
+      inArray(todoDependenciesTable.todoId, todoIds),
+      eq(todosTable.completed, 0),
+      isNull(todosTable.deletedAt),
+    ))
+    .orderBy(todosTable.id);
+
+  for (const { todoId, ...blocker } of rows) {
+    openBlockers.set(todoId, [...(openBlockers.get(todoId) ?? []), blocker]);
+  }
+
+  return openBlockers;
+};
+
+/**
+ * Why a todo cannot be completed yet, naming its open blockers.
+ */
+export const blockedMessage = (blockers: Blocker[]) =>
+  `Blocked by open todos: ${
+    blockers.map((blocker) =>
+      blocker.title ? `#${blocker.id} "${blocker.title}"` : `#${blocker.id}`
+    ).join(", ")
+  }`;
@@ -0,0 +1,22 @@
+/**
+ * Errors of requests to the todo tools.
+ *
+ * A tool throws a TodoRequestError when the request cannot be done as
+ * asked, such as a change that is not allowed, and a TodoNotFoundError when
+ * something it names does not exist or is not the user's to see. Any other
+ * error is a failure of the server, such as the database being unavailable.
+ * The REST API (see api.ts) reports each kind with its own status.
+ */
+export class TodoRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TodoRequestError";
+  }
+}
+
+export class TodoNotFoundError extends TodoRequestError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TodoNotFoundError";
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * History of the changes made to todos.
+ *
+ * Every tool that changes a todo records it through `recordTodoEvents`,
+ * with the values of the changed fields before and after the change. Where
+ * the change came from is decided here rather than by the caller: changes
+ * are made by a person unless they carry the `executionId` of a run of
+ * AI_TOOL_EXECUTOR, which passes it on every call made by the code it
+ * generates (see `findEventSource`).
+ */
+import { z } from "zod";
+import { and, eq, gt } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import {
+  aiExecutionsTable,
+  todoEventSources,
+  todoEventsTable,
+  todoEventTypes,
+} from "../../schema.ts";
+import { dispatchTodoEvents } from "../../subscriptions.ts";
+import { TodoRequestError } from "./todo-errors.ts";
+import type { Db } from "./todo-helpers.ts";
+import type { Todo } from "./todo-schemas.ts";
+
+export type TodoEventSource = typeof todoEventSources[number];
+
+export const executionIdSchema = z.string().optional()
+  .describe("Set by AI_TOOL_EXECUTOR on the calls of the code it runs");
+
+/**
+ * Where the changes of a tool call come from: AI_TOOL_EXECUTOR when it
+ * carries the id of one of its runs for `userId` that is still in
+ * progress, a person when it carries none. Only inbound webhooks record
+ * changes as coming from a webhook.
+ */
+export const findEventSource = async (
+  db: Db,
+  userId: string,
+  executionId: string | undefined,
+): Promise<TodoEventSource> => {
+  if (executionId === undefined) return "user";
+
+  const execution = await db.select({ id: aiExecutionsTable.id })
+    .from(aiExecutionsTable)
+    .where(and(
+      eq(aiExecutionsTable.id, executionId),
+      eq(aiExecutionsTable.userId, userId),
+      gt(aiExecutionsTable.expiresAt, new Date()),
+    ))
+    .limit(1);
+  if (execution.length === 0) {
+    throw new TodoRequestError("Unknown or finished AI_TOOL_EXECUTOR run");
+  }
+
+  return "AI_TOOL_EXECUTOR";
+};
+
+export type TodoValues = Partial<
+  Omit<Todo, "id" | "position" | "ownerId" | "version">
+>;
+
+/**
+ * What links a todo to others rather than a value of its own: its tags and
+ * the todos blocking it.
+ */
+type TodoLinks = { tags: string[] } | { blockedBy: number[] };
+
+export interface TodoEvent {
+  todoId: number;
+  type: typeof todoEventTypes[number];
+  before?: TodoValues | TodoLinks | null;
+  after?: TodoValues | TodoLinks | null;
+}
+
+/**
+ * The values of a todo worth keeping in its history. The id is already on
+ * the event, the owner never changes, the manual order changes too often to
+ * be of interest and the version changes with everything else.
+ */
+export const todoValues = (
+  { id: _, position: __, ownerId: ___, version: ____, ...values }: Todo,
+): TodoValues => values;
+
+/**
+ * The fields that differ between two versions of a todo, or `null` when
+ * nothing changed.
+ */
+export const diffTodo = (before: Todo, after: Todo) => {
+  const previous = todoValues(before) as Record<string, unknown>;
+  const next = todoValues(after) as Record<string, unknown>;
+  const changed = Object.keys(next).filter((key) =>
+    previous[key] !== next[key]
+  );
+  if (changed.length === 0) return null;
+
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, previous[key]])),
+    after: Object.fromEntries(changed.map((key) => [key, next[key]])),
+  };
+};
+
+/**
+ * Adds events to the history of their todos and sends them to the webhook
+ * subscriptions of their owners and assignees (see `subscriptions.ts`).
+ */
+export const recordTodoEvents = async (
+  env: Env,
+  db: Db,
+  { actorId, source }: { actorId: string; source: TodoEventSource },
+  events: TodoEvent[],
+) => {
+  if (events.length === 0) return;
+
+  const createdAt = new Date();
+  await db.insert(todoEventsTable).values(
+    events.map((event) => ({
+      todoId: event.todoId,
+      actorId,
+      source,
+      type: event.type,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      createdAt,
+    })),
+  );
+
+  await dispatchTodoEvents(env, db, { actorId, source }, events);
+};
@@ -0,0 +1,199 @@
+/**
+ * Conversion of todos to and from the file formats of EXPORT_TODOS and
+ * IMPORT_TODOS.
+ *
+ * Todos are exchanged as `PortableTodo`s, which refer to their list and
+ * tags by name so a file can be imported by another user. Subtasks are
+ * exported as plain todos. Not every format keeps every field:
+ * - json: everything
+ * - csv: everything, see `todo-csv.ts`
+ * - markdown: a GitHub checklist per list, with only titles and completion
+ * - todotxt: everything, see `todo-txt.ts`
+ */
+import { z } from "zod";
+import { formatCsv, parseCsv } from "./todo-csv.ts";
+import { recurrenceSchema } from "./todo-recurrence.ts";
+import {
+  listNameSchema,
+  tagNameSchema,
+  todoPrioritySchema,
+  todoTitleSchema,
+} from "./todo-schemas.ts";
+import { formatTodoTxt, parseTodoTxt } from "./todo-txt.ts";
+
+export const todoFileFormats = ["json", "csv", "markdown", "todotxt"] as const;
+
+export type TodoFileFormat = typeof todoFileFormats[number];
+
+export const todoFileTypes: Record<
+  TodoFileFormat,
+  { extension: string; mimeType: string }
+> = {
+  json: { extension: "json", mimeType: "application/json" },
+  csv: { extension: "csv", mimeType: "text/csv" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  todotxt: { extension: "txt", mimeType: "text/plain" },
+};
+
+/**
+ * Dates without a time, as todo.txt and most spreadsheets write them, are
+ * read as midnight UTC.
+ */
+const dateSchema = z.preprocess(
+  (value) =>
+    typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? `${value}T00:00:00.000Z`
+      : value,
+  z.string().datetime({ offset: true, message: "Invalid due date" }),
+);
+
+export const portableTodoSchema = z.object({
+  title: todoTitleSchema,
+  completed: z.boolean().default(false),
+  priority: todoPrioritySchema.default("none"),
+  dueAt: dateSchema.nullable().default(null),
+  list: listNameSchema.nullable().default(null)
+    .describe("Name of the list of the todo; null for the inbox"),
+  tags: z.array(tagNameSchema).default([])
+    .transform((tags) => [...new Set(tags)]),
+  recurrence: recurrenceSchema.default(null),
+});
+
+export type PortableTodo = z.infer<typeof portableTodoSchema>;
+
+/**
+ * A todo read from a file, before validation. `line` is where it is in the
+ * file: its line, or its position in the array for JSON.
+ */
+export interface ParsedRecord {
+  line: number;
+  value: unknown;
+}
+
+export interface ParseError {
+  line: number;
+  message: string;
+}
+
+const parseJson = (content: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return {
+      records: [],
+      errors: [
+        { line: 1, message: `Invalid JSON: ${(error as Error).message}` },
+      ],
+    };
+  }
+
+  const todos = Array.isArray(data)
+    ? data
+    : (data as { todos?: unknown })?.todos;
+  if (!Array.isArray(todos)) {
+    return {
+      records: [],
+      errors: [{ line: 1, message: "Expected an array of todos" }],
+    };
+  }
+
+  return {
+    records: todos.map((value, index) => ({ line: index + 1, value })),
+    errors: [],
+  };
+};
+
+const INBOX_HEADING = "Inbox";
+
+const parseMarkdown = (content: string) => {
+  const records: ParsedRecord[] = [];
+  let list: string | null = null;
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const heading = /^#{1,6}\s+(.*?)\s*#*$/.exec(text);
+    if (heading) {
+      list = heading[1] === INBOX_HEADING ? null : heading[1];
+      return;
+    }
+    // Other lines are prose and are left out
+    const item = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/.exec(text);
+    if (item) {
+      records.push({
+        line: index + 1,
+        value: { title: item[2], completed: item[1] !== " ", list },
+      });
+    }
+  });
+
+  return { records, errors: [] };
+};
+
+/**
+ * Reads the todos of a file, validating each of them. Invalid todos are
+ * reported as errors with their line, and do not stop the others.
+ */
+export const parseTodoFile = (format: TodoFileFormat, content: string) => {
+  const parsers = {
+    json: parseJson,
+    csv: parseCsv,
+    markdown: parseMarkdown,
+    todotxt: parseTodoTxt,
+  };
+  const { records, errors } = parsers[format](content);
+
+  const todos: { line: number; todo: PortableTodo }[] = [];
+  const allErrors: ParseError[] = [...errors];
+  for (const { line, value } of records) {
+    const result = portableTodoSchema.safeParse(value);
+    if (result.success) {
+      todos.push({ line, todo: result.data });
+    } else {
+      const issue = result.error.issues[0];
+      allErrors.push({
+        line,
+        message: issue.path.length
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message,
+      });
+    }
+  }
+
+  return { todos, errors: allErrors };
+};
+
+const toMarkdown = (todos: PortableTodo[]) => {
+  const lists = new Map<string, PortableTodo[]>();
+  for (const todo of todos) {
+    const list = todo.list ?? INBOX_HEADING;
+    lists.set(list, [...(lists.get(list) ?? []), todo]);
+  }
+  return [...lists].map(([list, items]) =>
+    [
+      `## ${list}`,
+      "",
+      ...items.map((todo) =>
+        `- [${todo.completed ? "x" : " "}] ${todo.title.replace(/\s+/g, " ")}`
+      ),
+    ].join("\n")
+  ).join("\n\n");
+};
+
+/**
+ * Writes todos in one of the file formats.
+ */
+export const formatTodoFile = (
+  format: TodoFileFormat,
+  todos: PortableTodo[],
+) => {
+  switch (format) {
+    case "json":
+      return JSON.stringify({ todos }, null, 2);
+    case "csv":
+      return formatCsv(todos);
+    case "markdown":
+      return toMarkdown(todos);
+    case "todotxt":
+      return formatTodoTxt(todos);
+  }
+};
@@ -0,0 +1,520 @@
+/**
+ * Helpers shared by the todo tools.
+ *
+ * Every todo query goes through these so that it is scoped to the
+ * authenticated user: todos of other users are neither listed nor changed,
+ * and are reported as not found, unless they are assigned to the user. So
+ * are todos in the trash, which only the trash tools deal with.
+ *
+ * Assignees can see and change a todo (`visibleTodo`), while deleting it,
+ * moving it around lists and assigning it are left to its owner
+ * (`ownedTodo`).
+ */
+import { and, eq, inArray, isNull, max, or, sql } from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import {
+  listsTable,
+  tagsTable,
+  todosTable,
+  todoTagsTable,
+} from "../../schema.ts";
+import { getBatchDb, getDb } from "../../db.ts";
+import { TodoNotFoundError, TodoRequestError } from "./todo-errors.ts";
+import {
+  findWorkflow,
+  syncStatusStatements,
+  type TodoStatus,
+} from "./todo-statuses.ts";
+import { nextVersion, TodoConflictError } from "./todo-versions.ts";
+
+export type Db = Awaited<ReturnType<typeof getDb>>;
+
+/**
+ * Returns the user making the request. Throws (and the tool fails with
+ * 401) when the request is not authenticated.
+ */
+export const getCurrentUser = (env: Env) => {
+  const user = env.DECO_CHAT_REQUEST_CONTEXT.ensureAuthenticated();
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return user;
+};
+
+export const getCurrentUserId = (env: Env) => getCurrentUser(env).id;
+
+/**
+ * Matches a todo by id, but only when it belongs to `userId` and is not in
+ * the trash.
+ */
+export const ownedTodo = (id: number, userId: string) =>
+  and(
+    eq(todosTable.id, id),
+    eq(todosTable.userId, userId),
+    isNull(todosTable.deletedAt),
+  );
+
+/**
+ * Loads a todo owned by `userId`, throwing when it does not exist.
+ */
+export const findOwnedTodo = async (db: Db, id: number, userId: string) => {
+  const todo = await db.select().from(todosTable).where(
+    ownedTodo(id, userId),
+  ).limit(1);
+
+  if (todo.length === 0) {
+    throw new TodoNotFoundError("Todo not found");
+  }
+
+  return todo[0];
+};
+
+/**
+ * Matches the todos `userId` owns or is assigned to, trashed or not.
+ */
+export const accessibleTodos = (userId: string) =>
+  or(eq(todosTable.userId, userId), eq(todosTable.assigneeId, userId));
+
+/**
+ * Matches a todo by id when `userId` owns it or is assigned to it, and it
+ * is not in the trash.
+ */
+export const visibleTodo = (id: number, userId: string) =>
+  and(
+    eq(todosTable.id, id),
+    accessibleTodos(userId),
+    isNull(todosTable.deletedAt),
+  );
+
+/**
+ * Loads a todo `userId` owns or is assigned to, throwing when it does not
+ * exist.
+ */
+export const findVisibleTodo = async (db: Db, id: number, userId: string) => {
+  const todo = await db.select().from(todosTable).where(
+    visibleTodo(id, userId),
+  ).limit(1);
+
+  if (todo.length === 0) {
+    throw new TodoNotFoundError("Todo not found");
+  }
+
+  return todo[0];
+};
+
+/**
+ * Writes `values` to a todo `userId` can see, moving it to its next version,
+ * but only while it is still at the version it was read at. Throws a
+ * TodoConflictError when another change got in between.
+ */
+export const updateVisibleTodo = async (
+  db: Db,
+  userId: string,
+  todo: { id: number; version: number },
+  values: Partial<typeof todosTable.$inferInsert>,
+) => {
+  const updated = await db.update(todosTable)
+    .set({ ...values, version: todo.version + 1 })
+    .where(and(
+      visibleTodo(todo.id, userId),
+      eq(todosTable.version, todo.version),
+    ))
+    .returning();
+
+  if (updated.length === 0) {
+    const latest = await findVisibleTodo(db, todo.id, userId);
+    throw new TodoConflictError(todo.id, todo.version, latest.version);
+  }
+
+  return updated[0];
+};
+
+/**
+ * Throws unless `userId` owns `todo`; assignees cannot do what only owners
+ * can.
+ */
+export const assertTodoOwner = (
+  todo: { userId: string | null },
+  userId: string,
+  action: string,
+) => {
+  if (todo.userId !== userId) {
+    throw new TodoRequestError(`Only the owner of a todo can ${action} it`);
+  }
+};
+
+/**
+ * Every todo below `ids` in the subtask tree, closest first, including those
+ * in the trash. It takes one query per level of the tree, however many todos
+ * there are.
+ */
+export const findDescendants = async (
+  db: Db,
+  ids: number[],
+  userId: string,
+) => {
+  const descendants: { id: number; reminderTriggerId: string | null }[] = [];
+  const seen = new Set(ids);
+  let level = ids;
+
+  while (level.length > 0) {
+    const children = await db.select({
+      id: todosTable.id,
+      reminderTriggerId: todosTable.reminderTriggerId,
+    }).from(todosTable).where(
+      and(
+        inArray(todosTable.parentId, level),
+        eq(todosTable.userId, userId),
+      ),
+    );
+    // A todo under another of `ids` is one of them, not a descendant
+    const unseen = children.filter((child) => !seen.has(child.id));
+    unseen.forEach((child) => seen.add(child.id));
+    descendants.push(...unseen);
+    level = unseen.map((child) => child.id);
+  }
+
+  return descendants;
+};
+
+/**
+ * Loads a list owned by `userId`, throwing when it does not exist.
+ */
+export const findOwnedList = async (db: Db, id: number, userId: string) => {
+  const list = await db.select().from(listsTable).where(
+    and(eq(listsTable.id, id), eq(listsTable.userId, userId)),
+  ).limit(1);
+
+  if (list.length === 0) {
+    throw new TodoNotFoundError("List not found");
+  }
+
+  return list[0];
+};
+
+/**
+ * Ensures todos can be added to `listId`: it must be a list of `userId`
+ * that is not archived. `null` (the inbox) is always valid.
+ */
+export const assertWritableList = async (
+  db: Db,
+  userId: string,
+  listId: number | null,
+) => {
+  if (listId === null) return;
+
+  const list = await findOwnedList(db, listId, userId);
+  if (list.archivedAt) {
+    throw new TodoRequestError("List is archived");
+  }
+};
+
+/**
+ * Matches the siblings of a todo: the todos of `userId` in the same list and
+ * under the same parent, leaving out the trash.
+ */
+export const siblingTodos = (
+  userId: string,
+  listId: number | null,
+  parentId: number | null | undefined,
+) =>
+  and(
+    eq(todosTable.userId, userId),
+    listId === null ? isNull(todosTable.listId) : eq(todosTable.listId, listId),
+    parentId ? eq(todosTable.parentId, parentId) : isNull(todosTable.parentId),
+    isNull(todosTable.deletedAt),
+  );
+
+/**
+ * Position that places a new todo after all of its siblings.
+ */
+export const nextPosition = async (
+  db: Db,
+  userId: string,
+  listId: number | null,
+  parentId?: number | null,
+) => {
+  const last = await db.select({ position: max(todosTable.position) })
+    .from(todosTable)
+    .where(siblingTodos(userId, listId, parentId));
+
+  return (last[0]?.position ?? 0) + 1;
+};
+
+interface Siblings {
+  userId: string;
+  listId: number | null;
+  parentId: number | null;
+}
+
+const siblingsKey = ({ userId, listId, parentId }: Siblings) =>
+  `${userId}/${listId}/${parentId}`;
+
+/**
+ * `nextPosition` for many todos at once, in a single query. Returns a
+ * function giving the position after the siblings each time it is called,
+ * so todos placed among the same siblings follow each other.
+ */
+export const nextPositions = async (db: Db, siblings: Siblings[]) => {
+  const groups = new Map(siblings.map((group) => [siblingsKey(group), group]));
+  const last = groups.size === 0 ? [] : await db.select({
+    userId: todosTable.userId,
+    listId: todosTable.listId,
+    parentId: todosTable.parentId,
+    position: max(todosTable.position),
+  })
+    .from(todosTable)
+    .where(or(
+      ...[...groups.values()].map((group) =>
+        siblingTodos(group.userId, group.listId, group.parentId)
+      ),
+    ))
+    .groupBy(todosTable.userId, todosTable.listId, todosTable.parentId);
+
+  const positions = new Map(
+    last.map((row) => [
+      siblingsKey({ ...row, userId: row.userId! }),
+      row.position ?? 0,
+    ]),
+  );
+  return (group: Siblings) => {
+    const position = (positions.get(siblingsKey(group)) ?? 0) + 1;
+    positions.set(siblingsKey(group), position);
+    return position;
+  };
+};
+
+/**
+ * A different value for each todo, to update many todos in one statement:
+ * a CASE over their ids.
+ */
+export const valueById = <T>(values: Map<number, T>) =>
+  sql<T>`CASE ${todosTable.id} ${
+    sql.join(
+      [...values].map(([id, value]) => sql`WHEN ${id} THEN ${value}`),
+      sql` `,
+    )
+  } END`;
+
+/**
+ * The ids of todos and all of their subtasks.
+ */
+const findTreeIds = async (db: Db, ids: number[], userId: string) => {
+  const descendants = await findDescendants(db, ids, userId);
+  return [...ids, ...descendants.map((descendant) => descendant.id)];
+};
+
+/**
+ * The statements that move the todos of `treeIds` to `listId`, into the
+ * statuses of its `workflow`.
+ */
+const moveTreeStatements = (
+  db: Db,
+  userId: string,
+  treeIds: number[],
+  listId: number | null,
+  workflow: TodoStatus[],
+) => {
+  const moved = and(
+    inArray(todosTable.id, treeIds),
+    eq(todosTable.userId, userId),
+  );
+  return [
+    db.update(todosTable).set({ listId, version: nextVersion() }).where(moved),
+    ...syncStatusStatements(db, moved, workflow),
+  ] as const;
+};
+
+/**
+ * Moves todos and all of their subtasks to `listId`, into the statuses of
+ * its workflow, in one batch. Returns the ids of the moved todos.
+ */
+export const moveTodoTrees = async (
+  env: Env,
+  db: Db,
+  userId: string,
+  ids: number[],
+  listId: number | null,
+) => {
+  const treeIds = await findTreeIds(db, ids, userId);
+  const workflow = await findWorkflow(db, listId);
+
+  const batchDb = getBatchDb(env);
+  await batchDb.batch(
+    moveTreeStatements(batchDb, userId, treeIds, listId, workflow),
+  );
+
+  return treeIds;
+};
+
+/**
+ * Moves todos, with their subtasks, to the end of `listId`. A moved subtask
+ * whose parent stays in another list becomes top-level. What the move needs
+ * is read first, then it is made in one batch, so it happens to all the
+ * todos or none. Returns the moved todos.
+ */
+export const moveTodosToList = async (
+  env: Env,
+  db: Db,
+  userId: string,
+  todos: { id: number; parentId: number | null }[],
+  listId: number | null,
+) => {
+  const movedIds = new Set(
+    await findTreeIds(db, todos.map((todo) => todo.id), userId),
+  );
+
+  // Moved todos go to the end of the target list, unless their parent
+  // moved with them
+  const placed = todos.filter((todo) =>
+    todo.parentId === null || !movedIds.has(todo.parentId)
+  );
+
+  // Subtasks cannot live in a different list than their parent
+  const parentIds = placed.flatMap((todo) =>
+    todo.parentId === null ? [] : [todo.parentId]
+  );
+  const parents = parentIds.length === 0 ? [] : await db.select({
+    id: todosTable.id,
+    listId: todosTable.listId,
+  }).from(todosTable).where(and(
+    inArray(todosTable.id, parentIds),
+    eq(todosTable.userId, userId),
+    isNull(todosTable.deletedAt),
+  ));
+  const keptParentIds = new Set(
+    parents.filter((parent) => parent.listId === listId)
+      .map((parent) => parent.id),
+  );
+
+  const parentIdOf = new Map(placed.map((todo) => [
+    todo.id,
+    todo.parentId !== null && keptParentIds.has(todo.parentId)
+      ? todo.parentId
+      : null,
+  ]));
+  const positionAfter = await nextPositions(
+    db,
+    [...parentIdOf.values()].map((parentId) => ({ userId, listId, parentId })),
+  );
+  const positionOf = new Map(
+    [...parentIdOf].map(([id, parentId]) => [
+      id,
+      positionAfter({ userId, listId, parentId }),
+    ]),
+  );
+
+  const workflow = await findWorkflow(db, listId);
+
+  const batchDb = getBatchDb(env);
+  await batchDb.batch([
+    ...moveTreeStatements(batchDb, userId, [...movedIds], listId, workflow),
+    ...placed.length === 0 ? [] : [
+      batchDb.update(todosTable)
+        .set({
+          parentId: valueById(parentIdOf),
+          position: valueById(positionOf),
+          version: nextVersion(),
+        })
+        .where(inArray(todosTable.id, [...parentIdOf.keys()])),
+    ],
+  ]);
+
+  return db.select().from(todosTable)
+    .where(inArray(todosTable.id, [...movedIds]));
+};
+
+/**
+ * Ensures `parentId` is a todo of `userId` that can hold `todoId` as a
+ * subtask, i.e. it is neither the todo itself nor one of its descendants.
+ * Returns the parent, whose list the subtask belongs to.
+ */
+export const assertValidParent = async (
+  db: Db,
+  userId: string,
+  parentId: number,
+  todoId?: number,
+) => {
+  const parent = await db.select({
+    id: todosTable.id,
+    listId: todosTable.listId,
+  })
+    .from(todosTable)
+    .where(ownedTodo(parentId, userId))
+    .limit(1);
+
+  if (parent.length === 0) {
+    throw new TodoNotFoundError("Parent todo not found");
+  }
+
+  // A todo being created has no subtasks yet, so it cannot form a cycle
+  if (todoId === undefined) return parent[0];
+
+  let ancestorId: number | null = parentId;
+  while (ancestorId !== null) {
+    if (ancestorId === todoId) {
+      throw new TodoRequestError("A todo cannot be a subtask of itself or its subtasks");
+    }
+    const ancestor: { parentId: number | null }[] = await db.select({
+      parentId: todosTable.parentId,
+    }).from(todosTable).where(eq(todosTable.id, ancestorId)).limit(1);
+
+    ancestorId = ancestor[0]?.parentId ?? null;
+  }
+
+  return parent[0];
+};
+
+/**
+ * Creates the tags of `userId` named `names` that do not exist yet, and
+ * returns the ids of all of them by name.
+ */
+export const upsertTags = async (db: Db, userId: string, names: string[]) => {
+  const tagIds = new Map<string, number>();
+  if (names.length === 0) return tagIds;
+
+  await db.insert(tagsTable)
+    .values(names.map((name) => ({ userId, name })))
+    .onConflictDoNothing();
+  const tags = await db.select().from(tagsTable).where(
+    and(eq(tagsTable.userId, userId), inArray(tagsTable.name, names)),
+  );
+  tags.forEach((tag) => tagIds.set(tag.name, tag.id));
+
+  return tagIds;
+};
+
+/**
+ * Tag names of each of the given todos (or of all todos of the user when
+ * `todoIds` is omitted), sorted by name. The tags of given todos are those
+ * of their owners, so todos assigned to the user show them too.
+ */
+export const getTodoTagNames = async (
+  db: Db,
+  userId: string,
+  todoIds?: number[],
+) => {
+  const tagNames = new Map<number, string[]>();
+  if (todoIds?.length === 0) return tagNames;
+
+  const rows = await db.select({
+    todoId: todoTagsTable.todoId,
+    name: tagsTable.name,
+  })
+    .from(todoTagsTable)
+    .innerJoin(tagsTable, eq(tagsTable.id, todoTagsTable.tagId))
+    .where(
+      todoIds
+        ? inArray(todoTagsTable.todoId, todoIds)
+        : eq(tagsTable.userId, userId),
+    )
+    .orderBy(tagsTable.name);
+
+  for (const row of rows) {
+    tagNames.set(row.todoId, [...(tagNames.get(row.todoId) ?? []), row.name]);
+  }
+
+  return tagNames;
+};
@@ -0,0 +1,173 @@
+/**
+ * Filters, sorting and cursors used to list todos.
+ *
+ * Pagination is keyset based: a cursor holds the sort value and the id of
+ * the last todo of a page, and the next page starts right after it. This
+ * stays correct while todos are added or removed, unlike offsets.
+ */
+import { z } from "zod";
+import {
+  and,
+  countDistinct,
+  eq,
+  gt,
+  gte,
+  inArray,
+  lt,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { tagsTable, todosTable, todoTagsTable } from "../../schema.ts";
+import { TodoRequestError } from "./todo-errors.ts";
+import { accessibleTodos, type Db } from "./todo-helpers.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the current day for a client whose clock is `timezoneOffset`
+ * minutes behind UTC (the value of `Date.prototype.getTimezoneOffset`).
+ */
+const startOfToday = (timezoneOffset: number) => {
+  const offsetMs = timezoneOffset * 60 * 1000;
+  const localNow = Date.now() - offsetMs;
+  return new Date(localNow - (localNow % DAY_MS) + offsetMs);
+};
+
+export const dueFilter = (
+  due: "overdue" | "today" | "upcoming",
+  timezoneOffset: number,
+) => {
+  const todayStart = startOfToday(timezoneOffset);
+  const tomorrowStart = new Date(todayStart.getTime() + DAY_MS);
+
+  switch (due) {
+    case "overdue":
+      return and(
+        lt(todosTable.dueAt, new Date()),
+        eq(todosTable.completed, 0),
+      );
+    case "today":
+      return and(
+        gte(todosTable.dueAt, todayStart),
+        lt(todosTable.dueAt, tomorrowStart),
+      );
+    case "upcoming":
+      return gte(todosTable.dueAt, tomorrowStart);
+  }
+};
+
+/**
+ * Matches todos `userId` can access tagged with any (or all) of `tags`.
+ * Tags are matched by name, as the tags of a todo are its owner's: an
+ * assignee filtering by a tag also finds the todos shared with them.
+ */
+export const tagFilter = (
+  db: Db,
+  userId: string,
+  tags: string[],
+  match: "any" | "all",
+) => {
+  const names = [...new Set(tags)];
+  const taggedTodos = db.select({ todoId: todoTagsTable.todoId })
+    .from(todoTagsTable)
+    .innerJoin(tagsTable, eq(tagsTable.id, todoTagsTable.tagId))
+    .innerJoin(todosTable, eq(todosTable.id, todoTagsTable.todoId))
+    .where(and(accessibleTodos(userId), inArray(tagsTable.name, names)))
+    .groupBy(todoTagsTable.todoId);
+
+  return inArray(
+    todosTable.id,
+    match === "all"
+      ? taggedTodos.having(eq(countDistinct(tagsTable.name), names.length))
+      : taggedTodos,
+  );
+};
+
+/**
+ * Case-insensitive substring match on the title. `%` and `_` in `text`
+ * match themselves.
+ */
+export const textFilter = (text: string) => {
+  const pattern = `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  return sql`${todosTable.title} like ${pattern} escape '\\'`;
+};
+
+export const todoSorts = [
+  "position",
+  "created",
+  "title",
+  "completed",
+  "priority",
+] as const;
+
+export type TodoSort = typeof todoSorts[number];
+
+/**
+ * The value todos are ordered by for each sort. Ties are broken by id.
+ */
+export const sortExpression = (sort: TodoSort): SQL => {
+  switch (sort) {
+    case "position":
+      return sql`${todosTable.position}`;
+    case "created":
+      // Ids grow with every insert, so they follow creation order
+      return sql`${todosTable.id}`;
+    case "title":
+      return sql`lower(coalesce(${todosTable.title}, ''))`;
+    case "completed":
+      return sql`coalesce(${todosTable.completed}, 0)`;
+    case "priority":
+      return sql`case ${todosTable.priority} when 'high' then 3 when 'medium' then 2 when 'low' then 1 else 0 end`;
+  }
+};
+
+const cursorSchema = z.object({
+  sort: z.enum(todoSorts),
+  order: z.enum(["asc", "desc"]),
+  value: z.union([z.string(), z.number()]),
+  id: z.number(),
+});
+
+export type TodoCursor = z.infer<typeof cursorSchema>;
+
+/**
+ * Cursors are opaque to clients: base64 of their JSON.
+ */
+export const encodeCursor = (cursor: TodoCursor) =>
+  btoa(
+    String.fromCharCode(...new TextEncoder().encode(JSON.stringify(cursor))),
+  );
+
+export const decodeCursor = (
+  encoded: string,
+  sort: TodoSort,
+  order: "asc" | "desc",
+) => {
+  let cursor: TodoCursor;
+  try {
+    const bytes = Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+    cursor = cursorSchema.parse(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    throw new TodoRequestError("Invalid cursor");
+  }
+
+  if (cursor.sort !== sort || cursor.order !== order) {
+    throw new TodoRequestError("The cursor belongs to a different sort order");
+  }
+
+  return cursor;
+};
+
+/**
+ * Matches the todos that come after `cursor` in its sort order.
+ */
+export const afterCursor = (cursor: TodoCursor) => {
+  const expression = sortExpression(cursor.sort);
+  const after = cursor.order === "asc" ? gt : lt;
+
+  return or(
+    after(expression, cursor.value),
+    and(eq(expression, cursor.value), after(todosTable.id, cursor.id)),
+  );
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatRecurrence,
+  nextOccurrence,
+  parseRecurrence,
+} from "./todo-recurrence.ts";
+
+const next = (
+  rrule: string,
+  anchor: string,
+  options?: { now?: string; timezoneOffset?: number },
+) =>
+  nextOccurrence(parseRecurrence(rrule), new Date(anchor), {
+    now: options?.now ? new Date(options.now) : undefined,
+    timezoneOffset: options?.timezoneOffset,
+  }).toISOString();
+
+describe("parseRecurrence", () => {
+  it("stores rules in canonical form", () => {
+    expect(formatRecurrence(parseRecurrence("RRULE:freq=weekly;byday=we,mo")))
+      .toBe("FREQ=WEEKLY;BYDAY=MO,WE");
+    expect(formatRecurrence(parseRecurrence("FREQ=DAILY;INTERVAL=1")))
+      .toBe("FREQ=DAILY");
+  });
+
+  it("rejects rules outside the supported subset", () => {
+    expect(() => parseRecurrence("FREQ=YEARLY")).toThrow();
+    expect(() => parseRecurrence("FREQ=DAILY;COUNT=3")).toThrow();
+    expect(() => parseRecurrence("FREQ=DAILY;INTERVAL=0")).toThrow();
+    expect(() => parseRecurrence("FREQ=MONTHLY;BYMONTHDAY=32")).toThrow();
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("repeats daily rules every INTERVAL days", () => {
+    expect(next("FREQ=DAILY", "2025-01-10T09:00:00.000Z"))
+      .toBe("2025-01-11T09:00:00.000Z");
+    expect(next("FREQ=DAILY;INTERVAL=3", "2025-01-10T09:00:00.000Z"))
+      .toBe("2025-01-13T09:00:00.000Z");
+  });
+
+  it("goes through the BYDAY weekdays of every INTERVAL weeks", () => {
+    const rrule = "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE";
+    // Monday, then Wednesday of the same week
+    expect(next(rrule, "2025-01-06T09:00:00.000Z"))
+      .toBe("2025-01-08T09:00:00.000Z");
+    // Skips the Monday of the week in between
+    expect(next(rrule, "2025-01-08T09:00:00.000Z"))
+      .toBe("2025-01-20T09:00:00.000Z");
+  });
+
+  it("repeats weekly rules without BYDAY on the weekday of the anchor", () => {
+    expect(next("FREQ=WEEKLY", "2025-01-09T09:00:00.000Z"))
+      .toBe("2025-01-16T09:00:00.000Z");
+  });
+
+  it("uses the last day of months shorter than BYMONTHDAY", () => {
+    const rrule = "FREQ=MONTHLY;BYMONTHDAY=31";
+    expect(next(rrule, "2025-01-31T09:00:00.000Z"))
+      .toBe("2025-02-28T09:00:00.000Z");
+    expect(next(rrule, "2024-01-31T09:00:00.000Z"))
+      .toBe("2024-02-29T09:00:00.000Z");
+    // Back to the 31st once the month has one
+    expect(next(rrule, "2025-02-28T09:00:00.000Z"))
+      .toBe("2025-03-31T09:00:00.000Z");
+  });
+
+  it("moves to BYMONTHDAY later in the month of the anchor", () => {
+    const rrule = "FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15";
+    expect(next(rrule, "2025-01-10T09:00:00.000Z"))
+      .toBe("2025-01-15T09:00:00.000Z");
+    expect(next(rrule, "2025-01-15T09:00:00.000Z"))
+      .toBe("2025-03-15T09:00:00.000Z");
+  });
+
+  it("skips the occurrences already past when completed late", () => {
+    expect(
+      next("FREQ=DAILY", "2025-01-10T09:00:00.000Z", {
+        now: "2025-01-15T12:00:00.000Z",
+      }),
+    ).toBe("2025-01-16T09:00:00.000Z");
+    expect(
+      next("FREQ=WEEKLY;BYDAY=MO", "2025-01-06T09:00:00.000Z", {
+        now: "2025-01-20T09:00:00.000Z",
+      }),
+    ).toBe("2025-01-27T09:00:00.000Z");
+  });
+
+  it("evaluates weekdays and month days in the client timezone", () => {
+    // Monday 22:00 at UTC-3 is already Tuesday in UTC
+    expect(
+      next("FREQ=WEEKLY;BYDAY=MO", "2025-01-07T01:00:00.000Z", {
+        timezoneOffset: 180,
+      }),
+    ).toBe("2025-01-14T01:00:00.000Z");
+    expect(next("FREQ=WEEKLY;BYDAY=MO", "2025-01-07T01:00:00.000Z"))
+      .toBe("2025-01-13T01:00:00.000Z");
+
+    // The 1st at 00:30 at UTC+2 is still the last day of the month in UTC
+    expect(
+      next("FREQ=MONTHLY;BYMONTHDAY=1", "2025-01-31T22:30:00.000Z", {
+        timezoneOffset: -120,
+      }),
+    ).toBe("2025-02-28T22:30:00.000Z");
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Recurrence rules for repeating todos.
+ *
+ * Rules are stored as a subset of iCalendar RRULEs (RFC 5545):
+ * - `FREQ=DAILY;INTERVAL=n`: every n days
+ * - `FREQ=WEEKLY;INTERVAL=n;BYDAY=MO,WE`: on the given weekdays, every n weeks
+ * - `FREQ=MONTHLY;INTERVAL=n;BYMONTHDAY=d`: on day d, every n months. Months
+ *   shorter than d use their last day.
+ *
+ * Weekdays and month days are evaluated in the client timezone, given as a
+ * `Date.getTimezoneOffset()` value. Nothing in here touches the database,
+ * so the next-occurrence logic is tested on its own (todo-recurrence.test.ts).
+ */
+import { z } from "zod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * RRULE weekday codes, indexed like `Date.getUTCDay()`.
+ */
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+export type Recurrence =
+  | { freq: "DAILY"; interval: number }
+  | { freq: "WEEKLY"; interval: number; byDay: number[] }
+  | { freq: "MONTHLY"; interval: number; byMonthDay: number };
+
+/**
+ * Parses an RRULE of the supported subset, with or without the `RRULE:`
+ * prefix. Throws on anything else.
+ */
+export const parseRecurrence = (rrule: string): Recurrence => {
+  const parts = new Map<string, string>();
+  for (const part of rrule.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      throw new Error(`Invalid recurrence rule: ${rrule}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const interval = Number(parts.get("INTERVAL") ?? "1");
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error("INTERVAL must be a positive integer");
+  }
+
+  const supported = new Set(["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY"]);
+  for (const key of parts.keys()) {
+    if (!supported.has(key)) {
+      throw new Error(`Unsupported recurrence part: ${key}`);
+    }
+  }
+
+  switch (parts.get("FREQ")) {
+    case "DAILY":
+      if (parts.has("BYDAY") || parts.has("BYMONTHDAY")) break;
+      return { freq: "DAILY", interval };
+    case "WEEKLY": {
+      if (parts.has("BYMONTHDAY")) break;
+      const byDay = (parts.get("BYDAY") ?? "").split(",").filter(Boolean)
+        .map((day) => WEEKDAYS.indexOf(day as typeof WEEKDAYS[number]));
+      if (byDay.includes(-1)) {
+        throw new Error("BYDAY must list weekdays such as MO,WE,FR");
+      }
+      return {
+        freq: "WEEKLY",
+        interval,
+        byDay: [...new Set(byDay)].sort((a, b) => a - b),
+      };
+    }
+    case "MONTHLY": {
+      if (parts.has("BYDAY")) break;
+      const byMonthDay = Number(parts.get("BYMONTHDAY"));
+      if (
+        !Number.isInteger(byMonthDay) || byMonthDay < 1 || byMonthDay > 31
+      ) {
+        throw new Error("BYMONTHDAY must be a day between 1 and 31");
+      }
+      return { freq: "MONTHLY", interval, byMonthDay };
+    }
+  }
+
+  throw new Error(`Unsupported recurrence rule: ${rrule}`);
+};
+
+/**
+ * Canonical RRULE for a recurrence, without the `RRULE:` prefix.
+ */
+export const formatRecurrence = (recurrence: Recurrence) => {
+  const parts = [`FREQ=${recurrence.freq}`];
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+
+  if (recurrence.freq === "WEEKLY" && recurrence.byDay.length > 0) {
+    const byDay = recurrence.byDay.map((day) => WEEKDAYS[day]);
+    parts.push(`BYDAY=${byDay.join(",")}`);
+  }
+  if (recurrence.freq === "MONTHLY") {
+    parts.push(`BYMONTHDAY=${recurrence.byMonthDay}`);
+  }
+
+  return parts.join(";");
+};
+
+/**
+ * Validates an RRULE and stores it in canonical form. `null` removes the
+ * recurrence.
+ */
+export const recurrenceSchema = z.string()
+  .transform((value, ctx) => {
+    try {
+      return formatRecurrence(parseRecurrence(value));
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return z.NEVER;
+    }
+  })
+  .nullable()
+  .describe(
+    "iCalendar RRULE subset: FREQ=DAILY, FREQ=WEEKLY;BYDAY=MO,WE or FREQ=MONTHLY;BYMONTHDAY=15, each with an optional INTERVAL=n",
+  );
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Monday-based index of the week containing `local`, to count the weeks
+ * between two dates.
+ */
+const weekIndex = (local: Date) =>
+  Math.floor((local.getTime() / DAY_MS + 3) / 7);
+
+/**
+ * The first occurrence strictly after `from` (shifted to local time), keeping
+ * the time of day of `from`.
+ */
+const nextLocalOccurrence = (recurrence: Recurrence, from: Date) => {
+  switch (recurrence.freq) {
+    case "DAILY":
+      return new Date(from.getTime() + recurrence.interval * DAY_MS);
+    case "WEEKLY": {
+      const byDay = recurrence.byDay.length > 0
+        ? recurrence.byDay
+        : [from.getUTCDay()];
+      // Checking two full periods always finds the next matching day
+      for (let days = 1; days <= 14 * recurrence.interval; days++) {
+        const candidate = new Date(from.getTime() + days * DAY_MS);
+        const weeks = weekIndex(candidate) - weekIndex(from);
+        if (
+          weeks % recurrence.interval === 0 &&
+          byDay.includes(candidate.getUTCDay())
+        ) {
+          return candidate;
+        }
+      }
+      throw new Error("No next occurrence found");
+    }
+    case "MONTHLY": {
+      // Either later this month or in the month `interval` months ahead
+      for (const periods of [0, 1]) {
+        const year = from.getUTCFullYear();
+        const month = from.getUTCMonth() + periods * recurrence.interval;
+        const day = Math.min(
+          recurrence.byMonthDay,
+          daysInMonth(year, month),
+        );
+        const candidate = new Date(Date.UTC(
+          year,
+          month,
+          day,
+          from.getUTCHours(),
+          from.getUTCMinutes(),
+          from.getUTCSeconds(),
+          from.getUTCMilliseconds(),
+        ));
+        if (candidate > from) return candidate;
+      }
+      throw new Error("No next occurrence found");
+    }
+  }
+};
+
+/**
+ * Next occurrence of `recurrence` after `anchor` (usually the due date of
+ * the completed todo). Occurrences that are already past `now` are skipped,
+ * so a routine completed late does not come back overdue.
+ */
+export const nextOccurrence = (
+  recurrence: Recurrence,
+  anchor: Date,
+  { now = anchor, timezoneOffset = 0 }: {
+    now?: Date;
+    timezoneOffset?: number;
+  } = {},
+) => {
+  const offsetMs = timezoneOffset * 60 * 1000;
+  const localNow = new Date(now.getTime() - offsetMs);
+  let local = new Date(anchor.getTime() - offsetMs);
+
+  do {
+    local = nextLocalOccurrence(recurrence, local);
+  } while (local <= localNow);
+
+  return new Date(local.getTime() + offsetMs);
+};
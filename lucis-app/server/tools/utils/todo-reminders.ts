@@ -0,0 +1,94 @@
+/**
+ * Reminder scheduling for todos.
+ *
+ * A reminder is a cron trigger on the workspace that calls
+ * FIRE_TODO_REMINDER at the todo's `remindAt`. Cron expressions have no
+ * year field, so the trigger would match the same minute every year;
+ * FIRE_TODO_REMINDER deletes its trigger the first time it runs.
+ */
+import type { Env } from "../../main.ts";
+import { TodoRequestError } from "./todo-errors.ts";
+
+export const REMINDER_TOOL_NAME = "FIRE_TODO_REMINDER";
+
+/**
+ * Cron expression (in UTC) matching the minute of `date`.
+ */
+const toCronExpression = (date: Date) =>
+  [
+    date.getUTCMinutes(),
+    date.getUTCHours(),
+    date.getUTCDate(),
+    date.getUTCMonth() + 1,
+    "*",
+  ].join(" ");
+
+export const cancelReminder = async (env: Env, triggerId: string | null) => {
+  if (!triggerId) return;
+
+  try {
+    await env.DECO_CHAT_WORKSPACE_API.TRIGGERS_DELETE({ id: triggerId });
+  } catch (error) {
+    // The trigger may already be gone, which must not block todo changes
+    console.error("Failed to delete reminder trigger:", error);
+  }
+};
+
+/**
+ * Creates the reminder trigger of a todo for `remindAt`, returning its id,
+ * or null when there is nothing to remind about. Throws a TodoRequestError
+ * when it cannot be created, so callers schedule it before they write the
+ * todo, or undo the write.
+ */
+export const scheduleReminder = async (
+  env: Env,
+  todo: { id: number; title: string | null; remindAt: Date | null },
+) => {
+  if (!todo.remindAt || todo.remindAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const integrationId = env.DECO_CHAT_REQUEST_CONTEXT.integrationId;
+  if (!integrationId) {
+    throw new TodoRequestError(
+      "Reminders are only available on an installed app",
+    );
+  }
+
+  try {
+    const trigger = await env.DECO_CHAT_WORKSPACE_API.TRIGGERS_CREATE_CRON({
+      title: `Reminder: ${todo.title ?? "todo"}`,
+      description: `Reminds about todo #${todo.id}`,
+      type: "cron",
+      cronExp: toCronExpression(todo.remindAt),
+      callTool: {
+        integrationId,
+        toolName: REMINDER_TOOL_NAME,
+        arguments: { id: todo.id },
+      },
+    }) as { id?: string };
+
+    return trigger.id ?? null;
+  } catch (error) {
+    console.error("Failed to create reminder trigger:", error);
+    throw new TodoRequestError("The reminder could not be scheduled");
+  }
+};
+
+/**
+ * Replaces the reminder trigger of a todo so that it matches `remindAt`.
+ * Returns the id of the new trigger, or null when there is nothing left
+ * to remind about.
+ */
+export const syncReminder = async (
+  env: Env,
+  todo: {
+    id: number;
+    title: string | null;
+    remindAt: Date | null;
+    reminderTriggerId: string | null;
+  },
+) => {
+  await cancelReminder(env, todo.reminderTriggerId);
+  return await scheduleReminder(env, todo);
+};
@@ -0,0 +1,135 @@
+/**
+ * Zod schemas and row mappers shared by the todo tools.
+ */
+import { z } from "zod";
+import { todoPriorities, todosTable } from "../../schema.ts";
+import { recurrenceSchema } from "./todo-recurrence.ts";
+
+export const TODO_TITLE_MAX_LENGTH = 200;
+
+export const todoTitleSchema = z.string()
+  .trim()
+  .min(1, "Title cannot be empty")
+  .max(
+    TODO_TITLE_MAX_LENGTH,
+    `Title must be at most ${TODO_TITLE_MAX_LENGTH} characters`,
+  );
+
+export const TAG_NAME_MAX_LENGTH = 32;
+
+/**
+ * Tag names are case-insensitive, so they are stored in lowercase.
+ */
+export const tagNameSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tag cannot be empty")
+  .max(
+    TAG_NAME_MAX_LENGTH,
+    `Tag must be at most ${TAG_NAME_MAX_LENGTH} characters`,
+  );
+
+export const LIST_NAME_MAX_LENGTH = 60;
+
+export const listNameSchema = z.string()
+  .trim()
+  .min(1, "List name cannot be empty")
+  .max(
+    LIST_NAME_MAX_LENGTH,
+    `List name must be at most ${LIST_NAME_MAX_LENGTH} characters`,
+  );
+
+export const todoPrioritySchema = z.enum(todoPriorities);
+
+/**
+ * Dates cross the tool boundary as ISO 8601 strings. `null` clears them.
+ */
+export const todoDateSchema = z.string().datetime({ offset: true }).nullable();
+
+/**
+ * Fields a user is allowed to set on a todo, either on creation or
+ * through a partial update.
+ */
+export const todoFieldsSchema = z.object({
+  title: todoTitleSchema,
+  completed: z.boolean(),
+  dueAt: todoDateSchema,
+  remindAt: todoDateSchema,
+  parentId: z.number().int().nullable()
+    .describe("Makes the todo a subtask of this todo; null makes it top-level"),
+  priority: todoPrioritySchema,
+  recurrence: recurrenceSchema,
+});
+
+export const todoSchema = z.object({
+  id: z.number(),
+  title: z.string().nullable(),
+  completed: z.boolean(),
+  status: z.string()
+    .describe("Status of the todo in the workflow of its list"),
+  dueAt: z.string().nullable(),
+  remindAt: z.string().nullable(),
+  remindedAt: z.string().nullable(),
+  parentId: z.number().nullable(),
+  listId: z.number().nullable(),
+  priority: todoPrioritySchema,
+  position: z.number(),
+  recurrence: z.string().nullable(),
+  deletedAt: z.string().nullable()
+    .describe("When the todo was moved to the trash"),
+  ownerId: z.string().nullable()
+    .describe("Id of the user the todo belongs to"),
+  assigneeId: z.string().nullable()
+    .describe("Id of the team member the todo is assigned to"),
+  version: z.number()
+    .describe("Goes up with every change; see expectedVersion"),
+});
+
+export type Todo = z.infer<typeof todoSchema>;
+
+export type ListedTodo = Todo & {
+  tags: string[];
+  subtasks: { completed: number; total: number };
+  children?: ListedTodo[];
+};
+
+/**
+ * A todo as returned by LIST_TODOS: with its tags, the completion count of
+ * its direct subtasks and, when listing as a tree, the subtasks themselves.
+ */
+export const listedTodoSchema: z.ZodType<ListedTodo> = todoSchema.extend({
+  tags: z.array(z.string()),
+  subtasks: z.object({
+    completed: z.number(),
+    total: z.number(),
+  }),
+  children: z.lazy(() => z.array(listedTodoSchema)).optional(),
+});
+
+/**
+ * Converts a database row into the shape returned by the tools.
+ */
+export const toTodo = (row: typeof todosTable.$inferSelect): Todo => ({
+  id: row.id,
+  title: row.title,
+  completed: row.completed === 1,
+  status: row.status,
+  dueAt: row.dueAt?.toISOString() ?? null,
+  remindAt: row.remindAt?.toISOString() ?? null,
+  remindedAt: row.remindedAt?.toISOString() ?? null,
+  parentId: row.parentId,
+  listId: row.listId,
+  priority: row.priority,
+  position: row.position,
+  recurrence: row.recurrence,
+  deletedAt: row.deletedAt?.toISOString() ?? null,
+  ownerId: row.userId,
+  assigneeId: row.assigneeId,
+  version: row.version,
+});
+
+/**
+ * Parses an optional date field: `undefined` means "leave unchanged".
+ */
+export const parseTodoDate = (value: string | null | undefined) =>
+  value === undefined ? undefined : value === null ? null : new Date(value);
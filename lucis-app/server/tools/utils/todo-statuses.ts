@@ -0,0 +1,157 @@
+/**
+ * Workflow statuses of todos.
+ *
+ * Each list has a workflow: the ordered statuses its todos go through,
+ * which are the columns of its board. Some of them count as done, and the
+ * `completed` flag of a todo always mirrors whether its status is one of
+ * those. So completing a todo the old way (TOGGLE_TODO, UPDATE_TODO, bulk
+ * actions) moves it to the first done status of its workflow, and reopening
+ * it to the first open one. Lists without a workflow of their own, and the
+ * inbox, use DEFAULT_WORKFLOW.
+ */
+import { z } from "zod";
+import { and, eq, inArray, notInArray, type SQL } from "drizzle-orm";
+import { listsTable, todosTable } from "../../schema.ts";
+import { TodoRequestError } from "./todo-errors.ts";
+import type { Db } from "./todo-helpers.ts";
+import { nextVersion } from "./todo-versions.ts";
+
+export const WORKFLOW_MAX_STATUSES = 10;
+
+export const todoStatusSchema = z.object({
+  id: z.string()
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      "Status ids are lowercase words separated by dashes",
+    )
+    .max(32, "Status id must be at most 32 characters")
+    .describe("Stable id of the status, kept when it is renamed"),
+  name: z.string()
+    .trim()
+    .min(1, "Status name cannot be empty")
+    .max(32, "Status name must be at most 32 characters"),
+  done: z.boolean()
+    .describe("Whether todos in this status count as completed"),
+});
+
+export type TodoStatus = z.infer<typeof todoStatusSchema>;
+
+/**
+ * A workflow needs somewhere to put open todos and somewhere to put
+ * completed ones.
+ */
+export const workflowSchema = z.array(todoStatusSchema)
+  .min(2)
+  .max(WORKFLOW_MAX_STATUSES)
+  .superRefine((statuses, ctx) => {
+    const ids = statuses.map((status) => status.id);
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({ code: "custom", message: "Status ids must be unique" });
+    }
+    if (!statuses.some((status) => status.done)) {
+      ctx.addIssue({ code: "custom", message: "A done status is required" });
+    }
+    if (!statuses.some((status) => !status.done)) {
+      ctx.addIssue({ code: "custom", message: "An open status is required" });
+    }
+  });
+
+export const DEFAULT_WORKFLOW: TodoStatus[] = [
+  { id: "todo", name: "To do", done: false },
+  { id: "doing", name: "Doing", done: false },
+  { id: "done", name: "Done", done: true },
+];
+
+/**
+ * The workflows of the given lists by id, `null` being the inbox.
+ */
+export const findWorkflows = async (db: Db, listIds: (number | null)[]) => {
+  const workflows = new Map<number | null, TodoStatus[]>(
+    listIds.map((listId) => [listId, DEFAULT_WORKFLOW]),
+  );
+  const ids = [...workflows.keys()].filter((id) => id !== null);
+  if (ids.length === 0) return workflows;
+
+  const lists = await db.select({
+    id: listsTable.id,
+    statuses: listsTable.statuses,
+  }).from(listsTable).where(inArray(listsTable.id, ids));
+  for (const list of lists) {
+    workflows.set(list.id, list.statuses ?? DEFAULT_WORKFLOW);
+  }
+
+  return workflows;
+};
+
+export const findWorkflow = async (db: Db, listId: number | null) =>
+  (await findWorkflows(db, [listId])).get(listId)!;
+
+/**
+ * The status a todo takes when it is completed or reopened: the first done,
+ * or the first open, status of its workflow.
+ */
+export const statusFor = (workflow: TodoStatus[], completed: boolean) =>
+  workflow.find((status) => status.done === completed)!.id;
+
+/**
+ * Finds a status of `workflow`, throwing when it has none with that id.
+ */
+export const findStatus = (workflow: TodoStatus[], id: string) => {
+  const status = workflow.find((status) => status.id === id);
+  if (!status) {
+    throw new TodoRequestError(
+      `Unknown status "${id}". The statuses of this list are: ${
+        workflow.map((status) => status.id).join(", ")
+      }`,
+    );
+  }
+
+  return status;
+};
+
+/**
+ * The statements that bring the todos matching `where` in line with
+ * `workflow`, after they moved to another list or their list's workflow
+ * changed, to run in order. A todo keeps its status when the workflow has
+ * it, and is then completed or reopened to match it; otherwise it keeps its
+ * completion and takes the first status with it.
+ */
+export const syncStatusStatements = (
+  db: Db,
+  where: SQL | undefined,
+  workflow: TodoStatus[],
+) => {
+  const ids = (done: boolean) =>
+    workflow.filter((status) => status.done === done)
+      .map((status) => status.id);
+
+  return [true, false].flatMap((done) => [
+    db.update(todosTable)
+      .set({ completed: done ? 1 : 0, version: nextVersion() })
+      .where(and(
+        where,
+        inArray(todosTable.status, ids(done)),
+        eq(todosTable.completed, done ? 0 : 1),
+      )),
+    db.update(todosTable)
+      .set({ status: statusFor(workflow, done), version: nextVersion() })
+      .where(and(
+        where,
+        notInArray(todosTable.status, workflow.map((status) => status.id)),
+        eq(todosTable.completed, done ? 1 : 0),
+      )),
+  ]);
+};
+
+/**
+ * Runs `syncStatusStatements`.
+ */
+export const syncStatuses = async (
+  db: Db,
+  where: SQL | undefined,
+  workflow: TodoStatus[],
+) => {
+  for (const statement of syncStatusStatements(db, where, workflow)) {
+    await statement;
+  }
+};
@@ -0,0 +1,148 @@
+/**
+ * The trash of deleted todos.
+ *
+ * Deleting a todo only sets its `deletedAt`, so anything removed by mistake
+ * (by its owner or by the AI executor) can be brought back with
+ * RESTORE_TODO. Todos stay in the trash for TRASH_RETENTION_DAYS and are
+ * then purged for good. There is no scheduler for this: expired todos are
+ * purged whenever their owner lists todos.
+ */
+import {
+  and,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import type { Env } from "../../main.ts";
+import { getBatchDb } from "../../db.ts";
+import {
+  timeEntriesTable,
+  todoCommentsTable,
+  todoDependenciesTable,
+  todoEventsTable,
+  todosTable,
+  todoTagsTable,
+} from "../../schema.ts";
+import type { Db } from "./todo-helpers.ts";
+import { recordTodoEvents, type TodoEventSource } from "./todo-events.ts";
+import { cancelReminder } from "./todo-reminders.ts";
+import { deleteTodoAttachments } from "./todo-attachments.ts";
+import { nextVersion } from "./todo-versions.ts";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Matches the todos of `userId` that are in the trash.
+ */
+export const trashedTodos = (userId: string) =>
+  and(eq(todosTable.userId, userId), isNotNull(todosTable.deletedAt));
+
+/**
+ * Moves todos to the trash, cancelling their reminders and stopping their
+ * timers, and records it in their history. The todos and their timers
+ * change in one batch. Todos trashed together share the same `deletedAt`,
+ * which RESTORE_TODO relies on to bring them back together. Todos already
+ * in the trash keep their own.
+ */
+export const trashTodos = async (
+  env: Env,
+  db: Db,
+  userId: string,
+  todos: { id: number; reminderTriggerId: string | null }[],
+  source: TodoEventSource,
+) => {
+  for (const todo of todos) {
+    await cancelReminder(env, todo.reminderTriggerId);
+  }
+  if (todos.length === 0) return [];
+
+  const deletedAt = new Date();
+  const trashable = and(
+    inArray(todosTable.id, todos.map((todo) => todo.id)),
+    eq(todosTable.userId, userId),
+    isNull(todosTable.deletedAt),
+  );
+  const batchDb = getBatchDb(env);
+  const [, trashed] = await batchDb.batch([
+    // Nobody keeps tracking time on a trashed todo
+    batchDb.update(timeEntriesTable)
+      .set({ endedAt: deletedAt })
+      .where(and(
+        inArray(
+          timeEntriesTable.todoId,
+          batchDb.select({ id: todosTable.id }).from(todosTable)
+            .where(trashable),
+        ),
+        isNull(timeEntriesTable.endedAt),
+      )),
+    batchDb.update(todosTable)
+      .set({ deletedAt, reminderTriggerId: null, version: nextVersion() })
+      .where(trashable)
+      .returning({ id: todosTable.id, deletedAt: todosTable.deletedAt }),
+  ]);
+
+  await recordTodoEvents(
+    env,
+    db,
+    { actorId: userId, source },
+    trashed.map((todo) => ({
+      todoId: todo.id,
+      type: "deleted",
+      before: { deletedAt: null },
+      after: { deletedAt: todo.deletedAt?.toISOString() ?? null },
+    })),
+  );
+
+  return trashed.map((todo) => todo.id);
+};
+
+/**
+ * Deletes the trashed todos of `userId` matching `where` for good, with
+ * their tags, history, comments and attachments. Returns the ids of the
+ * deleted todos.
+ */
+export const purgeTrashedTodos = async (
+  env: Env,
+  db: Db,
+  userId: string,
+  where?: SQL,
+) => {
+  const todos = await db.select({ id: todosTable.id })
+    .from(todosTable)
+    .where(and(trashedTodos(userId), where));
+  const ids = todos.map((todo) => todo.id);
+  if (ids.length === 0) return ids;
+
+  await db.delete(todoTagsTable).where(inArray(todoTagsTable.todoId, ids));
+  await db.delete(todoEventsTable).where(inArray(todoEventsTable.todoId, ids));
+  await db.delete(todoCommentsTable)
+    .where(inArray(todoCommentsTable.todoId, ids));
+  await db.delete(timeEntriesTable)
+    .where(inArray(timeEntriesTable.todoId, ids));
+  await db.delete(todoDependenciesTable).where(or(
+    inArray(todoDependenciesTable.todoId, ids),
+    inArray(todoDependenciesTable.blockedById, ids),
+  ));
+  await deleteTodoAttachments(env, db, ids);
+  await db.delete(todosTable).where(inArray(todosTable.id, ids));
+
+  return ids;
+};
+
+/**
+ * Purges the todos that have been in the trash for longer than the
+ * retention window.
+ */
+export const purgeExpiredTrash = (env: Env, db: Db, userId: string) =>
+  purgeTrashedTodos(
+    env,
+    db,
+    userId,
+    lt(todosTable.deletedAt, new Date(Date.now() - RETENTION_MS)),
+  );
@@ -0,0 +1,89 @@
+/**
+ * The todo.txt format (http://todotxt.org) of EXPORT_TODOS and
+ * IMPORT_TODOS. Priorities A, B and C are high, medium and low. The list is
+ * the first `+project` and tags are `@context`s, with underscores for
+ * spaces. Due dates and recurrences use the `due:` and `rrule:` extensions.
+ */
+import type { todoPriorities } from "../../schema.ts";
+import type { PortableTodo } from "./todo-formats.ts";
+
+const TODOTXT_PRIORITIES: Record<string, typeof todoPriorities[number]> = {
+  A: "high",
+  B: "medium",
+  C: "low",
+};
+
+const fromTodoTxtName = (name: string) => name.replaceAll("_", " ");
+
+const toTodoTxtName = (name: string) => name.replace(/\s+/g, "_");
+
+const parseTodoTxtLine = (text: string) => {
+  let rest = text.trim();
+  const completed = rest.startsWith("x ");
+  if (completed) rest = rest.slice(2).trim();
+
+  const priorityMatch = /^\(([A-Z])\)\s+/.exec(rest);
+  let priority = priorityMatch?.[1];
+  if (priorityMatch) rest = rest.slice(priorityMatch[0].length);
+  // Completion and creation dates
+  rest = rest.replace(/^(\d{4}-\d{2}-\d{2}\s+){1,2}/, "");
+
+  const words: string[] = [];
+  const tags: string[] = [];
+  let list: string | null = null;
+  let dueAt: string | null = null;
+  let recurrence: string | null = null;
+
+  for (const word of rest.split(/\s+/)) {
+    if (/^\+\S+$/.test(word) && list === null) {
+      list = fromTodoTxtName(word.slice(1));
+    } else if (/^@\S+$/.test(word)) {
+      tags.push(fromTodoTxtName(word.slice(1)));
+    } else if (word.startsWith("due:")) {
+      dueAt = word.slice(4);
+    } else if (word.startsWith("rrule:")) {
+      recurrence = word.slice(6);
+    } else if (/^pri:[A-Z]$/.test(word)) {
+      priority = word.slice(4);
+    } else {
+      words.push(word);
+    }
+  }
+
+  return {
+    title: words.join(" "),
+    completed,
+    priority: priority ? TODOTXT_PRIORITIES[priority] ?? "low" : "none",
+    dueAt,
+    list,
+    tags,
+    recurrence,
+  };
+};
+
+export const parseTodoTxt = (content: string) => ({
+  records: content.split(/\r?\n/).flatMap((text, index) =>
+    text.trim() ? [{ line: index + 1, value: parseTodoTxtLine(text) }] : []
+  ),
+  errors: [],
+});
+
+const toTodoTxtLine = (todo: PortableTodo) => {
+  const letter = Object.entries(TODOTXT_PRIORITIES)
+    .find(([, priority]) => priority === todo.priority)?.[0];
+  return [
+    todo.completed ? "x" : null,
+    // Completed todos keep their priority as an extension, as the format
+    // recommends
+    letter && !todo.completed ? `(${letter})` : null,
+    todo.title.replace(/\s+/g, " "),
+    todo.list ? `+${toTodoTxtName(todo.list)}` : null,
+    ...todo.tags.map((tag) => `@${toTodoTxtName(tag)}`),
+    todo.dueAt ? `due:${todo.dueAt.slice(0, 10)}` : null,
+    todo.recurrence ? `rrule:${todo.recurrence}` : null,
+    letter && todo.completed ? `pri:${letter}` : null,
+  ].filter((part) => part !== null).join(" ");
+};
+
+export const formatTodoTxt = (todos: PortableTodo[]) =>
+  todos.map(toTodoTxtLine).join("\n");
@@ -0,0 +1,59 @@
+/**
+ * Optimistic concurrency control of todos.
+ *
+ * Every write to the row of a todo moves it to its next `version`, down to
+ * its position and the bookkeeping of its reminder. Its tags and the todos
+ * blocking it are rows of their own tables, so changing them does not.
+ * Tools that change a todo from what a client last saw of it (TOGGLE_TODO,
+ * MOVE_TODO_STATUS, UPDATE_TODO) accept that version as `expectedVersion`,
+ * and only write when the todo is still at the version they read it at.
+ * Otherwise they throw a TodoConflictError rather than overwrite the other
+ * change, whether it came from another client, the AI executor or a
+ * webhook.
+ *
+ * MCP clients only get the message of an error, so the message of a
+ * conflict starts with TODO_CONFLICT_CODE for them to tell it apart.
+ */
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { todosTable } from "../../schema.ts";
+
+export const TODO_CONFLICT_CODE = "TODO_CONFLICT";
+
+export class TodoConflictError extends Error {
+  readonly code = TODO_CONFLICT_CODE;
+
+  constructor(
+    public todoId: number,
+    public expectedVersion: number,
+    public currentVersion: number,
+  ) {
+    super(
+      `${TODO_CONFLICT_CODE}: Todo #${todoId} was changed by someone else: it is at version ${currentVersion}, not ${expectedVersion}. Reload it and try again`,
+    );
+    this.name = "TodoConflictError";
+  }
+}
+
+export const expectedVersionSchema = z.number().int().min(1).optional()
+  .describe(
+    "The version of the todo the change is based on. The change fails with a conflict when the todo has changed since; omit it to apply the change anyway",
+  );
+
+/**
+ * The value that moves a todo to its next version in an update.
+ */
+export const nextVersion = () => sql<number>`${todosTable.version} + 1`;
+
+/**
+ * Throws a TodoConflictError when `todo` is no longer at `expectedVersion`.
+ * Nothing is checked when no version is expected.
+ */
+export const assertTodoVersion = (
+  todo: { id: number; version: number },
+  expectedVersion: number | undefined,
+) => {
+  if (expectedVersion !== undefined && todo.version !== expectedVersion) {
+    throw new TodoConflictError(todo.id, expectedVersion, todo.version);
+  }
+};
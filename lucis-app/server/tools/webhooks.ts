@@ -0,0 +1,250 @@
+/**
+ * Inbound webhook tools.
+ *
+ * This file contains the tools that manage the webhooks through which
+ * external systems create todos (served by `../webhooks.ts`):
+ * - Creating, listing, updating and deleting webhooks
+ * - Rotating the signing secret of a webhook
+ * - Listing the recent deliveries of a webhook
+ */
+import { createPrivateTool } from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import { and, asc, desc, eq } from "drizzle-orm";
+import type { Env } from "../main.ts";
+import {
+  webhookDeliveriesTable,
+  webhookDeliveryStatuses,
+  webhooksTable,
+} from "../schema.ts";
+import { getDb } from "../db.ts";
+import {
+  generateSecret,
+  SIGNATURE_HEADER,
+  SIGNATURE_TOLERANCE_SECONDS,
+  TIMESTAMP_HEADER,
+} from "../signatures.ts";
+import { WEBHOOK_DELIVERY_LOG_SIZE, webhookPath } from "../webhooks.ts";
+import { webhookTemplateSchema } from "../webhook-templates.ts";
+import {
+  assertWritableList,
+  type Db,
+  getCurrentUserId,
+} from "./utils/todo-helpers.ts";
+
+const webhookNameSchema = z.string().trim().min(1).max(60);
+
+const webhookSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  path: z.string()
+    .describe("Path to POST to, to be appended to the origin of the app"),
+  secret: z.string()
+    .describe(
+      `Key of the HMAC-SHA256 signature of '<timestamp>.<body>', sent as '${SIGNATURE_HEADER}: sha256=<hex digest>' with the Unix time in seconds as '${TIMESTAMP_HEADER}: <timestamp>'. Deliveries signed more than ${SIGNATURE_TOLERANCE_SECONDS} seconds from now are rejected`,
+    ),
+  template: webhookTemplateSchema,
+  listId: z.number().nullable()
+    .describe("List the todos are created in; null means the inbox"),
+  createdAt: z.string(),
+});
+
+const deliverySchema = z.object({
+  id: z.number(),
+  status: z.enum(webhookDeliveryStatuses),
+  idempotencyKey: z.string().nullable(),
+  error: z.string().nullable(),
+  todoIds: z.array(z.number()),
+  receivedAt: z.string(),
+});
+
+const toWebhook = (row: typeof webhooksTable.$inferSelect) => ({
+  id: row.id,
+  name: row.name,
+  path: webhookPath(row.token),
+  secret: row.secret,
+  template: webhookTemplateSchema.parse(row.template),
+  listId: row.listId,
+  createdAt: row.createdAt.toISOString(),
+});
+
+/**
+ * Loads a webhook owned by `userId`, throwing when it does not exist.
+ */
+const findOwnedWebhook = async (db: Db, id: number, userId: string) => {
+  const webhook = await db.select().from(webhooksTable).where(
+    and(eq(webhooksTable.id, id), eq(webhooksTable.userId, userId)),
+  ).limit(1);
+
+  if (webhook.length === 0) {
+    throw new Error("Webhook not found");
+  }
+
+  return webhook[0];
+};
+
+export const createCreateWebhookTool = (env: Env) =>
+  createPrivateTool({
+    id: "CREATE_WEBHOOK",
+    description:
+      "Create an inbound webhook: a URL external systems (form services, CI, ...) can POST signed JSON to, whose payload the mapping template turns into todos. Placeholders like {{body.field}} in the template are replaced with values of the payload",
+    inputSchema: z.object({
+      name: webhookNameSchema,
+      template: webhookTemplateSchema,
+      listId: z.number().int().nullable().default(null)
+        .describe("List to create the todos in; null means the inbox"),
+    }),
+    outputSchema: z.object({ webhook: webhookSchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await assertWritableList(db, userId, context.listId);
+
+      const webhook = await db.insert(webhooksTable).values({
+        userId,
+        name: context.name,
+        token: generateSecret(),
+        secret: generateSecret(32),
+        template: context.template,
+        listId: context.listId,
+        createdAt: new Date(),
+      }).returning();
+
+      return { webhook: toWebhook(webhook[0]) };
+    },
+  });
+
+export const createListWebhooksTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_WEBHOOKS",
+    description: "List the inbound webhooks of the current user",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ webhooks: z.array(webhookSchema) }),
+    execute: async () => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+
+      const webhooks = await db.select().from(webhooksTable)
+        .where(eq(webhooksTable.userId, userId))
+        .orderBy(asc(webhooksTable.id));
+
+      return { webhooks: webhooks.map(toWebhook) };
+    },
+  });
+
+export const createUpdateWebhookTool = (env: Env) =>
+  createPrivateTool({
+    id: "UPDATE_WEBHOOK",
+    description:
+      "Change the name, mapping template or list of an inbound webhook. Its URL and secret stay the same",
+    inputSchema: z.object({
+      id: z.number(),
+      name: webhookNameSchema.optional(),
+      template: webhookTemplateSchema.optional(),
+      listId: z.number().int().nullable().optional(),
+    }),
+    outputSchema: z.object({ webhook: webhookSchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedWebhook(db, context.id, userId);
+      if (context.listId !== undefined) {
+        await assertWritableList(db, userId, context.listId);
+      }
+
+      const { id, ...changes } = context;
+      if (Object.values(changes).every((value) => value === undefined)) {
+        throw new Error("No fields to update");
+      }
+
+      const webhook = await db.update(webhooksTable)
+        .set(changes)
+        .where(eq(webhooksTable.id, id))
+        .returning();
+
+      return { webhook: toWebhook(webhook[0]) };
+    },
+  });
+
+export const createRotateWebhookSecretTool = (env: Env) =>
+  createPrivateTool({
+    id: "ROTATE_WEBHOOK_SECRET",
+    description:
+      "Replace the signing secret of an inbound webhook. Deliveries signed with the previous secret are rejected",
+    inputSchema: z.object({ id: z.number() }),
+    outputSchema: z.object({ webhook: webhookSchema }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedWebhook(db, context.id, userId);
+
+      const webhook = await db.update(webhooksTable)
+        .set({ secret: generateSecret(32) })
+        .where(eq(webhooksTable.id, context.id))
+        .returning();
+
+      return { webhook: toWebhook(webhook[0]) };
+    },
+  });
+
+export const createDeleteWebhookTool = (env: Env) =>
+  createPrivateTool({
+    id: "DELETE_WEBHOOK",
+    description:
+      "Delete an inbound webhook and its delivery log. Its URL stops working; the todos it created are kept",
+    inputSchema: z.object({ id: z.number() }),
+    outputSchema: z.object({ success: z.boolean(), deletedId: z.number() }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedWebhook(db, context.id, userId);
+
+      await db.delete(webhookDeliveriesTable)
+        .where(eq(webhookDeliveriesTable.webhookId, context.id));
+      await db.delete(webhooksTable).where(eq(webhooksTable.id, context.id));
+
+      return { success: true, deletedId: context.id };
+    },
+  });
+
+export const createListWebhookDeliveriesTool = (env: Env) =>
+  createPrivateTool({
+    id: "LIST_WEBHOOK_DELIVERIES",
+    description:
+      `List the recent deliveries of an inbound webhook, newest first: whether they created todos (and which), were duplicates of an earlier delivery with the same idempotency key, were rejected (bad body or template mapping, or an idempotency key in use) or failed. Only signed deliveries are logged, and the last ${WEBHOOK_DELIVERY_LOG_SIZE} of them are kept`,
+    inputSchema: z.object({
+      webhookId: z.number(),
+      limit: z.number().int().min(1).max(WEBHOOK_DELIVERY_LOG_SIZE).default(20),
+    }),
+    outputSchema: z.object({ deliveries: z.array(deliverySchema) }),
+    execute: async ({ context }) => {
+      const userId = getCurrentUserId(env);
+      const db = await getDb(env);
+      await findOwnedWebhook(db, context.webhookId, userId);
+
+      const deliveries = await db.select().from(webhookDeliveriesTable)
+        .where(eq(webhookDeliveriesTable.webhookId, context.webhookId))
+        .orderBy(desc(webhookDeliveriesTable.id))
+        .limit(context.limit);
+
+      return {
+        deliveries: deliveries.map((delivery) => ({
+          id: delivery.id,
+          status: delivery.status,
+          idempotencyKey: delivery.idempotencyKey,
+          error: delivery.error,
+          todoIds: delivery.todoIds,
+          receivedAt: delivery.receivedAt.toISOString(),
+        })),
+      };
+    },
+  });
+
+// Export all webhook-related tools
+export const webhookTools = [
+  createCreateWebhookTool,
+  createListWebhooksTool,
+  createUpdateWebhookTool,
+  createRotateWebhookSecretTool,
+  createDeleteWebhookTool,
+  createListWebhookDeliveriesTool,
+];
@@ -0,0 +1,161 @@
+/**
+ * Mapping templates of inbound webhooks, which turn the JSON payload of a
+ * delivery into todos.
+ *
+ * Each field is a string where `{{path}}` placeholders are replaced with
+ * values of the payload. Paths start with `body` (the payload) or `item`
+ * (the current element of the `each` array) and go down with dots, array
+ * indexes included: `{{body.build.jobs.0.name}}`. Missing values are empty;
+ * objects and arrays are written as JSON.
+ *
+ * For example, a CI failure notification could be mapped with
+ * `{ "title": "Fix {{body.workflow}} on {{body.branch}}", "priority":
+ * "high", "tags": ["ci"], "idempotencyKey": "{{body.run_id}}" }`.
+ */
+import { z } from "zod";
+import {
+  tagNameSchema,
+  todoPrioritySchema,
+  todoTitleSchema,
+} from "./tools/utils/todo-schemas.ts";
+
+/**
+ * Deliveries creating more todos than this are rejected.
+ */
+export const WEBHOOK_MAX_TODOS = 50;
+
+const WEBHOOK_MAX_TAGS = 10;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export const webhookTemplateSchema = z.object({
+  each: z.string().regex(/^body(\.[\w-]+)*$/, "each must be a body path")
+    .optional()
+    .describe(
+      "Path of an array in the payload, e.g. body.failures. One todo is created per element, available as `item` in the other fields; without it one todo is created per delivery",
+    ),
+  title: z.string().min(1).max(500)
+    .describe("Title of the todos, e.g. 'Review {{body.form.name}}'"),
+  dueAt: z.string().max(200).optional()
+    .describe("Due date of the todos, rendered as an ISO 8601 date"),
+  priority: z.string().max(200).optional()
+    .describe("Priority of the todos: none, low, medium or high"),
+  tags: z.array(z.string().min(1).max(200)).max(WEBHOOK_MAX_TAGS).optional()
+    .describe("Tags of the todos; tags rendering as empty are left out"),
+  idempotencyKey: z.string().max(200).optional()
+    .describe(
+      "Key identifying a delivery, e.g. '{{body.id}}', used when the request has no Idempotency-Key header. Deliveries with the key of an earlier one create nothing",
+    ),
+}).strict();
+
+export type WebhookTemplate = z.infer<typeof webhookTemplateSchema>;
+
+export interface MappedTodo {
+  title: string;
+  dueAt: Date | null;
+  priority: z.infer<typeof todoPrioritySchema>;
+  tags: string[];
+}
+
+/**
+ * The value at a dotted `path` of `scope`, or undefined when it does not
+ * exist.
+ */
+const resolvePath = (scope: Record<string, unknown>, path: string) =>
+  path.split(".").reduce<unknown>(
+    (value, key) =>
+      typeof value === "object" && value !== null &&
+        Object.hasOwn(value, key)
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    scope,
+  );
+
+export const renderTemplate = (
+  template: string,
+  scope: Record<string, unknown>,
+) =>
+  template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = resolvePath(scope, path);
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+
+/**
+ * Error messages of zod, which the delivery log shows.
+ */
+const issues = (error: z.ZodError) =>
+  error.issues.map((issue) => issue.message).join(", ");
+
+const mapTodo = (
+  template: WebhookTemplate,
+  scope: Record<string, unknown>,
+): MappedTodo => {
+  // Payload values may span lines, titles may not
+  const title = todoTitleSchema.safeParse(
+    renderTemplate(template.title, scope).replace(/\s+/g, " "),
+  );
+  if (!title.success) throw new Error(issues(title.error));
+
+  const dueAt = template.dueAt
+    ? renderTemplate(template.dueAt, scope).trim()
+    : "";
+  if (dueAt && isNaN(Date.parse(dueAt))) {
+    throw new Error(`Invalid due date: ${dueAt}`);
+  }
+
+  const priority = todoPrioritySchema.safeParse(
+    template.priority
+      ? renderTemplate(template.priority, scope).trim().toLowerCase() || "none"
+      : "none",
+  );
+  if (!priority.success) throw new Error(issues(priority.error));
+
+  const tags = (template.tags ?? [])
+    .map((tag) => renderTemplate(tag, scope))
+    .filter((tag) => tag.trim() !== "")
+    .map((tag) => {
+      const name = tagNameSchema.safeParse(tag);
+      if (!name.success) throw new Error(issues(name.error));
+      return name.data;
+    });
+
+  return {
+    title: title.data,
+    dueAt: dueAt ? new Date(dueAt) : null,
+    priority: priority.data,
+    tags: [...new Set(tags)],
+  };
+};
+
+/**
+ * Maps a payload to the todos to create and the idempotency key given by
+ * the template. Throws with a message for the delivery log when the
+ * payload does not fit the template.
+ */
+export const mapPayload = (template: WebhookTemplate, body: unknown) => {
+  const scope = { body };
+  const items = template.each ? resolvePath(scope, template.each) : [body];
+  if (!Array.isArray(items)) {
+    throw new Error(`${template.each} is not an array`);
+  }
+  if (items.length > WEBHOOK_MAX_TODOS) {
+    throw new Error(`At most ${WEBHOOK_MAX_TODOS} todos per delivery`);
+  }
+
+  const todos = items.map((item, index) => {
+    try {
+      return mapTodo(template, { body, item });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        items.length > 1 ? `Item ${index}: ${message}` : message,
+      );
+    }
+  });
+  const idempotencyKey = template.idempotencyKey
+    ? renderTemplate(template.idempotencyKey, scope).trim()
+    : "";
+
+  return { todos, idempotencyKey: idempotencyKey || null };
+};
@@ -0,0 +1,349 @@
+/**
+ * Inbound webhooks, served at `/webhooks/:token` by the `fetch` handler of
+ * `main.ts`.
+ *
+ * External systems (form services, CI, ...) POST JSON to the URL of a
+ * webhook, signed with its secret (see `signatures.ts`). The mapping
+ * template of the webhook (see `webhook-templates.ts`) turns the payload
+ * into todos of its owner. Requests that are too large, unsigned or signed
+ * too long ago are turned away before anything is written; every other
+ * delivery is logged. A delivery whose idempotency key (the
+ * `Idempotency-Key` header, or the one given by the template) was already
+ * used creates nothing, so senders can retry.
+ */
+import { and, desc, eq, inArray, isNull, lt } from "drizzle-orm";
+import type { Env } from "./main.ts";
+import {
+  todosTable,
+  todoTagsTable,
+  webhookDeliveriesTable,
+  webhookDeliveryStatuses,
+  webhookIdempotencyKeysTable,
+  webhooksTable,
+} from "./schema.ts";
+import { getDb } from "./db.ts";
+import {
+  isRecentTimestamp,
+  SIGNATURE_HEADER,
+  SIGNATURE_TOLERANCE_SECONDS,
+  TIMESTAMP_HEADER,
+  verifySignature,
+} from "./signatures.ts";
+import {
+  mapPayload,
+  type MappedTodo,
+  webhookTemplateSchema,
+} from "./webhook-templates.ts";
+import {
+  assertWritableList,
+  type Db,
+  nextPosition,
+  upsertTags,
+} from "./tools/utils/todo-helpers.ts";
+import { recordTodoEvents, todoValues } from "./tools/utils/todo-events.ts";
+import { toTodo } from "./tools/utils/todo-schemas.ts";
+import { findWorkflow, statusFor } from "./tools/utils/todo-statuses.ts";
+
+const WEBHOOK_PATH = /^\/webhooks\/([A-Za-z0-9_-]+)$/;
+
+const WEBHOOK_MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Deliveries kept in the log of each webhook.
+ */
+export const WEBHOOK_DELIVERY_LOG_SIZE = 100;
+
+/**
+ * How long an idempotency key is kept, and so how long senders can retry
+ * a delivery without creating its todos twice.
+ */
+const IDEMPOTENCY_KEY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const webhookPath = (token: string) => `/webhooks/${token}`;
+
+type Webhook = typeof webhooksTable.$inferSelect;
+
+interface Delivery {
+  status: typeof webhookDeliveryStatuses[number];
+  idempotencyKey?: string | null;
+  error?: string;
+  todoIds?: number[];
+}
+
+/**
+ * Logs a delivery, dropping the oldest ones past the log size, and answers
+ * the sender with `httpStatus`.
+ */
+const logDelivery = async (
+  db: Db,
+  webhook: Webhook,
+  delivery: Delivery,
+  httpStatus: number,
+) => {
+  const todoIds = delivery.todoIds ?? [];
+  await db.insert(webhookDeliveriesTable).values({
+    webhookId: webhook.id,
+    idempotencyKey: delivery.idempotencyKey ?? null,
+    status: delivery.status,
+    error: delivery.error ?? null,
+    todoIds,
+    receivedAt: new Date(),
+  });
+
+  const kept = await db.select({ id: webhookDeliveriesTable.id })
+    .from(webhookDeliveriesTable)
+    .where(eq(webhookDeliveriesTable.webhookId, webhook.id))
+    .orderBy(desc(webhookDeliveriesTable.id))
+    .limit(1)
+    .offset(WEBHOOK_DELIVERY_LOG_SIZE - 1);
+  if (kept.length > 0) {
+    await db.delete(webhookDeliveriesTable).where(
+      and(
+        eq(webhookDeliveriesTable.webhookId, webhook.id),
+        lt(webhookDeliveriesTable.id, kept[0].id),
+      ),
+    );
+  }
+
+  return Response.json(
+    delivery.error
+      ? { status: delivery.status, error: delivery.error }
+      : { status: delivery.status, todoIds },
+    { status: httpStatus },
+  );
+};
+
+/**
+ * Answers a request that is not a delivery of the webhook, without logging
+ * it.
+ */
+const reject = (error: string, httpStatus: number) =>
+  Response.json({ status: "rejected", error }, { status: httpStatus });
+
+const idempotencyKeyOf = (webhook: Webhook, key: string) =>
+  and(
+    eq(webhookIdempotencyKeysTable.webhookId, webhook.id),
+    eq(webhookIdempotencyKeysTable.key, key),
+  );
+
+/**
+ * Inserts `key` for `webhook` unless it is there already, returning whether
+ * it was inserted. This is a single statement, so of two deliveries with
+ * the same key only one inserts it. Keys past their TTL are dropped first.
+ */
+const claimIdempotencyKey = async (db: Db, webhook: Webhook, key: string) => {
+  await db.delete(webhookIdempotencyKeysTable).where(
+    and(
+      eq(webhookIdempotencyKeysTable.webhookId, webhook.id),
+      lt(
+        webhookIdempotencyKeysTable.createdAt,
+        new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS),
+      ),
+    ),
+  );
+
+  const inserted = await db.insert(webhookIdempotencyKeysTable).values({
+    webhookId: webhook.id,
+    key,
+    createdAt: new Date(),
+  }).onConflictDoNothing().returning({ id: webhookIdempotencyKeysTable.id });
+  return inserted.length > 0;
+};
+
+/**
+ * Creates the todos of a delivery and records them against its idempotency
+ * key, if any. Todos whose tags cannot be added are deleted again, so a
+ * delivery that fails creates nothing and can be retried with the same key.
+ */
+const createTodos = async (
+  env: Env,
+  db: Db,
+  webhook: Webhook,
+  todos: MappedTodo[],
+  idempotencyKey: string | null,
+) => {
+  const userId = webhook.userId;
+  const listId = webhook.listId;
+  await assertWritableList(db, userId, listId);
+
+  const tagIds = await upsertTags(
+    db,
+    userId,
+    [...new Set(todos.flatMap((todo) => todo.tags))],
+  );
+  const position = await nextPosition(db, userId, listId);
+  const status = statusFor(await findWorkflow(db, listId), false);
+  const rows = todos.length === 0 ? [] : await db.insert(todosTable).values(
+    todos.map((todo, index) => ({
+      title: todo.title,
+      status,
+      dueAt: todo.dueAt,
+      priority: todo.priority,
+      listId,
+      position: position + index,
+      userId,
+    })),
+  ).returning();
+  const todoIds = rows.map((row) => row.id);
+
+  // RETURNING has no order, so the todos are matched back by their
+  // position, which is unique among those of the delivery
+  const todoTags = rows.flatMap((row) =>
+    todos[row.position - position].tags.map((tag) => ({
+      todoId: row.id,
+      tagId: tagIds.get(tag)!,
+    }))
+  );
+  if (todoTags.length > 0) {
+    try {
+      await db.insert(todoTagsTable).values(todoTags);
+    } catch (error) {
+      await db.delete(todosTable).where(inArray(todosTable.id, todoIds));
+      throw error;
+    }
+  }
+
+  if (idempotencyKey) {
+    await db.update(webhookIdempotencyKeysTable)
+      .set({ todoIds })
+      .where(idempotencyKeyOf(webhook, idempotencyKey));
+  }
+
+  await recordTodoEvents(
+    env,
+    db,
+    { actorId: userId, source: "webhook" },
+    rows.map((row) => ({
+      todoId: row.id,
+      type: "created",
+      after: todoValues(toTodo(row)),
+    })),
+  );
+
+  return todoIds;
+};
+
+const receiveDelivery = async (req: Request, env: Env, token: string) => {
+  const db = await getDb(env);
+
+  const webhooks = await db.select().from(webhooksTable)
+    .where(eq(webhooksTable.token, token))
+    .limit(1);
+  if (webhooks.length === 0) {
+    return Response.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  const webhook = webhooks[0];
+
+  const body = await req.text();
+  if (new TextEncoder().encode(body).length > WEBHOOK_MAX_BODY_BYTES) {
+    return reject(
+      `The body must be at most ${WEBHOOK_MAX_BODY_BYTES} bytes`,
+      413,
+    );
+  }
+
+  const timestamp = req.headers.get(TIMESTAMP_HEADER);
+  if (!isRecentTimestamp(timestamp)) {
+    return reject(
+      `Missing ${TIMESTAMP_HEADER} header, or more than ${SIGNATURE_TOLERANCE_SECONDS} seconds from now`,
+      401,
+    );
+  }
+  const signature = req.headers.get(SIGNATURE_HEADER);
+  if (!await verifySignature(webhook.secret, timestamp, body, signature)) {
+    return reject(`Missing or invalid ${SIGNATURE_HEADER} header`, 401);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return logDelivery(db, webhook, {
+      status: "rejected",
+      error: "The body is not JSON",
+    }, 400);
+  }
+
+  let mapped;
+  try {
+    mapped = mapPayload(webhookTemplateSchema.parse(webhook.template), payload);
+  } catch (error) {
+    return logDelivery(db, webhook, {
+      status: "rejected",
+      error: error instanceof Error ? error.message : String(error),
+    }, 422);
+  }
+
+  const idempotencyKey = req.headers.get("Idempotency-Key")?.trim() ||
+    mapped.idempotencyKey;
+  if (
+    idempotencyKey && !await claimIdempotencyKey(db, webhook, idempotencyKey)
+  ) {
+    const previous = await db.select({
+      todoIds: webhookIdempotencyKeysTable.todoIds,
+    }).from(webhookIdempotencyKeysTable)
+      .where(idempotencyKeyOf(webhook, idempotencyKey));
+    const todoIds = previous[0]?.todoIds;
+    if (!todoIds) {
+      return logDelivery(db, webhook, {
+        status: "rejected",
+        idempotencyKey,
+        error: "A delivery with this idempotency key is in progress",
+      }, 409);
+    }
+    return logDelivery(db, webhook, {
+      status: "duplicate",
+      idempotencyKey,
+      todoIds,
+    }, 200);
+  }
+
+  try {
+    const todoIds = await createTodos(
+      env,
+      db,
+      webhook,
+      mapped.todos,
+      idempotencyKey,
+    );
+    return logDelivery(
+      db,
+      webhook,
+      { status: "created", idempotencyKey, todoIds },
+      201,
+    );
+  } catch (error) {
+    // Unless its todos were created, let the sender retry with the same key
+    if (idempotencyKey) {
+      await db.delete(webhookIdempotencyKeysTable).where(and(
+        idempotencyKeyOf(webhook, idempotencyKey),
+        isNull(webhookIdempotencyKeysTable.todoIds),
+      ));
+    }
+    return logDelivery(db, webhook, {
+      status: "failed",
+      idempotencyKey,
+      error: error instanceof Error ? error.message : String(error),
+    }, 500);
+  }
+};
+
+/**
+ * Receives a webhook delivery when `req` is for one, or returns `null` so
+ * the request is handled elsewhere.
+ */
+export const handleWebhook = (req: Request, env: Env) => {
+  const match = WEBHOOK_PATH.exec(new URL(req.url).pathname);
+  if (!match) return null;
+
+  if (req.method !== "POST") {
+    return Promise.resolve(
+      Response.json({ error: "Method not allowed" }, {
+        status: 405,
+        headers: { Allow: "POST" },
+      }),
+    );
+  }
+
+  return receiveDelivery(req, env, match[1]);
+};
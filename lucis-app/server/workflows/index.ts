@@ -10,15 +10,12 @@
  */
 
 // Import workflow arrays from domain files
-// import { todoWorkflows } from "./todos.ts";
-// import { userWorkflows } from "./user.ts";
+import { webhookWorkflows } from "./webhooks.ts";
 
 // Export all workflows from all domains
 export const workflows = [
-  // ...todoWorkflows,
-  // ...userWorkflows,
+  ...webhookWorkflows,
 ];
 
 // Re-export domain-specific workflows for direct access if needed
-// export { todoWorkflows } from "./todos.ts";
-// export { userWorkflows } from "./user.ts";
+export { webhookWorkflows } from "./webhooks.ts";
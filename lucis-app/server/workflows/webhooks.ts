@@ -0,0 +1,40 @@
+/**
+ * Webhook workflows.
+ *
+ * DELIVER_WEBHOOK_EVENT delivers one outbound webhook event (see
+ * `../subscriptions.ts`): it repeats the ATTEMPT_WEBHOOK_DELIVERY step,
+ * which waits for the backoff and POSTs the event once, until the event is
+ * delivered or has failed.
+ */
+import {
+  createStepFromTool,
+  createWorkflow,
+} from "@deco/workers-runtime/mastra";
+import { z } from "zod";
+import type { Env } from "../main.ts";
+import { WEBHOOK_WORKFLOW_ID } from "../subscriptions.ts";
+import {
+  attemptOutputSchema,
+  createAttemptWebhookDeliveryTool,
+  deliveryInputSchema,
+} from "../tools/subscriptions.ts";
+
+type AttemptOutput = z.infer<typeof attemptOutputSchema>;
+
+export const createDeliverWebhookEventWorkflow = (env: Env) => {
+  const attemptStep = createStepFromTool(createAttemptWebhookDeliveryTool(env));
+
+  return createWorkflow({
+    id: WEBHOOK_WORKFLOW_ID,
+    inputSchema: deliveryInputSchema,
+    outputSchema: attemptOutputSchema,
+  })
+    .dountil(
+      attemptStep,
+      async ({ inputData }: { inputData: AttemptOutput }) => inputData.done,
+    )
+    .commit();
+};
+
+// Export all webhook-related workflows
+export const webhookWorkflows = [createDeliverWebhookEventWorkflow];
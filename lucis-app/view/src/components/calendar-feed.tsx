@@ -0,0 +1,111 @@
+import { useState } from "react";
+import {
+  CalendarDays,
+  ChevronRight,
+  Copy,
+  Loader,
+  RefreshCw,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useCalendarFeed, useRotateCalendarFeed } from "@/lib/hooks";
+
+/**
+ * Collapsible panel with the URL calendar apps can subscribe to, which can
+ * be copied or replaced with a new one.
+ */
+export function CalendarFeedPanel() {
+  const [open, setOpen] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const { data, isLoading } = useCalendarFeed(open);
+  const rotateFeed = useRotateCalendarFeed();
+  const url = data ? `${globalThis.location.origin}${data.path}` : "";
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast.success("Feed URL copied");
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+        <ChevronRight
+          className={`w-3 h-3 transition-transform ${open ? "rotate-90" : ""}`}
+        />
+        <CalendarDays className="w-3 h-3" />
+        Calendar feed
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-2 space-y-2">
+        <p className="text-[10px] text-slate-500">
+          Subscribe to this URL from any calendar app to see your todos and
+          due dates. Anyone with the URL can read them.
+        </p>
+        {isLoading
+          ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          : (
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-300 text-xs rounded px-2 py-1"
+              />
+              <button
+                onClick={handleCopy}
+                disabled={!url}
+                className="p-1 hover:bg-slate-600 rounded disabled:opacity-50"
+                title="Copy URL"
+              >
+                <Copy className="w-3 h-3 text-slate-400 hover:text-white" />
+              </button>
+              <Popover open={confirming} onOpenChange={setConfirming}>
+                <PopoverTrigger asChild>
+                  <button
+                    disabled={rotateFeed.isPending}
+                    className="p-1 hover:bg-slate-600 rounded disabled:opacity-50"
+                    title="Replace the URL"
+                  >
+                    {rotateFeed.isPending
+                      ? (
+                        <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+                      )
+                      : (
+                        <RefreshCw className="w-3 h-3 text-slate-400 hover:text-white" />
+                      )}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent
+                  className="w-56 bg-slate-800 border-slate-700 text-white p-3 space-y-2"
+                  align="end"
+                >
+                  <p className="text-xs text-slate-300">
+                    Calendars subscribed to the current URL will stop updating.
+                  </p>
+                  <button
+                    onClick={() =>
+                      rotateFeed.mutate(undefined, {
+                        onSuccess: () => setConfirming(false),
+                      })}
+                    disabled={rotateFeed.isPending}
+                    className="w-full rounded bg-red-600/80 hover:bg-red-600 text-white px-2 py-1 text-xs text-left disabled:opacity-50"
+                  >
+                    Replace the URL
+                  </button>
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,407 @@
+import { useEffect, useState } from "react";
+import {
+  ChevronRight,
+  Clock,
+  Loader,
+  Pencil,
+  Play,
+  Plus,
+  Square,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  useAddTimeEntry,
+  useDeleteTimeEntry,
+  useStartTimer,
+  useStopTimer,
+  useTimeEntries,
+  useUpdateTimeEntry,
+} from "@/lib/hooks";
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}:${String(minutes).padStart(2, "0")}:${
+    String(Math.floor(seconds % 60)).padStart(2, "0")
+  }`;
+};
+
+/**
+ * The value of a datetime-local input for an ISO date, in local time.
+ */
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => new Date(value).toISOString();
+
+/**
+ * Seconds the running timer has been running, ticking every second.
+ */
+const useElapsed = (entry: any) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!entry) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [entry]);
+
+  return entry
+    ? Math.max(0, (now - new Date(entry.startedAt).getTime()) / 1000)
+    : 0;
+};
+
+/**
+ * The todo the running timer is on and for how long, with a button to stop
+ * it. Shows nothing while no timer runs.
+ */
+export function RunningTimer() {
+  const { data } = useTimeEntries();
+  const stopTimer = useStopTimer();
+  const running = data?.running ?? null;
+  const elapsed = useElapsed(running);
+
+  if (!running) return null;
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-emerald-700/60 bg-emerald-900/20 px-3 py-1.5 text-xs">
+      <Clock className="w-3 h-3 text-emerald-400 animate-pulse" />
+      <span className="flex-1 truncate text-slate-200">
+        {running.todoTitle ?? `#${running.todoId}`}
+      </span>
+      <span className="font-mono text-emerald-300">
+        {formatDuration(elapsed)}
+      </span>
+      <button
+        onClick={() => stopTimer.mutate(undefined)}
+        disabled={stopTimer.isPending}
+        className="p-1 hover:bg-slate-700 rounded disabled:opacity-50"
+        title="Stop timer"
+      >
+        <Square className="w-3 h-3 text-emerald-300" />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Starts a timer on a todo, or stops it when it is the one running. Only
+ * shown on hover unless its timer runs.
+ */
+export function TodoTimerButton(
+  { todo, disabled }: { todo: { id: number }; disabled?: boolean },
+) {
+  const { data } = useTimeEntries();
+  const startTimer = useStartTimer();
+  const stopTimer = useStopTimer();
+  const isRunning = data?.running?.todoId === todo.id;
+  const isPending = startTimer.isPending || stopTimer.isPending;
+
+  return (
+    <button
+      onClick={() =>
+        isRunning ? stopTimer.mutate(undefined) : startTimer.mutate(todo.id)}
+      disabled={disabled || isPending}
+      className={`${
+        isRunning
+          ? ""
+          : "opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+      } p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0`}
+      title={isRunning ? "Stop timer" : "Start timer"}
+    >
+      {isPending
+        ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+        : isRunning
+        ? <Square className="w-3 h-3 text-emerald-400" />
+        : <Play className="w-3 h-3 text-slate-400 hover:text-white" />}
+    </button>
+  );
+}
+
+const inputClassName =
+  "bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1";
+
+/**
+ * Start, end and note of a time entry being logged or corrected.
+ */
+function TimeEntryForm({
+  initial,
+  submitLabel,
+  pending,
+  onSubmit,
+  onCancel,
+}: {
+  initial: { startedAt: string; endedAt: string; note: string };
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (
+    entry: { startedAt: string; endedAt: string; note: string | null },
+  ) => void;
+  onCancel: () => void;
+}) {
+  const [startedAt, setStartedAt] = useState(initial.startedAt);
+  const [endedAt, setEndedAt] = useState(initial.endedAt);
+  const [note, setNote] = useState(initial.note);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        <input
+          type="datetime-local"
+          value={startedAt}
+          onChange={(e) => setStartedAt(e.target.value)}
+          className={`flex-1 ${inputClassName}`}
+        />
+        <input
+          type="datetime-local"
+          value={endedAt}
+          onChange={(e) => setEndedAt(e.target.value)}
+          className={`flex-1 ${inputClassName}`}
+        />
+      </div>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={500}
+        placeholder="Note"
+        className={`w-full ${inputClassName}`}
+      />
+      <div className="flex gap-2">
+        <Button
+          onClick={() =>
+            onSubmit({
+              startedAt: fromLocalInput(startedAt),
+              endedAt: fromLocalInput(endedAt),
+              note: note.trim() || null,
+            })}
+          disabled={!startedAt || !endedAt || pending}
+          size="sm"
+          className="bg-blue-600 text-white hover:bg-blue-500 text-xs"
+        >
+          {pending ? <Loader className="w-3 h-3 animate-spin" /> : submitLabel}
+        </Button>
+        <Button
+          onClick={onCancel}
+          variant="ghost"
+          size="sm"
+          className="text-slate-400 hover:text-white text-xs"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function TimeEntryItem({ entry }: { entry: any }) {
+  const [editing, setEditing] = useState(false);
+  const updateEntry = useUpdateTimeEntry();
+  const deleteEntry = useDeleteTimeEntry();
+  const elapsed = useElapsed(entry.endedAt ? null : entry);
+
+  if (editing) {
+    return (
+      <li>
+        <TimeEntryForm
+          initial={{
+            startedAt: toLocalInput(entry.startedAt),
+            endedAt: toLocalInput(entry.endedAt ?? new Date().toISOString()),
+            note: entry.note ?? "",
+          }}
+          submitLabel="Save"
+          pending={updateEntry.isPending}
+          onSubmit={(changes) =>
+            updateEntry.mutate({ id: entry.id, ...changes }, {
+              onSuccess: () => setEditing(false),
+            })}
+          onCancel={() => setEditing(false)}
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className="group/entry flex items-center gap-2">
+      <div className="flex-1 min-w-0">
+        <p className="text-slate-300">
+          {new Date(entry.startedAt).toLocaleString()}
+          {entry.endedAt
+            ? ` – ${new Date(entry.endedAt).toLocaleTimeString()}`
+            : " – running"}
+        </p>
+        {entry.note && (
+          <p className="truncate text-[10px] text-slate-500">{entry.note}</p>
+        )}
+      </div>
+      <span className="font-mono text-slate-400">
+        {formatDuration(entry.endedAt ? entry.seconds : elapsed)}
+      </span>
+      <button
+        onClick={() => setEditing(true)}
+        className="p-0.5 hover:bg-slate-700 rounded"
+        title="Edit entry"
+      >
+        <Pencil className="w-3 h-3 text-slate-500 hover:text-white" />
+      </button>
+      <button
+        onClick={() => deleteEntry.mutate(entry.id)}
+        disabled={deleteEntry.isPending}
+        className="p-0.5 hover:bg-slate-700 rounded disabled:opacity-50"
+        title="Delete entry"
+      >
+        <Trash2 className="w-3 h-3 text-slate-500 hover:text-red-400" />
+      </button>
+    </li>
+  );
+}
+
+/**
+ * The time tracked on a todo, entry by entry, which can be corrected or
+ * logged by hand.
+ */
+export function TodoTimeEntries({ todoId }: { todoId: number }) {
+  const { data, isLoading } = useTimeEntries({ todoId });
+  const addEntry = useAddTimeEntry();
+  const [logging, setLogging] = useState(false);
+
+  if (isLoading) {
+    return <Loader className="w-4 h-4 text-slate-400 animate-spin" />;
+  }
+
+  const entries: any[] = data?.entries ?? [];
+  const now = new Date().toISOString();
+
+  return (
+    <div className="space-y-2 text-xs">
+      {entries.length > 0
+        ? (
+          <>
+            <p className="text-slate-400">
+              Total{" "}
+              <span className="font-mono text-slate-200">
+                {formatDuration(data?.totals.seconds ?? 0)}
+              </span>
+            </p>
+            <ul className="space-y-1">
+              {entries.map((entry) => (
+                <TimeEntryItem key={entry.id} entry={entry} />
+              ))}
+            </ul>
+          </>
+        )
+        : <p className="text-slate-500">No time tracked yet</p>}
+
+      {logging
+        ? (
+          <TimeEntryForm
+            initial={{
+              startedAt: toLocalInput(now),
+              endedAt: toLocalInput(now),
+              note: "",
+            }}
+            submitLabel="Log"
+            pending={addEntry.isPending}
+            onSubmit={(entry) =>
+              addEntry.mutate({ todoId, ...entry }, {
+                onSuccess: () => setLogging(false),
+              })}
+            onCancel={() => setLogging(false)}
+          />
+        )
+        : (
+          <button
+            onClick={() => setLogging(true)}
+            className="flex items-center gap-1 text-slate-400 hover:text-white"
+          >
+            <Plus className="w-3 h-3" />
+            Log time by hand
+          </button>
+        )}
+    </div>
+  );
+}
+
+const WEEK_DAYS = 7;
+
+/**
+ * Collapsible panel with the time tracked over the last week, per day and
+ * per todo.
+ */
+export function TimeTrackingPanel() {
+  const [open, setOpen] = useState(false);
+  const [from] = useState(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (WEEK_DAYS - 1));
+    return start.toISOString();
+  });
+  const { data, isLoading } = useTimeEntries({ from });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+        <ChevronRight
+          className={`w-3 h-3 transition-transform ${open ? "rotate-90" : ""}`}
+        />
+        <Clock className="w-3 h-3" />
+        Time tracked
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-2 space-y-3 text-xs">
+        {isLoading
+          ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          : data?.totals.seconds
+          ? (
+            <>
+              <p className="text-slate-400">
+                Last {WEEK_DAYS} days{" "}
+                <span className="font-mono text-slate-200">
+                  {formatDuration(data.totals.seconds)}
+                </span>
+              </p>
+              <ul className="space-y-0.5">
+                {data.totals.byDay.map((day: any) => (
+                  <li key={day.day} className="flex justify-between">
+                    <span className="text-slate-300">
+                      {new Date(`${day.day}T00:00`).toLocaleDateString()}
+                    </span>
+                    <span className="font-mono text-slate-400">
+                      {formatDuration(day.seconds)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <ul className="space-y-0.5 border-t border-slate-700 pt-2">
+                {data.totals.byTodo.map((todo: any) => (
+                  <li key={todo.todoId} className="flex justify-between gap-2">
+                    <span className="truncate text-slate-300">
+                      {todo.todoTitle ?? `#${todo.todoId}`}
+                    </span>
+                    <span className="font-mono text-slate-400">
+                      {formatDuration(todo.seconds)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )
+          : (
+            <p className="text-slate-500">
+              No time tracked in the last {WEEK_DAYS} days
+            </p>
+          )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Check, Loader, UserPlus } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useAssignTodo, useOptionalUser, useTeamMembers } from "@/lib/hooks";
+
+/**
+ * Profile picture of a person, or the initial of their name when they have
+ * none.
+ */
+export function MemberAvatar(
+  { member }: { member: { name?: string | null; avatar?: string | null } },
+) {
+  if (member.avatar) {
+    return (
+      <img
+        src={member.avatar}
+        alt=""
+        className="w-5 h-5 shrink-0 rounded-full"
+      />
+    );
+  }
+
+  return (
+    <span className="flex w-5 h-5 shrink-0 items-center justify-center rounded-full bg-slate-700 text-[10px] text-slate-300">
+      {(member.name ?? "?").charAt(0).toUpperCase()}
+    </span>
+  );
+}
+
+/**
+ * The people a todo can be assigned to: the team members, and the current
+ * user, who is the only one in a personal workspace.
+ */
+const useAssignees = () => {
+  const { data: team } = useTeamMembers();
+  const { data: user } = useOptionalUser();
+  const members: any[] = team?.members ?? [];
+
+  return user && !members.some((member) => member.id === user.id)
+    ? [{ id: user.id, name: user.name, avatar: user.avatar }, ...members]
+    : members;
+};
+
+/**
+ * Avatar of the assignee of a todo. Its owner can click it to assign the
+ * todo to someone else; todos nobody is assigned to only show the button
+ * on hover, and only to their owner.
+ */
+export function TodoAssigneePopover(
+  { todo, disabled }: {
+    todo: { id: number; ownerId: string | null; assigneeId: string | null };
+    disabled?: boolean;
+  },
+) {
+  const assignTodo = useAssignTodo();
+  const { data: user } = useOptionalUser();
+  const assignees = useAssignees();
+  const [open, setOpen] = useState(false);
+  const isOwner = todo.ownerId === user?.id;
+  const assignee = assignees.find((member) => member.id === todo.assigneeId);
+
+  if (!todo.assigneeId && !isOwner) return null;
+
+  const label = todo.assigneeId
+    ? `Assigned to ${
+      todo.assigneeId === user?.id ? "you" : assignee?.name ?? "a former member"
+    }`
+    : "Assign";
+
+  const handleSelect = (assigneeId: string | null) => {
+    if (assigneeId === todo.assigneeId) {
+      setOpen(false);
+      return;
+    }
+    assignTodo.mutate({ id: todo.id, assigneeId }, {
+      onSuccess: () => setOpen(false),
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled || !isOwner}
+          className={`${
+            todo.assigneeId
+              ? ""
+              : "opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+          } p-0.5 hover:bg-slate-600 rounded disabled:cursor-default flex-shrink-0`}
+          title={label}
+        >
+          {assignTodo.isPending
+            ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+            : todo.assigneeId
+            ? <MemberAvatar member={assignee ?? {}} />
+            : <UserPlus className="w-3 h-3 text-slate-400" />}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-48 bg-slate-800 border-slate-700 text-white p-1"
+        align="end"
+      >
+        {[{ id: null, name: "Unassigned" }, ...assignees].map((member) => (
+          <button
+            key={member.id ?? "unassigned"}
+            onClick={() => handleSelect(member.id)}
+            disabled={assignTodo.isPending}
+            className="w-full flex items-center gap-2 rounded px-2 py-1 text-xs text-left text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+          >
+            {member.id
+              ? <MemberAvatar member={member} />
+              : <UserPlus className="w-3 h-3 mx-1 text-slate-500" />}
+            <span className="flex-1 truncate">
+              {member.id === user?.id ? "Me" : member.name ?? member.handle}
+            </span>
+            {member.id === todo.assigneeId && <Check className="w-3 h-3" />}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
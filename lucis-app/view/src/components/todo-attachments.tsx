@@ -0,0 +1,175 @@
+import { useRef, useState } from "react";
+import { Download, FileText, Loader, Paperclip, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useAttachmentUrl,
+  useDeleteAttachment,
+  useTodoAttachments,
+  useUploadAttachment,
+} from "@/lib/hooks";
+
+const MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * The types UPLOAD_ATTACHMENT accepts, checked here too so a file that
+ * would be refused is not uploaded first.
+ */
+const CONTENT_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  "application/json",
+  "application/zip",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+]);
+
+const formatSize = (bytes: number) =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(0)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+function AttachmentItem(
+  { attachment, todoId }: { attachment: any; todoId: number },
+) {
+  const { data } = useAttachmentUrl(attachment.id);
+  const deleteAttachment = useDeleteAttachment(todoId);
+  const isImage = attachment.contentType.startsWith("image/");
+
+  return (
+    <li className="flex items-center gap-2">
+      <a
+        href={data?.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex w-10 h-10 shrink-0 items-center justify-center overflow-hidden rounded bg-slate-800 border border-slate-700"
+      >
+        {isImage && data?.url
+          ? (
+            <img
+              src={data.url}
+              alt={attachment.filename}
+              loading="lazy"
+              className="w-full h-full object-cover"
+            />
+          )
+          : <FileText className="w-4 h-4 text-slate-400" />}
+      </a>
+      <div className="flex-1 min-w-0">
+        <p className="truncate text-xs text-slate-200">
+          {attachment.filename}
+        </p>
+        <p className="text-[10px] text-slate-500">
+          {formatSize(attachment.size)}
+        </p>
+      </div>
+      {data?.url && (
+        <a
+          href={data.url}
+          download={attachment.filename}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="p-1 hover:bg-slate-700 rounded"
+          title="Download"
+        >
+          <Download className="w-3 h-3 text-slate-400 hover:text-white" />
+        </a>
+      )}
+      <button
+        onClick={() => deleteAttachment.mutate(attachment.id)}
+        disabled={deleteAttachment.isPending}
+        className="p-1 hover:bg-slate-700 rounded disabled:opacity-50"
+        title="Delete attachment"
+      >
+        <Trash2 className="w-3 h-3 text-slate-400 hover:text-red-400" />
+      </button>
+    </li>
+  );
+}
+
+/**
+ * The files attached to a todo, with image thumbnails. Files are added
+ * with the button or by dropping them on the section.
+ */
+export function TodoAttachments({ todoId }: { todoId: number }) {
+  const { data, isLoading } = useTodoAttachments(todoId);
+  const uploadAttachment = useUploadAttachment(todoId);
+  const input = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const upload = (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      if (!CONTENT_TYPES.has(file.type)) {
+        toast.error(`${file.name}: this type of file cannot be attached`);
+      } else if (file.size > MAX_BYTES) {
+        toast.error(
+          `${file.name}: files can be up to ${formatSize(MAX_BYTES)}`,
+        );
+      } else {
+        uploadAttachment.mutate(file);
+      }
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        upload(e.dataTransfer.files);
+      }}
+      className={`space-y-2 rounded ${dragging ? "ring-1 ring-blue-500" : ""}`}
+    >
+      {isLoading
+        ? <Loader className="w-4 h-4 text-slate-400 animate-spin" />
+        : data?.attachments.length
+        ? (
+          <ul className="space-y-2">
+            {data.attachments.map((attachment: any) => (
+              <AttachmentItem
+                key={attachment.id}
+                attachment={attachment}
+                todoId={todoId}
+              />
+            ))}
+          </ul>
+        )
+        : <p className="text-xs text-slate-500">No attachments</p>}
+
+      <input
+        ref={input}
+        type="file"
+        multiple
+        accept={[...CONTENT_TYPES].join(",")}
+        onChange={(e) => {
+          upload(e.target.files);
+          e.target.value = "";
+        }}
+        className="hidden"
+      />
+      <button
+        onClick={() => input.current?.click()}
+        disabled={uploadAttachment.isPending}
+        className="flex items-center gap-1 text-xs text-slate-400 hover:text-white disabled:opacity-50"
+      >
+        {uploadAttachment.isPending
+          ? <Loader className="w-3 h-3 animate-spin" />
+          : <Paperclip className="w-3 h-3" />}
+        Attach files
+      </button>
+    </div>
+  );
+}
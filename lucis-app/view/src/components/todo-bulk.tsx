@@ -0,0 +1,246 @@
+import {
+  createContext,
+  type ReactNode,
+  useContext,
+  useMemo,
+  useState,
+} from "react";
+import {
+  CheckCircle,
+  CheckSquare,
+  Circle,
+  Flag,
+  FolderInput,
+  Loader,
+  Square,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { PRIORITIES } from "@/components/todo-priority";
+import {
+  type BulkTodoAction,
+  useBulkUpdateTodos,
+  useListLists,
+} from "@/lib/hooks";
+
+interface TodoSelection {
+  selectedIds: number[];
+  /** Selects or unselects a todo; `range` selects every todo up to it */
+  toggle: (id: number, range: boolean) => void;
+  clear: () => void;
+}
+
+const TodoSelectionContext = createContext<TodoSelection | null>(null);
+
+const useTodoSelection = () => {
+  const selection = useContext(TodoSelectionContext);
+  if (!selection) {
+    throw new Error("useTodoSelection must be used in a TodoSelectionProvider");
+  }
+  return selection;
+};
+
+/**
+ * The ids of a todos tree in the order they are shown.
+ */
+const flattenIds = (todos: any[]): number[] =>
+  todos.flatMap((todo) => [todo.id, ...flattenIds(todo.children ?? [])]);
+
+/**
+ * Keeps track of the selected todos among the shown `todos`. Selected todos
+ * that stop being shown, e.g. once deleted, are dropped from the selection.
+ */
+export function TodoSelectionProvider(
+  { todos, children }: { todos: any[]; children: ReactNode },
+) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [anchorId, setAnchorId] = useState<number | null>(null);
+  const shownIds = useMemo(() => flattenIds(todos), [todos]);
+
+  const selection = useMemo<TodoSelection>(() => ({
+    selectedIds: selected.filter((id) => shownIds.includes(id)),
+    toggle: (id, range) => {
+      const from = anchorId === null ? -1 : shownIds.indexOf(anchorId);
+      const to = shownIds.indexOf(id);
+      if (range && from !== -1 && to !== -1) {
+        const ids = shownIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+        setSelected((current) => [...new Set([...current, ...ids])]);
+      } else {
+        setSelected((current) =>
+          current.includes(id)
+            ? current.filter((selectedId) => selectedId !== id)
+            : [...current, id]
+        );
+      }
+      setAnchorId(id);
+    },
+    clear: () => {
+      setSelected([]);
+      setAnchorId(null);
+    },
+  }), [selected, anchorId, shownIds]);
+
+  return (
+    <TodoSelectionContext.Provider value={selection}>
+      {children}
+    </TodoSelectionContext.Provider>
+  );
+}
+
+/**
+ * Checkbox that selects a todo. Shift-click selects every todo between the
+ * last one clicked and this one. It only shows on hover until some todo is
+ * selected.
+ */
+export function SelectTodoCheckbox({ todoId }: { todoId: number }) {
+  const { selectedIds, toggle } = useTodoSelection();
+  const isSelected = selectedIds.includes(todoId);
+
+  return (
+    <button
+      // Keeps shift-click from selecting text
+      onMouseDown={(e) => e.shiftKey && e.preventDefault()}
+      onClick={(e) => toggle(todoId, e.shiftKey)}
+      className={`${
+        selectedIds.length > 0
+          ? ""
+          : "opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+      } flex-shrink-0 p-0.5 hover:bg-slate-600 rounded`}
+      title={isSelected ? "Unselect" : "Select (shift-click for a range)"}
+    >
+      {isSelected
+        ? <CheckSquare className="w-3 h-3 text-blue-400" />
+        : <Square className="w-3 h-3 text-slate-500" />}
+    </button>
+  );
+}
+
+const barButtonClass =
+  "flex items-center gap-1 rounded px-2 py-1 text-xs text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-50";
+
+/**
+ * Actions for the selected todos, shown while any is selected.
+ */
+export function BulkActionBar() {
+  const { selectedIds, clear } = useTodoSelection();
+  const bulkUpdate = useBulkUpdateTodos();
+  const { data: lists } = useListLists();
+  const [openMenu, setOpenMenu] = useState<"move" | "priority" | null>(null);
+
+  if (selectedIds.length === 0) return null;
+
+  const apply = (action: BulkTodoAction) =>
+    bulkUpdate.mutate({ ids: selectedIds, action }, {
+      onSuccess: () => {
+        setOpenMenu(null);
+        clear();
+      },
+    });
+
+  const menuProps = (menu: "move" | "priority") => ({
+    open: openMenu === menu,
+    onOpenChange: (open: boolean) => setOpenMenu(open ? menu : null),
+  });
+
+  return (
+    <div className="sticky top-2 z-10 flex flex-wrap items-center gap-1 rounded-lg bg-slate-800 border border-blue-500/60 px-2 py-1 shadow-lg">
+      <span className="px-2 text-xs font-medium text-white">
+        {selectedIds.length} selected
+      </span>
+      {bulkUpdate.isPending && (
+        <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+      )}
+
+      <button
+        onClick={() => apply({ type: "complete" })}
+        disabled={bulkUpdate.isPending}
+        className={barButtonClass}
+      >
+        <CheckCircle className="w-3 h-3" />
+        Complete
+      </button>
+      <button
+        onClick={() => apply({ type: "uncomplete" })}
+        disabled={bulkUpdate.isPending}
+        className={barButtonClass}
+      >
+        <Circle className="w-3 h-3" />
+        Reopen
+      </button>
+
+      <Popover {...menuProps("move")}>
+        <PopoverTrigger asChild>
+          <button disabled={bulkUpdate.isPending} className={barButtonClass}>
+            <FolderInput className="w-3 h-3" />
+            Move
+          </button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-48 bg-slate-800 border-slate-700 text-white p-1"
+          align="start"
+        >
+          {[{ id: null, name: "Inbox" }, ...(lists?.lists ?? [])].map((
+            list: any,
+          ) => (
+            <button
+              key={list.id ?? "inbox"}
+              onClick={() => apply({ type: "move", listId: list.id })}
+              disabled={bulkUpdate.isPending}
+              className="w-full rounded px-2 py-1 text-xs text-left text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              {list.name}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+
+      <Popover {...menuProps("priority")}>
+        <PopoverTrigger asChild>
+          <button disabled={bulkUpdate.isPending} className={barButtonClass}>
+            <Flag className="w-3 h-3" />
+            Priority
+          </button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-36 bg-slate-800 border-slate-700 text-white p-1"
+          align="start"
+        >
+          {PRIORITIES.map((priority) => (
+            <button
+              key={priority.value}
+              onClick={() =>
+                apply({ type: "setPriority", priority: priority.value })}
+              disabled={bulkUpdate.isPending}
+              className="w-full flex items-center gap-2 rounded px-2 py-1 text-xs text-left text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+            >
+              <Flag className={`w-3 h-3 ${priority.color}`} />
+              {priority.label}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+
+      <button
+        onClick={() => apply({ type: "delete" })}
+        disabled={bulkUpdate.isPending}
+        className={`${barButtonClass} hover:text-red-400`}
+      >
+        <Trash2 className="w-3 h-3" />
+        Delete
+      </button>
+
+      <button
+        onClick={clear}
+        className="ml-auto p-1 hover:bg-slate-700 rounded"
+        title="Clear selection"
+      >
+        <X className="w-3 h-3 text-slate-400" />
+      </button>
+    </div>
+  );
+}
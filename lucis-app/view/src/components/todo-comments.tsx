@@ -0,0 +1,253 @@
+import { useRef, useState } from "react";
+import { Loader, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { MemberAvatar } from "@/components/todo-assignee";
+import { Markdown } from "@/lib/markdown";
+import {
+  useAddComment,
+  useDeleteComment,
+  useEditComment,
+  useOptionalUser,
+  useTeamMembers,
+  useTodoComments,
+} from "@/lib/hooks";
+
+/**
+ * The `@partial` handle being typed right before the caret, if any.
+ */
+const MENTION_BEFORE_CARET = /(?:^|[^\w@])@([\w.-]*)$/;
+
+/**
+ * Textarea for the body of a comment. Typing `@` suggests the team members
+ * to mention, and Ctrl/Cmd+Enter submits.
+ */
+function CommentEditor({
+  initialBody = "",
+  submitLabel,
+  pending,
+  onSubmit,
+  onCancel,
+}: {
+  initialBody?: string;
+  submitLabel: string;
+  pending: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialBody);
+  const [caret, setCaret] = useState(initialBody.length);
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const { data: team } = useTeamMembers();
+
+  const partial = MENTION_BEFORE_CARET.exec(body.slice(0, caret))?.[1];
+  const suggestions = partial === undefined ? [] : (team?.members ?? [])
+    .filter((member: any) =>
+      member.handle.startsWith(partial.toLowerCase()) ||
+      member.name?.toLowerCase().includes(partial.toLowerCase())
+    )
+    .slice(0, 5);
+
+  const mention = (handle: string) => {
+    const start = caret - (partial?.length ?? 0);
+    const next = `${body.slice(0, start)}${handle} ${body.slice(caret)}`;
+    setBody(next);
+    setCaret(start + handle.length + 1);
+    textarea.current?.focus();
+  };
+
+  const submit = () => {
+    if (body.trim()) onSubmit(body.trim());
+  };
+
+  return (
+    <div className="space-y-1">
+      <textarea
+        ref={textarea}
+        value={body}
+        onChange={(e) => {
+          setBody(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit();
+          if (e.key === "Escape" && onCancel) {
+            e.stopPropagation();
+            onCancel();
+          }
+        }}
+        rows={Math.min(8, Math.max(2, body.split("\n").length))}
+        placeholder="Write a comment… Markdown and @mentions work"
+        className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1"
+      />
+      {suggestions.length > 0 && (
+        <ul className="rounded border border-slate-700 bg-slate-800 text-xs">
+          {suggestions.map((member: any) => (
+            <li key={member.id}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => mention(member.handle)}
+                className="w-full px-2 py-1 text-left text-slate-300 hover:bg-slate-700"
+              >
+                @{member.handle}
+                {member.name && (
+                  <span className="ml-1 text-slate-500">{member.name}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Button
+          onClick={submit}
+          disabled={!body.trim() || pending}
+          size="sm"
+          className="bg-blue-600 text-white hover:bg-blue-500 text-xs"
+        >
+          {pending ? <Loader className="w-3 h-3 animate-spin" /> : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button
+            onClick={onCancel}
+            variant="ghost"
+            size="sm"
+            className="text-slate-400 hover:text-white text-xs"
+          >
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommentItem(
+  { comment, isOwn }: { comment: any; isOwn: boolean },
+) {
+  const [editing, setEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const editComment = useEditComment(comment.todoId);
+  const deleteComment = useDeleteComment(comment.todoId);
+
+  return (
+    <li className="flex gap-2">
+      <MemberAvatar member={comment.author} />
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-1.5 text-[10px] text-slate-500">
+          <span className="font-medium text-slate-300">
+            {isOwn ? "You" : comment.author.name ?? comment.author.id}
+          </span>
+          <time>{new Date(comment.createdAt).toLocaleString()}</time>
+          {comment.editedAt && (
+            <span title={new Date(comment.editedAt).toLocaleString()}>
+              (edited)
+            </span>
+          )}
+          {isOwn && !editing && (
+            <span className="ml-auto flex gap-0.5">
+              <button
+                onClick={() => setEditing(true)}
+                className="p-0.5 hover:bg-slate-700 rounded"
+                title="Edit comment"
+              >
+                <Pencil className="w-3 h-3 text-slate-500 hover:text-white" />
+              </button>
+              <Popover
+                open={confirmingDelete}
+                onOpenChange={setConfirmingDelete}
+              >
+                <PopoverTrigger asChild>
+                  <button
+                    className="p-0.5 hover:bg-slate-700 rounded"
+                    title="Delete comment"
+                  >
+                    <Trash2 className="w-3 h-3 text-slate-500 hover:text-red-400" />
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent
+                  className="w-44 bg-slate-800 border-slate-700 text-white p-2"
+                  align="end"
+                >
+                  <button
+                    onClick={() => deleteComment.mutate(comment.id)}
+                    disabled={deleteComment.isPending}
+                    className="w-full rounded bg-red-600/80 hover:bg-red-600 text-white px-2 py-1 text-xs text-left disabled:opacity-50"
+                  >
+                    Delete comment
+                  </button>
+                </PopoverContent>
+              </Popover>
+            </span>
+          )}
+        </div>
+        {editing
+          ? (
+            <CommentEditor
+              initialBody={comment.body}
+              submitLabel="Save"
+              pending={editComment.isPending}
+              onSubmit={(body) =>
+                editComment.mutate({ id: comment.id, body }, {
+                  onSuccess: () => setEditing(false),
+                })}
+              onCancel={() => setEditing(false)}
+            />
+          )
+          : (
+            <div className="text-xs text-slate-200">
+              <Markdown
+                text={comment.body}
+                mentions={comment.mentions.map((m: any) => m.handle)}
+              />
+            </div>
+          )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * The comment thread of a todo, oldest first, with a box to add to it.
+ */
+export function TodoComments({ todoId }: { todoId: number }) {
+  const { data, isLoading } = useTodoComments(todoId);
+  const { data: user } = useOptionalUser();
+  const addComment = useAddComment(todoId);
+  const [draftKey, setDraftKey] = useState(0);
+
+  return (
+    <div className="space-y-3">
+      {isLoading
+        ? <Loader className="w-4 h-4 text-slate-400 animate-spin" />
+        : data?.comments.length
+        ? (
+          <ul className="space-y-3">
+            {data.comments.map((comment: any) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                isOwn={comment.author.id === user?.id}
+              />
+            ))}
+          </ul>
+        )
+        : <p className="text-xs text-slate-500">No comments yet</p>}
+
+      <CommentEditor
+        key={draftKey}
+        submitLabel="Comment"
+        pending={addComment.isPending}
+        onSubmit={(body) =>
+          addComment.mutate(body, {
+            onSuccess: () => setDraftKey(draftKey + 1),
+          })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useDeferredValue, useState } from "react";
+import { CheckCircle, Circle, Loader, Lock, X } from "lucide-react";
+import {
+  useAddTodoDependency,
+  useRemoveTodoDependency,
+  useSearchTodos,
+  useTodoGraph,
+} from "@/lib/hooks";
+
+function NodeTitle({ node }: { node: any }) {
+  return (
+    <span className="flex flex-1 min-w-0 items-center gap-1.5">
+      {node.completed
+        ? <CheckCircle className="w-3 h-3 shrink-0 text-slate-500" />
+        : node.blocked
+        ? <Lock className="w-3 h-3 shrink-0 text-amber-400" />
+        : <Circle className="w-3 h-3 shrink-0 text-slate-400" />}
+      <span
+        className={`truncate ${
+          node.completed ? "text-slate-500 line-through" : "text-slate-200"
+        }`}
+      >
+        {node.title ?? `#${node.id}`}
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Search box to pick another todo as a blocker of `todoId`.
+ */
+function AddBlocker(
+  { todoId, exclude }: { todoId: number; exclude: Set<number> },
+) {
+  const [query, setQuery] = useState("");
+  const deferredQuery = useDeferredValue(query.trim());
+  const { data } = useSearchTodos(deferredQuery);
+  const addDependency = useAddTodoDependency();
+  const results: any[] = deferredQuery
+    ? (data?.results ?? []).filter(({ todo }: any) => !exclude.has(todo.id))
+    : [];
+
+  return (
+    <div className="space-y-1">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Add a blocking todo..."
+        disabled={addDependency.isPending}
+        className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1 placeholder:text-slate-500 disabled:opacity-50"
+      />
+      {results.length > 0 && (
+        <ul className="rounded border border-slate-700 bg-slate-800 text-xs">
+          {results.slice(0, 5).map(({ todo }) => (
+            <li key={todo.id}>
+              <button
+                onClick={() =>
+                  addDependency.mutate({ todoId, blockedById: todo.id }, {
+                    onSuccess: () => setQuery(""),
+                  })}
+                className="w-full px-2 py-1 text-left text-slate-300 hover:bg-slate-700 truncate"
+              >
+                {todo.title}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The todos blocking a todo, which can be removed or added to, and the
+ * todos it blocks in turn.
+ */
+export function TodoDependencies({ todoId }: { todoId: number }) {
+  const { data, isLoading } = useTodoGraph(todoId);
+  const removeDependency = useRemoveTodoDependency();
+
+  if (isLoading) {
+    return <Loader className="w-4 h-4 text-slate-400 animate-spin" />;
+  }
+
+  const nodes = new Map<number, any>(
+    (data?.nodes ?? []).map((node: any) => [node.id, node]),
+  );
+  const edges: any[] = data?.edges ?? [];
+  const blockers = edges.filter((edge) => edge.todoId === todoId)
+    .map((edge) => nodes.get(edge.blockedById));
+  const blocking = edges.filter((edge) => edge.blockedById === todoId)
+    .map((edge) => nodes.get(edge.todoId));
+
+  return (
+    <div className="space-y-2 text-xs">
+      {blockers.length > 0
+        ? (
+          <ul className="space-y-1">
+            {blockers.map((node) => (
+              <li key={node.id} className="flex items-center gap-2">
+                <NodeTitle node={node} />
+                <button
+                  onClick={() =>
+                    removeDependency.mutate({ todoId, blockedById: node.id })}
+                  disabled={removeDependency.isPending}
+                  className="p-0.5 hover:bg-slate-700 rounded disabled:opacity-50"
+                  title="Remove blocker"
+                >
+                  <X className="w-3 h-3 text-slate-500 hover:text-white" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+        : <p className="text-slate-500">Not blocked by other todos</p>}
+
+      <AddBlocker
+        todoId={todoId}
+        exclude={new Set([todoId, ...blockers.map((node) => node.id)])}
+      />
+
+      {blocking.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-slate-500">Blocks</p>
+          <ul className="space-y-1">
+            {blocking.map((node) => (
+              <li key={node.id} className="flex items-center gap-2">
+                <NodeTitle node={node} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
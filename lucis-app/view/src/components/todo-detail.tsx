@@ -0,0 +1,233 @@
+import { createPortal } from "react-dom";
+import {
+  CheckCircle,
+  Circle,
+  Clock,
+  History,
+  Link2,
+  Loader,
+  MessageSquare,
+  Paperclip,
+  Sparkles,
+  User,
+  Webhook,
+  X,
+} from "lucide-react";
+import { useOptionalUser, useTodoHistory } from "@/lib/hooks";
+import { TodoComments } from "@/components/todo-comments";
+import { TodoAttachments } from "@/components/todo-attachments";
+import { TodoDependencies } from "@/components/todo-dependencies";
+import { TodoTimeEntries } from "@/components/time-tracking";
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  completed: "Completed",
+  status: "Status",
+  dueAt: "Due",
+  remindAt: "Reminder",
+  remindedAt: "Reminded",
+  parentId: "Parent",
+  listId: "List",
+  priority: "Priority",
+  recurrence: "Repeat",
+  deletedAt: "Deleted",
+  tags: "Tags",
+  assigneeId: "Assignee",
+  blockedBy: "Blocked by",
+};
+
+const DATE_FIELDS = new Set(["dueAt", "remindAt", "remindedAt", "deletedAt"]);
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined) return "none";
+  if (Array.isArray(value) && field === "blockedBy") {
+    return value.length ? value.map((id) => `#${id}`).join(", ") : "none";
+  }
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "none";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (DATE_FIELDS.has(field)) return new Date(String(value)).toLocaleString();
+  if (field === "parentId") return `#${value}`;
+  return String(value);
+};
+
+/**
+ * One line per changed field: "Title: old → new".
+ */
+function EventChanges({ event }: { event: any }) {
+  const fields = Object.keys(event.after ?? event.before ?? {});
+
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {fields.map((field) => (
+        <li key={field} className="text-[11px] text-slate-400">
+          <span className="text-slate-500">
+            {FIELD_LABELS[field] ?? field}:
+          </span>{" "}
+          {event.before && (
+            <>
+              <span className="line-through">
+                {formatValue(field, event.before[field])}
+              </span>
+              {" → "}
+            </>
+          )}
+          <span className="text-slate-200">
+            {formatValue(field, event.after?.[field])}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const describeEvent = (event: any) => {
+  switch (event.type) {
+    case "created":
+      return "Created";
+    case "toggled":
+      return event.after?.completed ? "Completed" : "Reopened";
+    case "edited":
+      return "Edited";
+    case "deleted":
+      return "Moved to the trash";
+    case "restored":
+      return "Restored from the trash";
+    default:
+      return event.type;
+  }
+};
+
+/**
+ * Timeline of the changes made to a todo, newest first.
+ */
+function TodoHistory({ todoId }: { todoId: number }) {
+  const { data, isLoading } = useTodoHistory(todoId);
+  const { data: user } = useOptionalUser();
+  const events = [...(data?.events ?? [])].reverse();
+
+  if (isLoading) {
+    return <Loader className="w-4 h-4 text-slate-400 animate-spin" />;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-xs text-slate-500">No history yet</p>;
+  }
+
+  return (
+    <ol className="space-y-3 border-l border-slate-700 pl-3">
+      {events.map((event: any) => (
+        <li key={event.id}>
+          <div className="flex items-center gap-1.5 text-xs text-slate-200">
+            {event.source === "AI_TOOL_EXECUTOR"
+              ? (
+                <span title="Made by the AI tool executor">
+                  <Sparkles className="w-3 h-3 text-purple-400" />
+                </span>
+              )
+              : event.source === "webhook"
+              ? (
+                <span title="Made by an inbound webhook">
+                  <Webhook className="w-3 h-3 text-sky-400" />
+                </span>
+              )
+              : (
+                <span title="Made by a person">
+                  <User className="w-3 h-3 text-slate-400" />
+                </span>
+              )}
+            <span className="font-medium">{describeEvent(event)}</span>
+            <span className="text-slate-500">
+              by {event.actorId === user?.id ? "you" : event.actorId}
+              {event.source === "AI_TOOL_EXECUTOR" && " via AI"}
+              {event.source === "webhook" && " via webhook"}
+            </span>
+          </div>
+          <time className="text-[10px] text-slate-500">
+            {new Date(event.createdAt).toLocaleString()}
+          </time>
+          {event.type === "edited" && <EventChanges event={event} />}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Side drawer with the details of a todo: its blockers, tracked time,
+ * attachments, comments and history. It is rendered in a portal so it is
+ * not part of the draggable todo that opens it.
+ */
+export function TodoDetailDrawer(
+  { todo, onClose }: { todo: any; onClose: () => void },
+) {
+  return createPortal(
+    <div className="fixed inset-0 z-40 flex justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/40" />
+      <aside
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+        className="relative w-full max-w-sm h-full overflow-y-auto bg-slate-900 border-l border-slate-700 p-4 space-y-4"
+      >
+        <div className="flex items-start gap-2">
+          {todo.completed
+            ? <CheckCircle className="w-4 h-4 mt-0.5 text-slate-400" />
+            : <Circle className="w-4 h-4 mt-0.5 text-slate-500" />}
+          <h3 className="flex-1 text-sm font-medium text-white break-words">
+            {todo.title}
+          </h3>
+          <button
+            autoFocus
+            onClick={onClose}
+            className="p-1 hover:bg-slate-700 rounded"
+            title="Close"
+          >
+            <X className="w-3 h-3 text-slate-400" />
+          </button>
+        </div>
+
+        <section className="space-y-2">
+          <h4 className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+            <Link2 className="w-3 h-3" />
+            Blocked by
+          </h4>
+          <TodoDependencies todoId={todo.id} />
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+            <Clock className="w-3 h-3" />
+            Time
+          </h4>
+          <TodoTimeEntries todoId={todo.id} />
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+            <Paperclip className="w-3 h-3" />
+            Attachments
+          </h4>
+          <TodoAttachments todoId={todo.id} />
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+            <MessageSquare className="w-3 h-3" />
+            Comments
+          </h4>
+          <TodoComments todoId={todo.id} />
+        </section>
+
+        <section className="space-y-2">
+          <h4 className="flex items-center gap-1.5 text-xs font-medium text-slate-400">
+            <History className="w-3 h-3" />
+            History
+          </h4>
+          <TodoHistory todoId={todo.id} />
+        </section>
+      </aside>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,485 @@
+import { useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowDown,
+  ArrowUp,
+  Columns3,
+  FolderInput,
+  Inbox,
+  List,
+  Loader,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  useArchiveList,
+  useCreateList,
+  useDeleteList,
+  useListLists,
+  useMoveTodos,
+  useRenameList,
+  useSetListStatuses,
+} from "@/lib/hooks";
+
+const LIST_NAME_MAX_LENGTH = 60;
+const STATUS_NAME_MAX_LENGTH = 32;
+const WORKFLOW_MAX_STATUSES = 10;
+
+function ListNameInput(
+  { initialName = "", placeholder, isPending, onSubmit, onCancel }: {
+    initialName?: string;
+    placeholder?: string;
+    isPending: boolean;
+    onSubmit: (name: string) => void;
+    onCancel?: () => void;
+  },
+) {
+  const [name, setName] = useState(initialName);
+
+  return (
+    <input
+      type="text"
+      autoFocus={!!onCancel}
+      value={name}
+      onChange={(e) => setName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" && name.trim() && !isPending) {
+          onSubmit(name.trim());
+          if (!onCancel) setName("");
+        } else if (e.key === "Escape") {
+          onCancel?.();
+        }
+      }}
+      onBlur={onCancel}
+      maxLength={LIST_NAME_MAX_LENGTH}
+      placeholder={placeholder}
+      disabled={isPending}
+      className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+    />
+  );
+}
+
+function DeleteListPopover(
+  { list, onDeleted }: { list: any; onDeleted: () => void },
+) {
+  const deleteList = useDeleteList();
+
+  const handleDelete = (todos: "inbox" | "delete") =>
+    deleteList.mutate({ id: list.id, todos }, { onSuccess: onDeleted });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-0.5 hover:bg-slate-600 rounded"
+          title="Delete list"
+        >
+          <Trash2 className="w-3 h-3 text-slate-400 hover:text-red-400" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-56 bg-slate-800 border-slate-700 text-white p-3 space-y-2"
+        align="start"
+      >
+        <p className="text-xs text-slate-300">
+          Delete <span className="font-medium">{list.name}</span>?
+        </p>
+        <button
+          onClick={() => handleDelete("inbox")}
+          disabled={deleteList.isPending}
+          className="w-full rounded bg-slate-700 hover:bg-slate-600 text-slate-200 px-2 py-1 text-xs text-left disabled:opacity-50"
+        >
+          Delete and move its todos to the inbox
+        </button>
+        <button
+          onClick={() => handleDelete("delete")}
+          disabled={deleteList.isPending}
+          className="w-full rounded bg-red-600/80 hover:bg-red-600 text-white px-2 py-1 text-xs text-left disabled:opacity-50"
+        >
+          Delete with its todos
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ListSidebarItem(
+  { list, selected, onSelect, onDeleted }: {
+    list: any;
+    selected: boolean;
+    onSelect: () => void;
+    onDeleted: () => void;
+  },
+) {
+  const renameList = useRenameList();
+  const archiveList = useArchiveList();
+  const [isRenaming, setIsRenaming] = useState(false);
+
+  if (isRenaming) {
+    return (
+      <ListNameInput
+        initialName={list.name}
+        isPending={renameList.isPending}
+        onSubmit={(name) =>
+          renameList.mutate({ id: list.id, name }, {
+            onSuccess: () => setIsRenaming(false),
+          })}
+        onCancel={() => setIsRenaming(false)}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={`group/list flex items-center gap-1 rounded px-2 py-1 text-xs ${
+        selected
+          ? "bg-slate-700 text-white"
+          : "text-slate-400 hover:bg-slate-800"
+      }`}
+    >
+      <button
+        onClick={onSelect}
+        className={`flex-1 flex items-center gap-1.5 text-left min-w-0 ${
+          list.archivedAt ? "italic opacity-60" : ""
+        }`}
+      >
+        <List className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate">{list.name}</span>
+      </button>
+      <div className="hidden group-hover/list:flex items-center">
+        <button
+          onClick={() => setIsRenaming(true)}
+          className="p-0.5 hover:bg-slate-600 rounded"
+          title="Rename list"
+        >
+          <Pencil className="w-3 h-3 text-slate-400 hover:text-blue-400" />
+        </button>
+        <button
+          onClick={() =>
+            archiveList.mutate({ id: list.id, archived: !list.archivedAt })}
+          disabled={archiveList.isPending}
+          className="p-0.5 hover:bg-slate-600 rounded"
+          title={list.archivedAt ? "Unarchive list" : "Archive list"}
+        >
+          {list.archivedAt
+            ? <ArchiveRestore className="w-3 h-3 text-slate-400" />
+            : <Archive className="w-3 h-3 text-slate-400" />}
+        </button>
+        <DeleteListPopover list={list} onDeleted={onDeleted} />
+      </div>
+      <span className="group-hover/list:hidden text-[10px] text-slate-500">
+        {list.openTodos || ""}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Sidebar with the inbox and the lists of the user. Lists can be created,
+ * renamed, archived and deleted from here.
+ */
+export function ListSidebar(
+  { selectedListId, onSelect }: {
+    selectedListId: number | null;
+    onSelect: (listId: number | null) => void;
+  },
+) {
+  const [showArchived, setShowArchived] = useState(false);
+  const { data } = useListLists(showArchived);
+  const createList = useCreateList();
+
+  return (
+    <nav className="w-40 flex-shrink-0 space-y-1">
+      <button
+        onClick={() => onSelect(null)}
+        className={`w-full flex items-center gap-1.5 rounded px-2 py-1 text-xs ${
+          selectedListId === null
+            ? "bg-slate-700 text-white"
+            : "text-slate-400 hover:bg-slate-800"
+        }`}
+      >
+        <Inbox className="w-3 h-3" />
+        <span className="flex-1 text-left">Inbox</span>
+        <span className="text-[10px] text-slate-500">
+          {data?.inbox.openTodos || ""}
+        </span>
+      </button>
+
+      {data?.lists.map((list: any) => (
+        <ListSidebarItem
+          key={list.id}
+          list={list}
+          selected={selectedListId === list.id}
+          onSelect={() => onSelect(list.id)}
+          onDeleted={() => {
+            if (selectedListId === list.id) onSelect(null);
+          }}
+        />
+      ))}
+
+      <div className="flex items-center gap-1 pt-1">
+        <ListNameInput
+          placeholder="New list..."
+          isPending={createList.isPending}
+          onSubmit={(name) =>
+            createList.mutate(name, {
+              onSuccess: (data) => onSelect(data.list.id),
+            })}
+        />
+        {createList.isPending
+          ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          : <Plus className="w-3 h-3 text-slate-500" />}
+      </div>
+
+      <button
+        onClick={() => setShowArchived(!showArchived)}
+        className="w-full text-left px-2 text-[10px] text-slate-500 hover:text-slate-300"
+      >
+        {showArchived ? "Hide archived" : "Show archived"}
+      </button>
+    </nav>
+  );
+}
+
+/**
+ * Popover to move a todo, with its subtasks, to another list.
+ */
+export function MoveTodoPopover(
+  { todo, disabled }: {
+    todo: { id: number; listId?: number | null };
+    disabled?: boolean;
+  },
+) {
+  const moveTodos = useMoveTodos();
+  const { data } = useListLists();
+  const [open, setOpen] = useState(false);
+
+  const targets = [
+    { id: null, name: "Inbox" },
+    ...(data?.lists ?? []),
+  ].filter((list: any) => list.id !== (todo.listId ?? null));
+
+  const handleMove = (listId: number | null) =>
+    moveTodos.mutate({ ids: [todo.id], listId }, {
+      onSuccess: () => setOpen(false),
+    });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled}
+          className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0"
+          title="Move to list"
+        >
+          {moveTodos.isPending
+            ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+            : (
+              <FolderInput className="w-3 h-3 text-slate-400 hover:text-emerald-400 transition-colors" />
+            )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-48 bg-slate-800 border-slate-700 text-white p-1"
+        align="end"
+      >
+        {targets.map((list: any) => (
+          <button
+            key={list.id ?? "inbox"}
+            onClick={() => handleMove(list.id)}
+            disabled={moveTodos.isPending}
+            className="w-full rounded px-2 py-1 text-xs text-left text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+          >
+            {list.name}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * A status being edited. New statuses get an id from their name when the
+ * workflow is saved; existing ones keep theirs, so renaming a status keeps
+ * its todos in it.
+ */
+interface DraftStatus {
+  key: number;
+  id: string | null;
+  name: string;
+  done: boolean;
+}
+
+const toStatusId = (name: string, taken: Set<string>) => {
+  const base = name.toLowerCase().normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 28) || "status";
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) id = `${base}-${suffix}`;
+  return id;
+};
+
+/**
+ * Popover to edit the workflow of a list: the columns of its board, in
+ * order, and which of them count as done. The inbox always uses the
+ * default workflow.
+ */
+export function ListStatusesPopover(
+  { list }: {
+    list: {
+      id: number;
+      statuses: { id: string; name: string; done: boolean }[];
+    };
+  },
+) {
+  const setListStatuses = useSetListStatuses();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DraftStatus[]>([]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setDraft(list.statuses.map((status, key) => ({ key, ...status })));
+    }
+    setOpen(isOpen);
+  };
+
+  const update = (key: number, change: Partial<DraftStatus>) =>
+    setDraft(draft.map((status) =>
+      status.key === key ? { ...status, ...change } : status
+    ));
+
+  const move = (index: number, offset: number) => {
+    const next = [...draft];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setDraft(next);
+  };
+
+  const isValid = draft.every((status) => status.name.trim()) &&
+    draft.some((status) => status.done) &&
+    draft.some((status) => !status.done);
+
+  const handleSave = () => {
+    const taken = new Set(
+      draft.flatMap((status) => status.id ? [status.id] : []),
+    );
+    const statuses = draft.map((status) => {
+      const id = status.id ?? toStatusId(status.name, taken);
+      taken.add(id);
+      return { id, name: status.name.trim(), done: status.done };
+    });
+    setListStatuses.mutate({ id: list.id, statuses }, {
+      onSuccess: () => setOpen(false),
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+          title="Edit the columns of this list"
+        >
+          <Columns3 className="w-3 h-3" />
+          Edit columns
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 bg-slate-800 border-slate-700 text-white p-3 space-y-2"
+        align="end"
+      >
+        <ul className="space-y-1">
+          {draft.map((status, index) => (
+            <li key={status.key} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={status.name}
+                onChange={(e) => update(status.key, { name: e.target.value })}
+                maxLength={STATUS_NAME_MAX_LENGTH}
+                placeholder="Status name"
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <label
+                className="flex items-center gap-1 text-[10px] text-slate-400"
+                title="Todos in this status count as completed"
+              >
+                <input
+                  type="checkbox"
+                  checked={status.done}
+                  onChange={(e) =>
+                    update(status.key, { done: e.target.checked })}
+                />
+                Done
+              </label>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-0.5 hover:bg-slate-600 rounded disabled:opacity-30"
+                title="Move left"
+              >
+                <ArrowUp className="w-3 h-3 text-slate-400" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === draft.length - 1}
+                className="p-0.5 hover:bg-slate-600 rounded disabled:opacity-30"
+                title="Move right"
+              >
+                <ArrowDown className="w-3 h-3 text-slate-400" />
+              </button>
+              <button
+                onClick={() =>
+                  setDraft(draft.filter(({ key }) => key !== status.key))}
+                disabled={draft.length <= 2}
+                className="p-0.5 hover:bg-slate-600 rounded disabled:opacity-30"
+                title="Remove status; its todos go to the first status with the same completion"
+              >
+                <X className="w-3 h-3 text-slate-400 hover:text-red-400" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        {!isValid && (
+          <p className="text-[10px] text-amber-400">
+            Every status needs a name, and at least one must be done and one
+            open.
+          </p>
+        )}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() =>
+              setDraft([...draft, {
+                key: Math.max(0, ...draft.map(({ key }) => key)) + 1,
+                id: null,
+                name: "",
+                done: false,
+              }])}
+            disabled={draft.length >= WORKFLOW_MAX_STATUSES}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3" />
+            Add status
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid || setListStatuses.isPending}
+            className="rounded bg-blue-600 hover:bg-blue-500 text-white px-2 py-1 text-xs disabled:opacity-50"
+          >
+            {setListStatuses.isPending
+              ? <Loader className="w-3 h-3 animate-spin" />
+              : "Save"}
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
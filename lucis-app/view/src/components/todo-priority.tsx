@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Flag, Loader } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { type TodoPriority, useUpdateTodo } from "@/lib/hooks";
+
+export const PRIORITIES: {
+  value: TodoPriority;
+  label: string;
+  color: string;
+}[] = [
+  { value: "high", label: "High", color: "text-red-400" },
+  { value: "medium", label: "Medium", color: "text-amber-400" },
+  { value: "low", label: "Low", color: "text-sky-400" },
+  { value: "none", label: "No priority", color: "text-slate-400" },
+];
+
+/**
+ * Flag with the priority of a todo, which opens a popover to change it.
+ * Todos without a priority only show the flag on hover.
+ */
+export function TodoPriorityPopover(
+  { todo, disabled }: {
+    todo: { id: number; priority: TodoPriority; version: number };
+    disabled?: boolean;
+  },
+) {
+  const updateTodo = useUpdateTodo();
+  const [open, setOpen] = useState(false);
+  const current = PRIORITIES.find((priority) =>
+    priority.value === todo.priority
+  ) ?? PRIORITIES[PRIORITIES.length - 1];
+
+  const handleSelect = (priority: TodoPriority) => {
+    if (priority === todo.priority) {
+      setOpen(false);
+      return;
+    }
+    updateTodo.mutate(
+      { id: todo.id, priority, expectedVersion: todo.version },
+      { onSuccess: () => setOpen(false) },
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled}
+          className={`${
+            todo.priority === "none"
+              ? "opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+              : ""
+          } p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0`}
+          title={`Priority: ${current.label}`}
+        >
+          {updateTodo.isPending
+            ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+            : <Flag className={`w-3 h-3 ${current.color}`} />}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-36 bg-slate-800 border-slate-700 text-white p-1"
+        align="end"
+      >
+        {PRIORITIES.map((priority) => (
+          <button
+            key={priority.value}
+            onClick={() => handleSelect(priority.value)}
+            disabled={updateTodo.isPending}
+            className={`w-full flex items-center gap-2 rounded px-2 py-1 text-xs text-left hover:bg-slate-700 disabled:opacity-50 ${
+              priority.value === todo.priority
+                ? "text-white"
+                : "text-slate-300"
+            }`}
+          >
+            <Flag className={`w-3 h-3 ${priority.color}`} />
+            {priority.label}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { Bell, CalendarClock, Loader, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useUpdateTodo } from "@/lib/hooks";
+
+/**
+ * `<input type="datetime-local">` works with local times without a
+ * timezone, while the tools take ISO 8601 strings.
+ */
+const toLocalInputValue = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+};
+
+const fromLocalInputValue = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+export const isOverdue = (todo: { dueAt: string | null; completed: boolean }) =>
+  !!todo.dueAt && !todo.completed && new Date(todo.dueAt) < new Date();
+
+/**
+ * Small badge with the due date of a todo. Overdue todos are shown in red
+ * and todos due today in amber.
+ */
+export function DueBadge(
+  { todo }: {
+    todo: { dueAt: string | null; completed: boolean; remindedAt: string | null };
+  },
+) {
+  if (!todo.dueAt) return null;
+
+  const due = new Date(todo.dueAt);
+  const today = isSameDay(due, new Date());
+  const label = today
+    ? `Today ${
+      due.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })
+    }`
+    : due.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+  const color = todo.completed
+    ? "bg-slate-700 text-slate-400"
+    : isOverdue(todo)
+    ? "bg-red-500/20 text-red-300"
+    : today
+    ? "bg-amber-500/20 text-amber-300"
+    : "bg-slate-700 text-slate-300";
+
+  return (
+    <span
+      className={`flex-shrink-0 inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium ${color}`}
+      title={isOverdue(todo) ? "Overdue" : "Due date"}
+    >
+      {todo.remindedAt && !todo.completed && <Bell className="w-2.5 h-2.5" />}
+      {isOverdue(todo) ? `Overdue · ${label}` : label}
+    </span>
+  );
+}
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+type RepeatKind = "none" | "daily" | "interval" | "weekly" | "monthly";
+
+interface RepeatState {
+  kind: RepeatKind;
+  /** Every N days, for "interval" */
+  interval: number;
+  /** RRULE weekday codes, for "weekly" */
+  days: string[];
+  /** Day of the month, for "monthly" */
+  monthDay: number;
+}
+
+const rrulePart = (rrule: string, key: string) =>
+  rrule.split(";").find((part) => part.startsWith(`${key}=`))?.slice(
+    key.length + 1,
+  );
+
+/**
+ * Reads the RRULE subset supported by the tools into the repeat form.
+ */
+const toRepeatState = (rrule: string | null): RepeatState => {
+  const state: RepeatState = {
+    kind: "none",
+    interval: 2,
+    days: [],
+    monthDay: new Date().getDate(),
+  };
+  if (!rrule) return state;
+
+  const interval = Number(rrulePart(rrule, "INTERVAL") ?? 1);
+  switch (rrulePart(rrule, "FREQ")) {
+    case "DAILY":
+      return interval > 1
+        ? { ...state, kind: "interval", interval }
+        : { ...state, kind: "daily" };
+    case "WEEKLY":
+      return {
+        ...state,
+        kind: "weekly",
+        days: rrulePart(rrule, "BYDAY")?.split(",") ?? [],
+      };
+    case "MONTHLY":
+      return {
+        ...state,
+        kind: "monthly",
+        monthDay: Number(rrulePart(rrule, "BYMONTHDAY") ?? state.monthDay),
+      };
+    default:
+      return state;
+  }
+};
+
+const toRRule = (state: RepeatState) => {
+  switch (state.kind) {
+    case "none":
+      return null;
+    case "daily":
+      return "FREQ=DAILY";
+    case "interval":
+      return `FREQ=DAILY;INTERVAL=${state.interval}`;
+    case "weekly":
+      return state.days.length > 0
+        ? `FREQ=WEEKLY;BYDAY=${
+          WEEKDAYS.filter((day) => state.days.includes(day)).join(",")
+        }`
+        : "FREQ=WEEKLY";
+    case "monthly":
+      return `FREQ=MONTHLY;BYMONTHDAY=${state.monthDay}`;
+  }
+};
+
+/**
+ * Short description of a recurrence, e.g. "Every 3 days" or "Weekly MO, WE".
+ */
+const describeRecurrence = (rrule: string) => {
+  const interval = Number(rrulePart(rrule, "INTERVAL") ?? 1);
+  const byDay = rrulePart(rrule, "BYDAY")?.split(",").join(", ");
+
+  switch (rrulePart(rrule, "FREQ")) {
+    case "DAILY":
+      return interval > 1 ? `Every ${interval} days` : "Daily";
+    case "WEEKLY": {
+      const every = interval > 1 ? `Every ${interval} weeks` : "Weekly";
+      return byDay ? `${every} ${byDay}` : every;
+    }
+    case "MONTHLY": {
+      const every = interval > 1 ? `Every ${interval} months` : "Monthly";
+      return `${every} on day ${rrulePart(rrule, "BYMONTHDAY")}`;
+    }
+    default:
+      return rrule;
+  }
+};
+
+/**
+ * Small badge telling how a recurring todo repeats.
+ */
+export function RecurrenceBadge(
+  { todo }: { todo: { recurrence: string | null } },
+) {
+  if (!todo.recurrence) return null;
+
+  return (
+    <span
+      className="flex-shrink-0 inline-flex items-center gap-1 rounded bg-slate-700 text-slate-300 px-1.5 py-0.5 text-[10px] font-medium"
+      title="Repeats"
+    >
+      <Repeat className="w-2.5 h-2.5" />
+      {describeRecurrence(todo.recurrence)}
+    </span>
+  );
+}
+
+function RepeatFields(
+  { value, onChange }: {
+    value: RepeatState;
+    onChange: (value: RepeatState) => void;
+  },
+) {
+  const inputClassName =
+    "bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-2">
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Repeat</span>
+        <select
+          value={value.kind}
+          onChange={(e) =>
+            onChange({ ...value, kind: e.target.value as RepeatKind })}
+          className={`w-full ${inputClassName}`}
+        >
+          <option value="none">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="interval">Every N days</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+      </label>
+      {value.kind === "interval" && (
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Every
+          <input
+            type="number"
+            min={2}
+            max={365}
+            value={value.interval}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                interval: Math.max(2, Number(e.target.value) || 2),
+              })}
+            className={`w-16 ${inputClassName}`}
+          />
+          days
+        </label>
+      )}
+      {value.kind === "weekly" && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map((day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...value,
+                  days: value.days.includes(day)
+                    ? value.days.filter((selected) => selected !== day)
+                    : [...value.days, day],
+                })}
+              className={`flex-1 rounded py-0.5 text-[10px] ${
+                value.days.includes(day)
+                  ? "bg-blue-600 text-white"
+                  : "bg-slate-700 text-slate-400 hover:bg-slate-600"
+              }`}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      )}
+      {value.kind === "monthly" && (
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          On day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.monthDay}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                monthDay: Math.min(
+                  31,
+                  Math.max(1, Number(e.target.value) || 1),
+                ),
+              })}
+            className={`w-16 ${inputClassName}`}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Popover to set the due date, the reminder and the recurrence of a todo.
+ */
+export function TodoSchedulePopover(
+  { todo, disabled }: {
+    todo: {
+      id: number;
+      dueAt: string | null;
+      remindAt: string | null;
+      recurrence: string | null;
+      version: number;
+    };
+    disabled?: boolean;
+  },
+) {
+  const updateTodo = useUpdateTodo();
+  const [open, setOpen] = useState(false);
+  const [dueAt, setDueAt] = useState(toLocalInputValue(todo.dueAt));
+  const [remindAt, setRemindAt] = useState(toLocalInputValue(todo.remindAt));
+  const [repeat, setRepeat] = useState(toRepeatState(todo.recurrence));
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDueAt(toLocalInputValue(todo.dueAt));
+      setRemindAt(toLocalInputValue(todo.remindAt));
+      setRepeat(toRepeatState(todo.recurrence));
+    }
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    // Only send the recurrence when it was edited, so rules the form
+    // cannot represent (e.g. every 2 weeks) are kept as they are
+    const recurrence = toRRule(repeat);
+    const repeatChanged =
+      recurrence !== toRRule(toRepeatState(todo.recurrence));
+
+    updateTodo.mutate({
+      id: todo.id,
+      dueAt: fromLocalInputValue(dueAt),
+      remindAt: fromLocalInputValue(remindAt),
+      recurrence: repeatChanged ? recurrence : undefined,
+      expectedVersion: todo.version,
+    }, {
+      onSuccess: () => setOpen(false),
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled}
+          className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0"
+          title="Due date, reminder and repeat"
+        >
+          <CalendarClock className="w-3 h-3 text-slate-400 hover:text-amber-400 transition-colors" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-64 bg-slate-800 border-slate-700 text-white p-4 space-y-3"
+        align="end"
+      >
+        <label className="block space-y-1">
+          <span className="text-xs text-slate-400">Due</span>
+          <input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs text-slate-400">Remind me at</span>
+          <input
+            type="datetime-local"
+            value={remindAt}
+            onChange={(e) => setRemindAt(e.target.value)}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <RepeatFields value={repeat} onChange={setRepeat} />
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setDueAt("");
+              setRemindAt("");
+              setRepeat({ ...repeat, kind: "none" });
+            }}
+            className="text-slate-400 hover:text-white"
+          >
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={updateTodo.isPending}
+            className="bg-blue-600 text-white hover:bg-blue-500"
+          >
+            {updateTodo.isPending && <Loader className="w-3 h-3 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
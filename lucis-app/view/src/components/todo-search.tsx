@@ -0,0 +1,108 @@
+import { useDeferredValue, useState } from "react";
+import { CheckCircle, Circle, Inbox, Loader, Search, X } from "lucide-react";
+import { useListLists, useSearchTodos } from "@/lib/hooks";
+
+/**
+ * A title snippet from SEARCH_TODOS, with the matched words highlighted.
+ */
+function Snippet(
+  { parts }: { parts: { text: string; match: boolean }[] },
+) {
+  return (
+    <span className="truncate">
+      {parts.map((part, index) =>
+        part.match
+          ? (
+            <mark
+              key={index}
+              className="bg-yellow-500/30 text-yellow-200 rounded-sm"
+            >
+              {part.text}
+            </mark>
+          )
+          : <span key={index}>{part.text}</span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Full-text search over every todo. Picking a result opens its list.
+ */
+export function TodoSearch(
+  { onSelectList }: { onSelectList: (listId: number | null) => void },
+) {
+  const [query, setQuery] = useState("");
+  const deferredQuery = useDeferredValue(query.trim());
+  const { data, isFetching } = useSearchTodos(deferredQuery);
+  const { data: lists } = useListLists(true);
+  const results: any[] = deferredQuery ? data?.results ?? [] : [];
+
+  const listName = (listId: number | null) =>
+    listId === null
+      ? "Inbox"
+      : lists?.lists.find((list: any) => list.id === listId)?.name;
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setQuery("");
+        }}
+        placeholder="Search todos..."
+        className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-md pl-9 pr-8 py-2 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {query && (
+        <button
+          onClick={() => setQuery("")}
+          className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 hover:bg-slate-700 rounded"
+          title="Clear search"
+        >
+          {isFetching
+            ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+            : <X className="w-3 h-3 text-slate-400" />}
+        </button>
+      )}
+
+      {deferredQuery && (
+        <div className="absolute z-10 mt-1 w-full bg-slate-800 border border-slate-700 rounded-md shadow-lg max-h-80 overflow-y-auto">
+          {results.length > 0
+            ? results.map(({ todo, snippet }) => (
+              <button
+                key={todo.id}
+                onClick={() => {
+                  onSelectList(todo.listId);
+                  setQuery("");
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-slate-200 hover:bg-slate-700"
+              >
+                {todo.completed
+                  ? <CheckCircle className="w-3 h-3 shrink-0 text-green-400" />
+                  : <Circle className="w-3 h-3 shrink-0 text-slate-500" />}
+                <span
+                  className={`flex-1 min-w-0 flex ${
+                    todo.completed ? "line-through text-slate-400" : ""
+                  }`}
+                >
+                  <Snippet parts={snippet} />
+                </span>
+                <span className="shrink-0 inline-flex items-center gap-1 text-[10px] text-slate-500">
+                  {todo.listId === null && <Inbox className="w-2.5 h-2.5" />}
+                  {listName(todo.listId)}
+                </span>
+              </button>
+            ))
+            : (
+              <p className="px-3 py-2 text-xs text-slate-400">
+                {isFetching ? "Searching..." : "No todos match this search"}
+              </p>
+            )}
+        </div>
+      )}
+    </div>
+  );
+}
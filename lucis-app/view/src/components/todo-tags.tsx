@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Loader, Tag, X } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useAddTodoTags, useListTags, useRemoveTodoTags } from "@/lib/hooks";
+
+const TAG_NAME_MAX_LENGTH = 32;
+
+/**
+ * Chips with the tags of a todo. Each chip can remove its tag.
+ */
+export function TagChips({ todo }: { todo: { id: number; tags?: string[] } }) {
+  const removeTags = useRemoveTodoTags();
+
+  if (!todo.tags?.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {todo.tags.map((tag) => (
+        <span
+          key={tag}
+          className="group/tag inline-flex items-center gap-0.5 rounded bg-indigo-500/20 text-indigo-300 px-1.5 py-0.5 text-[10px] font-medium"
+        >
+          #{tag}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              removeTags.mutate({ todoId: todo.id, tags: [tag] });
+            }}
+            disabled={removeTags.isPending}
+            className="opacity-0 group-hover/tag:opacity-100 hover:text-white"
+            title={`Remove #${tag}`}
+          >
+            <X className="w-2.5 h-2.5" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Popover to tag a todo, suggesting the tags the user already has.
+ */
+export function TodoTagsPopover(
+  { todo, disabled }: {
+    todo: { id: number; tags?: string[] };
+    disabled?: boolean;
+  },
+) {
+  const addTags = useAddTodoTags();
+  const { data } = useListTags();
+  const [name, setName] = useState("");
+
+  const suggestions = (data?.tags ?? [])
+    .filter((tag: any) => !todo.tags?.includes(tag.name))
+    .filter((tag: any) => tag.name.includes(name.trim().toLowerCase()));
+
+  const handleAdd = (tag: string) => {
+    if (!tag.trim()) return;
+    addTags.mutate({ todoId: todo.id, tags: [tag.trim()] }, {
+      onSuccess: () => setName(""),
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled}
+          className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0"
+          title="Tags"
+        >
+          <Tag className="w-3 h-3 text-slate-400 hover:text-indigo-400 transition-colors" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-56 bg-slate-800 border-slate-700 text-white p-3 space-y-2"
+        align="end"
+      >
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !addTags.isPending) handleAdd(name);
+            }}
+            maxLength={TAG_NAME_MAX_LENGTH}
+            placeholder="Add a tag..."
+            className="flex-1 bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {addTags.isPending && (
+            <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          )}
+        </div>
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {suggestions.map((tag: any) => (
+              <button
+                key={tag.id}
+                onClick={() => handleAdd(tag.name)}
+                disabled={addTags.isPending}
+                className="rounded bg-slate-700 hover:bg-indigo-500/30 text-slate-300 px-1.5 py-0.5 text-xs"
+              >
+                #{tag.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Bar to filter the todo list by tags. With more than one tag selected,
+ * todos can match any or all of them.
+ */
+export function TagFilterBar(
+  { selected, onSelectedChange, match, onMatchChange }: {
+    selected: string[];
+    onSelectedChange: (tags: string[]) => void;
+    match: "any" | "all";
+    onMatchChange: (match: "any" | "all") => void;
+  },
+) {
+  const { data } = useListTags();
+  const tags = data?.tags ?? [];
+
+  if (tags.length === 0) return null;
+
+  const toggle = (tag: string) =>
+    onSelectedChange(
+      selected.includes(tag)
+        ? selected.filter((name) => name !== tag)
+        : [...selected, tag],
+    );
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map((tag: any) => (
+        <button
+          key={tag.id}
+          onClick={() => toggle(tag.name)}
+          className={`rounded px-1.5 py-0.5 text-xs transition-colors ${
+            selected.includes(tag.name)
+              ? "bg-indigo-500 text-white"
+              : "bg-slate-800 text-slate-400 hover:bg-slate-700"
+          }`}
+        >
+          #{tag.name} <span className="opacity-60">{tag.usage}</span>
+        </button>
+      ))}
+      {selected.length > 1 && (
+        <button
+          onClick={() => onMatchChange(match === "any" ? "all" : "any")}
+          className="ml-1 rounded px-1.5 py-0.5 text-xs text-slate-300 border border-slate-600 hover:bg-slate-700"
+          title="Match todos with any or all of the selected tags"
+        >
+          {match === "any" ? "Any" : "All"}
+        </button>
+      )}
+      {selected.length > 0 && (
+        <button
+          onClick={() => onSelectedChange([])}
+          className="rounded px-1.5 py-0.5 text-xs text-slate-500 hover:text-slate-300"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
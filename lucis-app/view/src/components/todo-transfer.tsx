@@ -0,0 +1,235 @@
+import { useRef, useState } from "react";
+import {
+  ArrowDownUp,
+  ChevronRight,
+  Download,
+  Loader,
+  Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  type TodoFileFormat,
+  useExportTodos,
+  useImportTodos,
+} from "@/lib/hooks";
+
+const FORMATS: {
+  value: TodoFileFormat;
+  label: string;
+  extensions: string[];
+}[] = [
+  { value: "json", label: "JSON", extensions: ["json"] },
+  { value: "csv", label: "CSV", extensions: ["csv"] },
+  { value: "markdown", label: "Markdown checklist", extensions: ["md"] },
+  { value: "todotxt", label: "todo.txt", extensions: ["txt"] },
+];
+
+/**
+ * Errors shown in the preview of an import; the rest are only counted.
+ */
+const MAX_SHOWN_ERRORS = 5;
+
+/**
+ * Format of a file by its extension, or `fallback` when unknown.
+ */
+const formatOf = (filename: string, fallback: TodoFileFormat) => {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return FORMATS.find((format) => format.extensions.includes(extension))
+    ?.value ?? fallback;
+};
+
+/**
+ * Preview of an import, with the todos that would be created, the
+ * duplicates and the lines that could not be read.
+ */
+function ImportPreview(
+  { file, preview, onDone }: {
+    file: { name: string; format: TodoFileFormat; content: string };
+    preview: any;
+    onDone: () => void;
+  },
+) {
+  const importTodos = useImportTodos();
+  const [importDuplicates, setImportDuplicates] = useState(false);
+  const newCount = preview.todos.filter((todo: any) => todo.status === "new")
+    .length;
+  const duplicateCount = preview.todos.length - newCount;
+  const count = newCount + (importDuplicates ? duplicateCount : 0);
+
+  const handleImport = () =>
+    importTodos.mutate({
+      format: file.format,
+      content: file.content,
+      dryRun: false,
+      duplicates: importDuplicates ? "import" : "skip",
+    }, { onSuccess: onDone });
+
+  return (
+    <div className="space-y-2 rounded-md bg-slate-800 border border-slate-700 p-3 text-xs">
+      <p className="text-slate-200 truncate">{file.name}</p>
+      <p className="text-slate-400">
+        {newCount} new, {duplicateCount} duplicates, {preview.errors.length}
+        {" "}
+        errors
+        {preview.newLists.length > 0 &&
+          `; creates ${preview.newLists.join(", ")}`}
+      </p>
+
+      {preview.errors.length > 0 && (
+        <ul className="space-y-0.5 text-[11px] text-red-300">
+          {preview.errors.slice(0, MAX_SHOWN_ERRORS).map((error: any) => (
+            <li key={`${error.line}-${error.message}`}>
+              Line {error.line}: {error.message}
+            </li>
+          ))}
+          {preview.errors.length > MAX_SHOWN_ERRORS && (
+            <li>and {preview.errors.length - MAX_SHOWN_ERRORS} more</li>
+          )}
+        </ul>
+      )}
+
+      {duplicateCount > 0 && (
+        <label className="flex items-center gap-2 text-slate-400">
+          <input
+            type="checkbox"
+            checked={importDuplicates}
+            onChange={(e) => setImportDuplicates(e.target.checked)}
+          />
+          Also import duplicates
+        </label>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleImport}
+          disabled={count === 0 || importTodos.isPending}
+          size="sm"
+          className="bg-blue-600 text-white hover:bg-blue-500"
+        >
+          {importTodos.isPending
+            ? <Loader className="w-3 h-3 animate-spin" />
+            : `Import ${count} todos`}
+        </Button>
+        <Button
+          onClick={onDone}
+          variant="ghost"
+          size="sm"
+          className="text-slate-400 hover:text-white"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Collapsible panel to download the todos as a file, or to upload a file
+ * of todos, previewing what it would import first.
+ */
+export function TransferPanel() {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<TodoFileFormat>("json");
+  const [file, setFile] = useState<
+    { name: string; format: TodoFileFormat; content: string } | null
+  >(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const exportTodos = useExportTodos();
+  const previewImport = useImportTodos();
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const chosen = {
+      name: selected.name,
+      format: formatOf(selected.name, format),
+      content: await selected.text(),
+    };
+    setFile(chosen);
+    previewImport.mutate({
+      format: chosen.format,
+      content: chosen.content,
+      dryRun: true,
+      duplicates: "skip",
+    });
+  };
+
+  const reset = () => {
+    setFile(null);
+    previewImport.reset();
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+        <ChevronRight
+          className={`w-3 h-3 transition-transform ${open ? "rotate-90" : ""}`}
+        />
+        <ArrowDownUp className="w-3 h-3" />
+        Import / export
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-2 space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as TodoFileFormat)}
+            className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1"
+          >
+            {FORMATS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button
+            onClick={() => exportTodos.mutate(format)}
+            disabled={exportTodos.isPending}
+            size="sm"
+            className="bg-slate-700 text-white hover:bg-slate-600 text-xs"
+          >
+            {exportTodos.isPending
+              ? <Loader className="w-3 h-3 animate-spin mr-1" />
+              : <Download className="w-3 h-3 mr-1" />}
+            Download
+          </Button>
+          <Button
+            onClick={() => inputRef.current?.click()}
+            disabled={previewImport.isPending}
+            size="sm"
+            className="bg-slate-700 text-white hover:bg-slate-600 text-xs"
+          >
+            {previewImport.isPending
+              ? <Loader className="w-3 h-3 animate-spin mr-1" />
+              : <Upload className="w-3 h-3 mr-1" />}
+            Upload
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,.csv,.md,.txt"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+        <p className="text-[10px] text-slate-500">
+          Uploaded files are read by their extension, or as the selected
+          format. Nothing is imported until you confirm.
+        </p>
+
+        {file && previewImport.data && (
+          <ImportPreview
+            file={file}
+            preview={previewImport.data}
+            onDone={reset}
+          />
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { ChevronRight, Loader, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { useEmptyTrash, useListTrash, useRestoreTodo } from "@/lib/hooks";
+
+/**
+ * Must match TRASH_RETENTION_DAYS on the server.
+ */
+const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days left before a todo deleted at `deletedAt` is purged from the trash.
+ */
+const daysLeft = (deletedAt: string) =>
+  Math.max(
+    0,
+    Math.ceil(
+      (new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS -
+        Date.now()) / DAY_MS,
+    ),
+  );
+
+function TrashItem({ todo }: { todo: any }) {
+  const restoreTodo = useRestoreTodo();
+  const emptyTrash = useEmptyTrash();
+  const isBusy = restoreTodo.isPending || emptyTrash.isPending;
+
+  return (
+    <div className="group flex items-center gap-2 rounded-md bg-slate-800 border border-slate-700 px-3 py-2">
+      <span className="flex-1 min-w-0 truncate text-xs text-slate-400 line-through">
+        {todo.title}
+      </span>
+      <span className="text-[10px] text-slate-500">
+        {daysLeft(todo.deletedAt)}d left
+      </span>
+      <button
+        onClick={() => restoreTodo.mutate(todo.id)}
+        disabled={isBusy}
+        className="p-0.5 hover:bg-slate-600 rounded disabled:opacity-50"
+        title="Restore"
+      >
+        {restoreTodo.isPending
+          ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          : <RotateCcw className="w-3 h-3 text-slate-400 hover:text-white" />}
+      </button>
+      <button
+        onClick={() => emptyTrash.mutate([todo.id])}
+        disabled={isBusy}
+        className="p-0.5 hover:bg-slate-600 rounded disabled:opacity-50"
+        title="Delete forever"
+      >
+        <X className="w-3 h-3 text-slate-400 hover:text-red-400" />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Collapsible list of the todos in the trash, which can be restored or
+ * deleted for good.
+ */
+export function TrashPanel() {
+  const [open, setOpen] = useState(false);
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useListTrash(open);
+  const emptyTrash = useEmptyTrash();
+  const todos = data?.pages.flatMap((page: any) => page.todos) ?? [];
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-center gap-2">
+        <CollapsibleTrigger className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+          <ChevronRight
+            className={`w-3 h-3 transition-transform ${
+              open ? "rotate-90" : ""
+            }`}
+          />
+          <Trash2 className="w-3 h-3" />
+          Trash
+        </CollapsibleTrigger>
+        {open && todos.length > 0 && (
+          <button
+            onClick={() => emptyTrash.mutate(undefined)}
+            disabled={emptyTrash.isPending}
+            className="ml-auto text-[10px] text-slate-500 hover:text-red-400 disabled:opacity-50"
+          >
+            {emptyTrash.isPending ? "Emptying..." : "Empty trash"}
+          </button>
+        )}
+      </div>
+
+      <CollapsibleContent className="mt-2 space-y-2">
+        <p className="text-[10px] text-slate-500">
+          Deleted todos are removed for good after {TRASH_RETENTION_DAYS}{" "}
+          days.
+        </p>
+        {isLoading
+          ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          : todos.length > 0
+          ? todos.map((todo: any) => <TrashItem key={todo.id} todo={todo} />)
+          : <p className="text-xs text-slate-500">The trash is empty</p>}
+        {hasNextPage && (
+          <Button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            variant="ghost"
+            size="sm"
+            className="w-full text-xs text-slate-400 hover:text-white"
+          >
+            {isFetchingNextPage
+              ? <Loader className="w-3 h-3 animate-spin" />
+              : "Load more"}
+          </Button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,105 @@
+import { ArrowDownNarrowWide, ArrowUpNarrowWide, Search } from "lucide-react";
+import type { TodoSort } from "@/lib/hooks";
+
+export type CompletionFilter = "all" | "open" | "completed";
+
+export type AssigneeFilter = "all" | "me" | "unassigned";
+
+export interface TodoViewOptions {
+  text: string;
+  completion: CompletionFilter;
+  assignee: AssigneeFilter;
+  sort: TodoSort;
+  order: "asc" | "desc";
+}
+
+export const DEFAULT_VIEW_OPTIONS: TodoViewOptions = {
+  text: "",
+  completion: "all",
+  assignee: "all",
+  sort: "position",
+  order: "asc",
+};
+
+const SORT_LABELS: Record<TodoSort, string> = {
+  position: "Manual order",
+  created: "Created",
+  title: "Title",
+  completed: "Completion",
+  priority: "Priority",
+};
+
+const selectClassName =
+  "bg-slate-800 border border-slate-700 text-slate-300 text-xs rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Search box, completion and assignee filters and sort order of the todo
+ * list.
+ */
+export function TodoViewOptionsBar(
+  { value, onChange }: {
+    value: TodoViewOptions;
+    onChange: (value: TodoViewOptions) => void;
+  },
+) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-32">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-500" />
+        <input
+          type="search"
+          value={value.text}
+          onChange={(e) => onChange({ ...value, text: e.target.value })}
+          placeholder="Filter by title..."
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-md pl-7 pr-2 py-1 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <select
+        value={value.completion}
+        onChange={(e) =>
+          onChange({
+            ...value,
+            completion: e.target.value as CompletionFilter,
+          })}
+        className={selectClassName}
+      >
+        <option value="all">All</option>
+        <option value="open">Open</option>
+        <option value="completed">Completed</option>
+      </select>
+      <select
+        value={value.assignee}
+        onChange={(e) =>
+          onChange({ ...value, assignee: e.target.value as AssigneeFilter })}
+        className={selectClassName}
+      >
+        <option value="all">Anyone</option>
+        <option value="me">Assigned to me</option>
+        <option value="unassigned">Unassigned</option>
+      </select>
+      <select
+        value={value.sort}
+        onChange={(e) =>
+          onChange({ ...value, sort: e.target.value as TodoSort })}
+        className={selectClassName}
+      >
+        {Object.entries(SORT_LABELS).map(([sort, label]) => (
+          <option key={sort} value={sort}>{label}</option>
+        ))}
+      </select>
+      <button
+        onClick={() =>
+          onChange({
+            ...value,
+            order: value.order === "asc" ? "desc" : "asc",
+          })}
+        className="p-1.5 rounded-md border border-slate-700 bg-slate-800 hover:bg-slate-700"
+        title={value.order === "asc" ? "Ascending" : "Descending"}
+      >
+        {value.order === "asc"
+          ? <ArrowUpNarrowWide className="w-3 h-3 text-slate-400" />
+          : <ArrowDownNarrowWide className="w-3 h-3 text-slate-400" />}
+      </button>
+    </div>
+  );
+}
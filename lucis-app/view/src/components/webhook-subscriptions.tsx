@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { ChevronRight, Copy, Loader, Plus, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  useDeleteWebhookSubscription,
+  useListWebhookSubscriptions,
+  useRegisterWebhookSubscription,
+  useWebhookAttempts,
+} from "@/lib/hooks";
+
+const WEBHOOK_EVENTS = [
+  "todo.created",
+  "todo.toggled",
+  "todo.updated",
+  "todo.deleted",
+  "todo.restored",
+];
+
+const EVENT_STATUS_COLORS: Record<string, string> = {
+  pending: "text-amber-400",
+  delivered: "text-green-400",
+  failed: "text-red-400",
+};
+
+function WebhookAttempts({ subscriptionId }: { subscriptionId: number }) {
+  const { data, isLoading } = useWebhookAttempts(subscriptionId);
+
+  if (isLoading) {
+    return <Loader className="w-3 h-3 text-slate-400 animate-spin" />;
+  }
+  if (!data?.attempts.length) {
+    return <p className="text-[10px] text-slate-500">No attempts yet</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-[11px]">
+      {data.attempts.map((attempt: any) => (
+        <li key={attempt.id} className="flex gap-2">
+          <time className="shrink-0 text-slate-500">
+            {new Date(attempt.attemptedAt).toLocaleString()}
+          </time>
+          <span className="shrink-0 text-slate-300">{attempt.eventType}</span>
+          <span className={EVENT_STATUS_COLORS[attempt.eventStatus]}>
+            {attempt.eventStatus}
+          </span>
+          <span className="min-w-0 truncate text-slate-400">
+            {attempt.error ?? attempt.responseStatus}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SubscriptionItem({ subscription }: { subscription: any }) {
+  const [showAttempts, setShowAttempts] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const deleteSubscription = useDeleteWebhookSubscription();
+
+  const copySecret = async () => {
+    await navigator.clipboard.writeText(subscription.secret);
+    toast.success("Secret copied");
+  };
+
+  return (
+    <li className="space-y-2 rounded-md bg-slate-800/50 border border-slate-700 p-2">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 truncate text-xs text-slate-200">
+          {subscription.url}
+        </span>
+        <button
+          onClick={copySecret}
+          className="p-1 hover:bg-slate-600 rounded"
+          title="Copy signing secret"
+        >
+          <Copy className="w-3 h-3 text-slate-400 hover:text-white" />
+        </button>
+        <Popover open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+          <PopoverTrigger asChild>
+            <button
+              className="p-1 hover:bg-slate-600 rounded"
+              title="Delete subscription"
+            >
+              <Trash2 className="w-3 h-3 text-slate-400 hover:text-red-400" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="w-56 bg-slate-800 border-slate-700 text-white p-3 space-y-2"
+            align="end"
+          >
+            <p className="text-xs text-slate-300">
+              Changes stop being sent to this URL. Events not delivered yet are
+              dropped.
+            </p>
+            <button
+              onClick={() => deleteSubscription.mutate(subscription.id)}
+              disabled={deleteSubscription.isPending}
+              className="w-full rounded bg-red-600/80 hover:bg-red-600 text-white px-2 py-1 text-xs text-left disabled:opacity-50"
+            >
+              Delete subscription
+            </button>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {subscription.events.map((event: string) => (
+          <span
+            key={event}
+            className="rounded bg-slate-700 px-1.5 py-0.5 text-[10px] text-slate-300"
+          >
+            {event}
+          </span>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setShowAttempts(!showAttempts)}
+        className="text-[10px] text-slate-400 hover:text-white"
+      >
+        {showAttempts ? "Hide attempts" : "Recent attempts"}
+      </button>
+
+      {showAttempts && <WebhookAttempts subscriptionId={subscription.id} />}
+    </li>
+  );
+}
+
+function NewSubscriptionForm({ onDone }: { onDone: () => void }) {
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<string[]>(WEBHOOK_EVENTS);
+  const registerSubscription = useRegisterWebhookSubscription();
+
+  const toggleEvent = (event: string) => {
+    setEvents(
+      events.includes(event)
+        ? events.filter((e) => e !== event)
+        : [...events, event],
+    );
+  };
+
+  const handleRegister = () => {
+    registerSubscription.mutate(
+      { url: url.trim(), events },
+      { onSuccess: onDone },
+    );
+  };
+
+  return (
+    <div className="space-y-2 rounded-md bg-slate-800 border border-slate-700 p-2">
+      <input
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="https://example.com/hooks/todos"
+        className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1"
+      />
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {WEBHOOK_EVENTS.map((event) => (
+          <label
+            key={event}
+            className="flex items-center gap-1 text-[11px] text-slate-300"
+          >
+            <input
+              type="checkbox"
+              checked={events.includes(event)}
+              onChange={() => toggleEvent(event)}
+            />
+            {event}
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          onClick={handleRegister}
+          disabled={!url.trim() || events.length === 0 ||
+            registerSubscription.isPending}
+          size="sm"
+          className="bg-blue-600 text-white hover:bg-blue-500 text-xs"
+        >
+          {registerSubscription.isPending
+            ? <Loader className="w-3 h-3 animate-spin" />
+            : "Subscribe"}
+        </Button>
+        <Button
+          onClick={onDone}
+          variant="ghost"
+          size="sm"
+          className="text-slate-400 hover:text-white text-xs"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Collapsible panel with the URLs that changes of todos are POSTed to, and
+ * their recent delivery attempts.
+ */
+export function WebhookSubscriptionsPanel() {
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const { data, isLoading } = useListWebhookSubscriptions(open);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+        <ChevronRight
+          className={`w-3 h-3 transition-transform ${open ? "rotate-90" : ""}`}
+        />
+        <Send className="w-3 h-3" />
+        Outgoing webhooks
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-2 space-y-2">
+        <p className="text-[10px] text-slate-500">
+          Every change of a todo is POSTed as JSON to the subscribed URLs,
+          signed with the secret of the subscription in the X-Webhook-Signature
+          header (sha256=HMAC of "timestamp.body") with the Unix time in
+          X-Webhook-Timestamp. Failed deliveries are retried a few times,
+          waiting longer each time.
+        </p>
+
+        {isLoading
+          ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          : (
+            <ul className="space-y-2">
+              {data?.subscriptions.map((subscription: any) => (
+                <SubscriptionItem
+                  key={subscription.id}
+                  subscription={subscription}
+                />
+              ))}
+            </ul>
+          )}
+
+        {creating
+          ? <NewSubscriptionForm onDone={() => setCreating(false)} />
+          : (
+            <button
+              onClick={() => setCreating(true)}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+            >
+              <Plus className="w-3 h-3" />
+              New subscription
+            </button>
+          )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
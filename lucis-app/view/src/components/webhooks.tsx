@@ -0,0 +1,337 @@
+import { useState } from "react";
+import {
+  ChevronRight,
+  Copy,
+  Loader,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Webhook,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  useCreateWebhook,
+  useDeleteWebhook,
+  useListLists,
+  useListWebhooks,
+  useRotateWebhookSecret,
+  useUpdateWebhook,
+  useWebhookDeliveries,
+  type WebhookTemplate,
+} from "@/lib/hooks";
+
+const EXAMPLE_TEMPLATE: WebhookTemplate = {
+  title: "Follow up with {{body.name}}",
+  priority: "medium",
+  tags: ["form"],
+  idempotencyKey: "{{body.id}}",
+};
+
+const DELIVERY_STATUS_COLORS: Record<string, string> = {
+  created: "text-green-400",
+  duplicate: "text-slate-400",
+  rejected: "text-amber-400",
+  failed: "text-red-400",
+};
+
+const formatTemplate = (template: WebhookTemplate) =>
+  JSON.stringify(template, null, 2);
+
+/**
+ * Parses the template typed in a textarea, or reports why it cannot.
+ */
+const parseTemplate = (text: string): WebhookTemplate | null => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    toast.error("The template is not valid JSON");
+    return null;
+  }
+};
+
+const copy = async (text: string, what: string) => {
+  await navigator.clipboard.writeText(text);
+  toast.success(`${what} copied`);
+};
+
+function CopyField({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-10 shrink-0 text-[10px] text-slate-500">{label}</span>
+      <input
+        readOnly
+        value={value}
+        onFocus={(e) => e.target.select()}
+        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-300 text-xs rounded px-2 py-1"
+      />
+      <button
+        onClick={() => copy(value, label)}
+        className="p-1 hover:bg-slate-600 rounded"
+        title={`Copy ${label.toLowerCase()}`}
+      >
+        <Copy className="w-3 h-3 text-slate-400 hover:text-white" />
+      </button>
+    </div>
+  );
+}
+
+function WebhookDeliveries({ webhookId }: { webhookId: number }) {
+  const { data, isLoading } = useWebhookDeliveries(webhookId);
+
+  if (isLoading) {
+    return <Loader className="w-3 h-3 text-slate-400 animate-spin" />;
+  }
+  if (!data?.deliveries.length) {
+    return <p className="text-[10px] text-slate-500">No deliveries yet</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-[11px]">
+      {data.deliveries.map((delivery: any) => (
+        <li key={delivery.id} className="flex gap-2">
+          <time className="shrink-0 text-slate-500">
+            {new Date(delivery.receivedAt).toLocaleString()}
+          </time>
+          <span className={DELIVERY_STATUS_COLORS[delivery.status]}>
+            {delivery.status}
+          </span>
+          <span className="min-w-0 truncate text-slate-400">
+            {delivery.error ??
+              (delivery.todoIds.length > 0 &&
+                delivery.todoIds.map((id: number) => `#${id}`).join(" "))}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function WebhookItem({ webhook }: { webhook: any }) {
+  const [template, setTemplate] = useState(formatTemplate(webhook.template));
+  const [showDeliveries, setShowDeliveries] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const updateWebhook = useUpdateWebhook();
+  const rotateSecret = useRotateWebhookSecret();
+  const deleteWebhook = useDeleteWebhook();
+  const changed = template !== formatTemplate(webhook.template);
+
+  const handleSave = () => {
+    const parsed = parseTemplate(template);
+    if (!parsed) return;
+    updateWebhook.mutate({ id: webhook.id, template: parsed }, {
+      onSuccess: (data: any) =>
+        setTemplate(formatTemplate(data.webhook.template)),
+    });
+  };
+
+  return (
+    <li className="space-y-2 rounded-md bg-slate-800/50 border border-slate-700 p-2">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 truncate text-xs text-slate-200">
+          {webhook.name}
+        </span>
+        <button
+          onClick={() => rotateSecret.mutate(webhook.id)}
+          disabled={rotateSecret.isPending}
+          className="p-1 hover:bg-slate-600 rounded disabled:opacity-50"
+          title="Replace the secret"
+        >
+          <RefreshCw className="w-3 h-3 text-slate-400 hover:text-white" />
+        </button>
+        <Popover open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+          <PopoverTrigger asChild>
+            <button
+              className="p-1 hover:bg-slate-600 rounded"
+              title="Delete webhook"
+            >
+              <Trash2 className="w-3 h-3 text-slate-400 hover:text-red-400" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="w-56 bg-slate-800 border-slate-700 text-white p-3 space-y-2"
+            align="end"
+          >
+            <p className="text-xs text-slate-300">
+              Deliveries to this URL will fail. Todos it created are kept.
+            </p>
+            <button
+              onClick={() => deleteWebhook.mutate(webhook.id)}
+              disabled={deleteWebhook.isPending}
+              className="w-full rounded bg-red-600/80 hover:bg-red-600 text-white px-2 py-1 text-xs text-left disabled:opacity-50"
+            >
+              Delete webhook
+            </button>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <CopyField
+        label="URL"
+        value={`${globalThis.location.origin}${webhook.path}`}
+      />
+      <CopyField label="Secret" value={webhook.secret} />
+
+      <textarea
+        value={template}
+        onChange={(e) => setTemplate(e.target.value)}
+        rows={template.split("\n").length}
+        spellCheck={false}
+        className="w-full bg-slate-800 border border-slate-700 text-slate-300 text-[11px] font-mono rounded px-2 py-1"
+      />
+      <div className="flex items-center gap-2">
+        {changed && (
+          <Button
+            onClick={handleSave}
+            disabled={updateWebhook.isPending}
+            size="sm"
+            className="bg-blue-600 text-white hover:bg-blue-500 text-xs"
+          >
+            Save template
+          </Button>
+        )}
+        <button
+          onClick={() => setShowDeliveries(!showDeliveries)}
+          className="text-[10px] text-slate-400 hover:text-white"
+        >
+          {showDeliveries ? "Hide deliveries" : "Recent deliveries"}
+        </button>
+      </div>
+
+      {showDeliveries && <WebhookDeliveries webhookId={webhook.id} />}
+    </li>
+  );
+}
+
+function NewWebhookForm({ onDone }: { onDone: () => void }) {
+  const [name, setName] = useState("");
+  const [listId, setListId] = useState<number | null>(null);
+  const [template, setTemplate] = useState(formatTemplate(EXAMPLE_TEMPLATE));
+  const { data: listsData } = useListLists();
+  const createWebhook = useCreateWebhook();
+
+  const handleCreate = () => {
+    const parsed = parseTemplate(template);
+    if (!parsed) return;
+    createWebhook.mutate(
+      { name: name.trim(), template: parsed, listId },
+      { onSuccess: onDone },
+    );
+  };
+
+  return (
+    <div className="space-y-2 rounded-md bg-slate-800 border border-slate-700 p-2">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. Contact form"
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1"
+        />
+        <select
+          value={listId ?? ""}
+          onChange={(e) =>
+            setListId(e.target.value ? Number(e.target.value) : null)}
+          className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-2 py-1"
+        >
+          <option value="">Inbox</option>
+          {listsData?.lists.map((list: any) => (
+            <option key={list.id} value={list.id}>{list.name}</option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={template}
+        onChange={(e) => setTemplate(e.target.value)}
+        rows={template.split("\n").length}
+        spellCheck={false}
+        className="w-full bg-slate-800 border border-slate-700 text-slate-300 text-[11px] font-mono rounded px-2 py-1"
+      />
+      <div className="flex gap-2">
+        <Button
+          onClick={handleCreate}
+          disabled={!name.trim() || createWebhook.isPending}
+          size="sm"
+          className="bg-blue-600 text-white hover:bg-blue-500 text-xs"
+        >
+          {createWebhook.isPending
+            ? <Loader className="w-3 h-3 animate-spin" />
+            : "Create webhook"}
+        </Button>
+        <Button
+          onClick={onDone}
+          variant="ghost"
+          size="sm"
+          className="text-slate-400 hover:text-white text-xs"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Collapsible panel with the inbound webhooks, through which external
+ * systems create todos, their mapping templates and recent deliveries.
+ */
+export function WebhooksPanel() {
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const { data, isLoading } = useListWebhooks(open);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+        <ChevronRight
+          className={`w-3 h-3 transition-transform ${open ? "rotate-90" : ""}`}
+        />
+        <Webhook className="w-3 h-3" />
+        Webhooks
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-2 space-y-2">
+        <p className="text-[10px] text-slate-500">
+          External systems POST JSON to a webhook URL, signed with its secret
+          in the X-Webhook-Signature header (sha256=HMAC of
+          "timestamp.body") with the Unix time in X-Webhook-Timestamp;
+          deliveries more than 5 minutes old are rejected. The template
+          turns the payload into todos: {"{{body.field}}"}{" "}
+          is replaced with values of the payload.
+        </p>
+
+        {isLoading
+          ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+          : (
+            <ul className="space-y-2">
+              {data?.webhooks.map((webhook: any) => (
+                <WebhookItem key={webhook.id} webhook={webhook} />
+              ))}
+            </ul>
+          )}
+
+        {creating
+          ? <NewWebhookForm onDone={() => setCreating(false)} />
+          : (
+            <button
+              onClick={() => setCreating(true)}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+            >
+              <Plus className="w-3 h-3" />
+              New webhook
+            </button>
+          )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
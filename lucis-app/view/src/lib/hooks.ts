@@ -1,7 +1,12 @@
 import { client } from "./rpc-logged";
 import {
+  keepPreviousData,
+  type QueryClient,
+  useInfiniteQuery,
   useMutation,
+  useQuery,
   useQueryClient,
+  useSuspenseInfiniteQuery,
   useSuspenseQuery,
 } from "@tanstack/react-query";
 import { FailedToFetchUserError } from "@/components/logged-provider";
@@ -63,10 +68,378 @@ export const useOptionalUser = () => {
  * Example hooks from the template
  */
 
-export const useListTodos = () => {
-  return useSuspenseQuery({
-    queryKey: ["todos"],
-    queryFn: () => client.LIST_TODOS({}),
+/**
+ * Todos are cached as a tree: subtasks live in the `children` of their
+ * parent. These helpers apply a change at any depth of that tree.
+ */
+const mapTodoTree = (todos: any[], fn: (todo: any) => any): any[] =>
+  todos.map((todo) =>
+    fn({
+      ...todo,
+      children: todo.children && mapTodoTree(todo.children, fn),
+    })
+  );
+
+const filterTodoTree = (todos: any[], keep: (todo: any) => boolean): any[] =>
+  todos.filter(keep).map((todo) => ({
+    ...todo,
+    children: todo.children && filterTodoTree(todo.children, keep),
+  }));
+
+/**
+ * Moves a todo among its siblings, right after `previousId` or right before
+ * `nextId`, at whatever depth of the tree it is.
+ */
+const moveInTodoTree = (
+  todos: any[],
+  move: ReorderTodosInput,
+): any[] => {
+  const index = todos.findIndex((todo) => todo.id === move.id);
+  if (index === -1) {
+    return todos.map((todo) => ({
+      ...todo,
+      children: todo.children && moveInTodoTree(todo.children, move),
+    }));
+  }
+
+  const siblings = todos.filter((todo) => todo.id !== move.id);
+  const target = move.previousId !== null
+    ? siblings.findIndex((todo) => todo.id === move.previousId) + 1
+    : siblings.findIndex((todo) => todo.id === move.nextId);
+  siblings.splice(target, 0, todos[index]);
+  return siblings;
+};
+
+/**
+ * Todos are fetched in pages, so the cache holds `{ pages, pageParams }`.
+ * These helpers apply a change to every loaded page.
+ */
+const mapTodoPages = (old: any, fn: (todos: any[]) => any[]) => {
+  if (!old?.pages) return old;
+  return {
+    ...old,
+    pages: old.pages.map((page: any) => ({ ...page, todos: fn(page.todos) })),
+  };
+};
+
+/**
+ * Adds a todo at the end of the list, but only once the last page is loaded;
+ * otherwise it shows up when loading more.
+ */
+const appendToTodoPages = (old: any, todo: any) => {
+  const last = old?.pages?.[old.pages.length - 1];
+  if (!last || last.nextCursor) return old;
+  return {
+    ...old,
+    pages: [...old.pages.slice(0, -1), {
+      ...last,
+      todos: [...last.todos, todo],
+    }],
+  };
+};
+
+/**
+ * Reorders across the loaded pages, keeping the size of each page.
+ */
+const reorderTodoPages = (old: any, move: ReorderTodosInput) => {
+  if (!old?.pages) return old;
+  const todos = moveInTodoTree(
+    old.pages.flatMap((page: any) => page.todos),
+    move,
+  );
+  let offset = 0;
+  return {
+    ...old,
+    pages: old.pages.map((page: any) => {
+      const pageTodos = todos.slice(offset, offset + page.todos.length);
+      offset += page.todos.length;
+      return { ...page, todos: pageTodos };
+    }),
+  };
+};
+
+export type TodoSort =
+  | "position"
+  | "created"
+  | "title"
+  | "completed"
+  | "priority";
+
+export interface TodoFilters {
+  tags?: string[];
+  tagMatch?: "any" | "all";
+  /** Only completed (true) or open (false) todos */
+  completed?: boolean;
+  /** Only todos assigned to the current user, or to nobody */
+  assignee?: "me" | "unassigned";
+  /** Only todos whose title contains this text */
+  text?: string;
+  /** Defaults to "position", the manual order */
+  sort?: TodoSort;
+  order?: "asc" | "desc";
+}
+
+/**
+ * The todos of each list (`null` is the inbox) and each combination of
+ * filters are cached on their own, under the ["todos"] prefix. New todos
+ * are only added to the unfiltered, manually ordered todos of their list;
+ * other views are refetched the next time they are shown.
+ */
+export const todosQueryKey = (
+  listId: number | null,
+  filters: TodoFilters = {},
+) => ["todos", listId, filters];
+
+export const useListTodos = (
+  listId: number | null,
+  filters: TodoFilters = {},
+) => {
+  return useSuspenseInfiniteQuery({
+    queryKey: todosQueryKey(listId, filters),
+    queryFn: ({ pageParam }) =>
+      client.LIST_TODOS({
+        ...filters,
+        // Todos assigned to the user are in the lists of their owners, so
+        // they are gathered from every list
+        listId: filters.assignee === "me" ? undefined : listId,
+        tree: true,
+        cursor: pageParam ?? undefined,
+      }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: any) => lastPage.nextCursor ?? undefined,
+  });
+};
+
+/**
+ * Full-text search results live under the ["todos"] prefix too, so every
+ * todo change refreshes them. The previous results stay shown while the
+ * next ones load.
+ */
+export const useSearchTodos = (query: string) => {
+  return useQuery({
+    queryKey: ["todos", "search", query],
+    queryFn: () => client.SEARCH_TODOS({ query }),
+    enabled: query.length > 0,
+    placeholderData: keepPreviousData,
+  });
+};
+
+/**
+ * The history of a todo, refetched with the todos whenever they change.
+ */
+export const useTodoHistory = (id: number) => {
+  return useQuery({
+    queryKey: ["todos", "history", id],
+    queryFn: () => client.GET_TODO_HISTORY({ id }),
+  });
+};
+
+/**
+ * The todos linked to `todoId` by blocking dependencies, refetched with the
+ * todos as completing one unblocks others.
+ */
+export const useTodoGraph = (todoId: number) => {
+  return useQuery({
+    queryKey: ["todos", "graph", todoId],
+    queryFn: () => client.GET_TODO_GRAPH({ todoId }),
+  });
+};
+
+const useTodoDependencyMutation = (
+  mutationFn: (input: { todoId: number; blockedById: number }) => Promise<any>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["todos"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useAddTodoDependency = () =>
+  useTodoDependencyMutation((input) => client.ADD_TODO_DEPENDENCY(input));
+
+export const useRemoveTodoDependency = () =>
+  useTodoDependencyMutation((input) => client.REMOVE_TODO_DEPENDENCY(input));
+
+export interface TimeEntryFilters {
+  todoId?: number;
+  /** ISO 8601; only entries started at or after it */
+  from?: string;
+}
+
+/**
+ * Time entries with the running timer and the totals per todo and per
+ * day, in the local timezone.
+ */
+export const useTimeEntries = (filters: TimeEntryFilters = {}) => {
+  return useQuery({
+    queryKey: ["time-entries", filters],
+    queryFn: () =>
+      client.LIST_TIME_ENTRIES({
+        ...filters,
+        timezoneOffset: new Date().getTimezoneOffset(),
+      }),
+  });
+};
+
+const useTimeEntryMutation = <TInput>(
+  mutationFn: (input: TInput) => Promise<any>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["time-entries"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useStartTimer = () =>
+  useTimeEntryMutation((todoId: number) => client.START_TIMER({ todoId }));
+
+export const useStopTimer = () =>
+  useTimeEntryMutation(() => client.STOP_TIMER({}));
+
+export interface TimeEntryInput {
+  startedAt: string;
+  endedAt: string;
+  note?: string | null;
+}
+
+export const useAddTimeEntry = () =>
+  useTimeEntryMutation((input: TimeEntryInput & { todoId: number }) =>
+    client.ADD_TIME_ENTRY(input)
+  );
+
+export const useUpdateTimeEntry = () =>
+  useTimeEntryMutation((input: Partial<TimeEntryInput> & { id: number }) =>
+    client.UPDATE_TIME_ENTRY(input)
+  );
+
+export const useDeleteTimeEntry = () =>
+  useTimeEntryMutation((id: number) => client.DELETE_TIME_ENTRY({ id }));
+
+export const useTodoComments = (todoId: number) => {
+  return useQuery({
+    queryKey: ["comments", todoId],
+    queryFn: () => client.LIST_COMMENTS({ todoId }),
+  });
+};
+
+export const useTeamMembers = () => {
+  return useQuery({
+    queryKey: ["team-members"],
+    queryFn: () => client.LIST_TEAM_MEMBERS({}),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+const useCommentMutation = <TInput>(
+  todoId: number,
+  mutationFn: (input: TInput) => Promise<any>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["comments", todoId] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useAddComment = (todoId: number) =>
+  useCommentMutation(
+    todoId,
+    (body: string) => client.ADD_COMMENT({ todoId, body }),
+  );
+
+export const useEditComment = (todoId: number) =>
+  useCommentMutation(
+    todoId,
+    (input: { id: number; body: string }) => client.EDIT_COMMENT(input),
+  );
+
+export const useDeleteComment = (todoId: number) =>
+  useCommentMutation(
+    todoId,
+    (id: number) => client.DELETE_COMMENT({ id }),
+  );
+
+export const useTodoAttachments = (todoId: number) => {
+  return useQuery({
+    queryKey: ["attachments", todoId],
+    queryFn: () => client.LIST_ATTACHMENTS({ todoId }),
+  });
+};
+
+/**
+ * Temporary URL of an attachment, refetched before it expires.
+ */
+export const useAttachmentUrl = (id: number) => {
+  return useQuery({
+    queryKey: ["attachments", "url", id],
+    queryFn: () => client.DOWNLOAD_ATTACHMENT({ id, expiresIn: 60 * 60 }),
+    staleTime: 50 * 60 * 1000,
+  });
+};
+
+/**
+ * Attaches a file to a todo: gets an upload URL, PUTs the file to it and
+ * completes the upload, dropping the attachment when the PUT fails.
+ */
+export const useUploadAttachment = (todoId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const { attachment, uploadUrl } = await client.UPLOAD_ATTACHMENT({
+        todoId,
+        filename: file.name,
+        contentType: file.type,
+        size: file.size,
+      });
+
+      const response = await fetch(uploadUrl, {
+        method: "PUT",
+        headers: { "Content-Type": file.type },
+        body: file,
+      }).catch(() => null);
+      if (!response?.ok) {
+        await client.DELETE_ATTACHMENT({ id: attachment.id });
+        throw new Error(`Failed to upload ${file.name}`);
+      }
+
+      return client.COMPLETE_ATTACHMENT_UPLOAD({ id: attachment.id });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["attachments", todoId] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useDeleteAttachment = (todoId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => client.DELETE_ATTACHMENT({ id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["attachments", todoId] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
   });
 };
 
@@ -75,48 +448,238 @@ export const useGenerateTodoWithAI = () => {
   return useMutation({
     mutationFn: (prompt?: string) => client.GENERATE_TODO_WITH_AI({ prompt }),
     onSuccess: (data) => {
-      queryClient.setQueryData(["todos"], (old: any) => {
-        if (!old?.todos) return old;
-        return {
-          ...old,
-          todos: [...old.todos, data.todo],
-        };
-      });
+      queryClient.setQueryData(todosQueryKey(null), (old: any) =>
+        appendToTodoPages(old, {
+          ...data.todo,
+          tags: [],
+          subtasks: { completed: 0, total: 0 },
+          children: [],
+        })
+      );
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
       toast.success("Todo generated successfully!");
     },
   });
 };
 
-export const useToggleTodo = () => {
+export interface CreateTodoInput {
+  title: string;
+  /** Creates the todo as a subtask of this todo */
+  parentId?: number;
+  /** List to add the todo to; the inbox when null or omitted */
+  listId?: number | null;
+}
+
+export const useCreateTodo = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: CreateTodoInput) => client.CREATE_TODO(input),
+    onSuccess: (data) => {
+      if (data.todo.parentId !== null) {
+        // The parent's subtask count changes too, so refetch the tree
+        queryClient.invalidateQueries({ queryKey: ["todos"] });
+      } else {
+        queryClient.setQueryData(
+          todosQueryKey(data.todo.listId),
+          (old: any) =>
+            appendToTodoPages(old, {
+              ...data.todo,
+              tags: [],
+              subtasks: { completed: 0, total: 0 },
+              children: [],
+            }),
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
+      toast.success("Todo created successfully!");
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export type TodoPriority = "none" | "low" | "medium" | "high";
+
+export interface UpdateTodoInput {
+  id: number;
+  title?: string;
+  completed?: boolean;
+  /** ISO 8601 date, or null to clear it */
+  dueAt?: string | null;
+  /** ISO 8601 date, or null to cancel the reminder */
+  remindAt?: string | null;
+  /** Moves the todo under this todo, or to the top level when null */
+  parentId?: number | null;
+  priority?: TodoPriority;
+  /** RRULE such as "FREQ=WEEKLY;BYDAY=MO", or null to stop repeating */
+  recurrence?: string | null;
+  /** Version of the todo the change is based on, see handleTodoConflict */
+  expectedVersion?: number;
+}
+
+/**
+ * Code the message of a conflict starts with, see TodoConflictError on the
+ * server.
+ */
+const TODO_CONFLICT_CODE = "TODO_CONFLICT";
+
+/**
+ * Changes sent with the version of the todo they are based on are refused
+ * when the todo changed since, e.g. in another tab or through the AI
+ * executor. The todos are then refetched so the user sees that change and
+ * can make theirs again. Returns whether `error` was such a conflict.
+ */
+const handleTodoConflict = (queryClient: QueryClient, error: Error) => {
+  if (!error.message.includes(`${TODO_CONFLICT_CODE}:`)) return false;
+
+  queryClient.invalidateQueries({ queryKey: ["todos"] });
+  toast.error(
+    "This todo was changed somewhere else in the meantime. It has been reloaded, so check it and try again",
+  );
+  return true;
+};
+
+export const useUpdateTodo = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (id: number) =>
-      client.TOGGLE_TODO({ id }, {
+    mutationFn: (input: UpdateTodoInput) =>
+      client.UPDATE_TODO(input, {
         handleResponse: (res: Response) => {
           if (res.status === 401) {
-            toast.error("You need to be logged in to toggle todos");
-            throw new Error("Unauthorized to toggle TODO");
+            toast.error("You need to be logged in to update todos");
+            throw new Error("Unauthorized to update TODO");
           }
           return res.json();
         },
       }),
+    onSuccess: (data, input) => {
+      if (input.parentId !== undefined) {
+        // The todo moved within the tree
+        queryClient.invalidateQueries({ queryKey: ["todos"] });
+        return;
+      }
+      // Replace the edited todo in the todos tree
+      queryClient.setQueriesData({ queryKey: ["todos"] }, (old: any) =>
+        mapTodoPages(old, (todos) =>
+          mapTodoTree(todos, (todo) =>
+            todo.id === data.todo.id ? { ...todo, ...data.todo } : todo
+          )
+        )
+      );
+    },
+    onError: (error) => {
+      if (handleTodoConflict(queryClient, error)) return;
+      toast.error(error.message);
+    },
+  });
+};
+
+/**
+ * Assigns a todo to a team member, or unassigns it with `assigneeId` null.
+ */
+export const useAssignTodo = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { id: number; assigneeId: string | null }) =>
+      client.ASSIGN_TODO(input),
+    onSuccess: () => {
+      // Assignee-filtered views may gain or lose the todo
+      queryClient.invalidateQueries({ queryKey: ["todos"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+/**
+ * Completing, reopening or moving a todo to another status. Blocked todos
+ * can still be completed on purpose, by retrying with `force`.
+ */
+const useTodoStatusMutation = <
+  TInput extends { id: number; force?: boolean; expectedVersion?: number },
+>(
+  mutationFn: (input: TInput) => Promise<any>,
+) => {
+  const queryClient = useQueryClient();
+  const mutation = useMutation({
+    mutationFn,
     onSuccess: (data) => {
-      // Update the todos list with the updated todo
-      queryClient.setQueryData(["todos"], (old: any) => {
-        if (!old?.todos) return old;
-        return {
-          ...old,
-          todos: old.todos.map((todo: any) =>
-            todo.id === data.todo.id ? data.todo : todo
-          ),
-        };
+      // Update the todos tree with the updated todo
+      queryClient.setQueriesData({ queryKey: ["todos"] }, (old: any) =>
+        mapTodoPages(old, (todos) =>
+          mapTodoTree(todos, (todo) =>
+            todo.id === data.todo.id ? { ...todo, ...data.todo } : todo
+          )
+        )
+      );
+      if (data.todo.parentId !== null || data.nextOccurrence) {
+        // Refresh the subtask count of the parent, or show the next
+        // occurrence of a recurring todo
+        queryClient.invalidateQueries({ queryKey: ["todos"] });
+      }
+      // Open todo counts of the lists
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
+    },
+    onError: (error, input) => {
+      if (handleTodoConflict(queryClient, error)) return;
+      toast.error(error.message, {
+        action: error.message.includes("Blocked by open todos")
+          ? {
+            label: "Complete anyway",
+            onClick: () => mutation.mutate({ ...input, force: true }),
+          }
+          : undefined,
       });
     },
   });
+  return mutation;
 };
 
+export interface ToggleTodoInput {
+  id: number;
+  force?: boolean;
+  /** Version of the todo the change is based on, see handleTodoConflict */
+  expectedVersion?: number;
+}
+
+export const useToggleTodo = () =>
+  useTodoStatusMutation((input: ToggleTodoInput) =>
+    client.TOGGLE_TODO({
+      ...input,
+      timezoneOffset: new Date().getTimezoneOffset(),
+    }, {
+      handleResponse: (res: Response) => {
+        if (res.status === 401) {
+          toast.error("You need to be logged in to toggle todos");
+          throw new Error("Unauthorized to toggle TODO");
+        }
+        return res.json();
+      },
+    })
+  );
+
+export interface MoveTodoStatusInput {
+  id: number;
+  /** Id of a status of the workflow of the todo's list */
+  status: string;
+  force?: boolean;
+  /** Version of the todo the change is based on, see handleTodoConflict */
+  expectedVersion?: number;
+}
+
+export const useMoveTodoStatus = () =>
+  useTodoStatusMutation((input: MoveTodoStatusInput) =>
+    client.MOVE_TODO_STATUS({
+      ...input,
+      timezoneOffset: new Date().getTimezoneOffset(),
+    })
+  );
+
 export const useDeleteTodo = () => {
   const queryClient = useQueryClient();
+  const restoreTodo = useRestoreTodo();
   return useMutation({
     mutationFn: (id: number) =>
       client.DELETE_TODO({ id }, {
@@ -129,19 +692,475 @@ export const useDeleteTodo = () => {
         },
       }),
     onSuccess: (data) => {
-      // Remove the deleted todo from the todos list
-      queryClient.setQueryData(["todos"], (old: any) => {
-        if (!old?.todos) return old;
-        return {
-          ...old,
-          todos: old.todos.filter((todo: any) => todo.id !== data.deletedId),
-        };
+      // Remove the deleted todo from the todos tree
+      queryClient.setQueriesData({ queryKey: ["todos"] }, (old: any) =>
+        mapTodoPages(old, (todos) =>
+          filterTodoTree(todos, (todo) => todo.id !== data.deletedId)
+        )
+      );
+      // Its subtasks moved up to its parent
+      queryClient.invalidateQueries({ queryKey: ["todos"] });
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
+      // Its timer stopped
+      queryClient.invalidateQueries({ queryKey: ["time-entries"] });
+      toast.success("Todo moved to the trash", {
+        action: {
+          label: "Undo",
+          onClick: () => restoreTodo.mutate(data.deletedId),
+        },
       });
-      toast.success("Todo deleted successfully");
     },
   });
 };
 
+/**
+ * The todos in the trash, most recently created first. Only fetched while
+ * `enabled`, e.g. when the trash is open.
+ */
+export const useListTrash = (enabled: boolean) => {
+  return useInfiniteQuery({
+    queryKey: ["todos", "trash"],
+    queryFn: ({ pageParam }) =>
+      client.LIST_TODOS({
+        deleted: true,
+        sort: "created",
+        order: "desc",
+        cursor: pageParam ?? undefined,
+      }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: any) => lastPage.nextCursor ?? undefined,
+    enabled,
+  });
+};
+
+/**
+ * Restored todos go back to the end of their list, so every view of the
+ * todos is refetched.
+ */
+export const useRestoreTodo = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => client.RESTORE_TODO({ id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["todos"] });
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+/**
+ * Deletes the given todos of the trash for good, or the whole trash when
+ * `ids` is omitted.
+ */
+export const useEmptyTrash = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ids?: number[]) => client.EMPTY_TRASH({ ids }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["todos", "trash"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export interface ReorderTodosInput {
+  id: number;
+  /** Todo that ends up right before the moved one, null when it goes first */
+  previousId: number | null;
+  /** Todo that ends up right after the moved one, null when it goes last */
+  nextId: number | null;
+}
+
+/**
+ * Reorders a todo in the cached list under `queryKey` right away, and puts
+ * the previous order back if the server rejects the move.
+ */
+export const useReorderTodos = (queryKey: unknown[]) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: ReorderTodosInput) => client.REORDER_TODOS(input),
+    onMutate: async (input) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData(queryKey);
+      queryClient.setQueryData(
+        queryKey,
+        (old: any) => reorderTodoPages(old, input),
+      );
+      return { previous };
+    },
+    onError: (error, _input, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast.error(error.message);
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKey, (old: any) =>
+        mapTodoPages(old, (todos) =>
+          mapTodoTree(todos, (todo) =>
+            todo.id === data.todo.id ? { ...todo, ...data.todo } : todo
+          )
+        )
+      );
+      if (data.rebalanced) {
+        // The positions of the siblings changed too
+        queryClient.invalidateQueries({ queryKey });
+      }
+    },
+  });
+};
+
+export const useListTags = () => {
+  return useQuery({
+    queryKey: ["tags"],
+    queryFn: () => client.LIST_TAGS({}),
+  });
+};
+
+export interface TodoTagsInput {
+  todoId: number;
+  tags: string[];
+}
+
+const useTodoTagsMutation = (
+  mutationFn: (input: TodoTagsInput) => Promise<any>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: (data) => {
+      queryClient.setQueriesData({ queryKey: ["todos"] }, (old: any) =>
+        mapTodoPages(old, (todos) =>
+          mapTodoTree(todos, (todo) =>
+            todo.id === data.todoId ? { ...todo, tags: data.tags } : todo
+          )
+        )
+      );
+      // Tag-filtered lists and usage counts may have changed
+      queryClient.invalidateQueries({ queryKey: ["todos"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useAddTodoTags = () =>
+  useTodoTagsMutation((input) => client.ADD_TODO_TAGS(input));
+
+export const useRemoveTodoTags = () =>
+  useTodoTagsMutation((input) => client.REMOVE_TODO_TAGS(input));
+
+export const useListLists = (includeArchived = false) => {
+  return useQuery({
+    queryKey: ["lists", { includeArchived }],
+    queryFn: () => client.LIST_LISTS({ includeArchived }),
+  });
+};
+
+/**
+ * Changes to a list only affect the lists themselves, so the cached todos
+ * are kept unless `invalidatesTodos` is set.
+ */
+const useListMutation = <TInput>(
+  mutationFn: (input: TInput) => Promise<any>,
+  { invalidatesTodos = false } = {},
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
+      if (invalidatesTodos) {
+        queryClient.invalidateQueries({ queryKey: ["todos"] });
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useCreateList = () =>
+  useListMutation((name: string) => client.CREATE_LIST({ name }));
+
+export const useRenameList = () =>
+  useListMutation((input: { id: number; name: string }) =>
+    client.RENAME_LIST(input)
+  );
+
+export const useArchiveList = () =>
+  useListMutation((input: { id: number; archived: boolean }) =>
+    client.ARCHIVE_LIST(input)
+  );
+
+export interface DeleteListInput {
+  id: number;
+  /** Whether the todos of the list move to the inbox or are deleted */
+  todos: "inbox" | "delete";
+}
+
+export interface TodoStatus {
+  id: string;
+  name: string;
+  /** Whether todos in this status count as completed */
+  done: boolean;
+}
+
+/**
+ * Todos whose status is removed change status, so they are refetched.
+ */
+export const useSetListStatuses = () =>
+  useListMutation(
+    (input: { id: number; statuses: TodoStatus[] }) =>
+      client.SET_LIST_STATUSES(input),
+    { invalidatesTodos: true },
+  );
+
+export const useDeleteList = () =>
+  useListMutation(
+    (input: DeleteListInput) => client.DELETE_LIST(input),
+    { invalidatesTodos: true },
+  );
+
+export const useMoveTodos = () =>
+  useListMutation(
+    (input: { ids: number[]; listId: number | null }) =>
+      client.MOVE_TODOS(input),
+    { invalidatesTodos: true },
+  );
+
+export type BulkTodoAction =
+  | { type: "complete" }
+  | { type: "uncomplete" }
+  | { type: "delete" }
+  | { type: "move"; listId: number | null }
+  | { type: "setPriority"; priority: TodoPriority };
+
+/**
+ * Applies one action to many todos. The action may fail for some of them
+ * only, or succeed with a warning, which is reported without failing the
+ * whole mutation.
+ */
+export const useBulkUpdateTodos = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { ids: number[]; action: BulkTodoAction }) =>
+      client.BULK_UPDATE_TODOS({
+        ...input,
+        timezoneOffset: new Date().getTimezoneOffset(),
+      }),
+    onSuccess: (
+      data: Awaited<ReturnType<typeof client.BULK_UPDATE_TODOS>>,
+    ) => {
+      queryClient.invalidateQueries({ queryKey: ["todos"] });
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
+
+      const failed = data.results.filter((result) => !result.success);
+      if (failed.length > 0) {
+        toast.error(
+          `${failed.length} of ${data.results.length} todos could not be updated`,
+          { description: failed[0].error },
+        );
+      }
+
+      const warned = data.results.filter((result) => result.warning);
+      if (warned.length > 0) {
+        toast.warning(
+          `${warned.length} of ${data.results.length} todos were updated with a warning`,
+          { description: warned[0].warning },
+        );
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export type TodoFileFormat = "json" | "csv" | "markdown" | "todotxt";
+
+/**
+ * Exports the todos and downloads them as a file.
+ */
+export const useExportTodos = () => {
+  return useMutation({
+    mutationFn: (format: TodoFileFormat) => client.EXPORT_TODOS({ format }),
+    onSuccess: (
+      data: Awaited<ReturnType<typeof client.EXPORT_TODOS>>,
+    ) => {
+      const url = URL.createObjectURL(
+        new Blob([data.content], { type: data.mimeType }),
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = data.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export interface ImportTodosInput {
+  format: TodoFileFormat;
+  content: string;
+  /** Only previews the import */
+  dryRun: boolean;
+  duplicates: "skip" | "import";
+}
+
+export const useImportTodos = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: ImportTodosInput) => client.IMPORT_TODOS(input),
+    onSuccess: (
+      data: Awaited<ReturnType<typeof client.IMPORT_TODOS>>,
+    ) => {
+      if (data.dryRun) return;
+      queryClient.invalidateQueries({ queryKey: ["todos"] });
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      toast.success(`Imported ${data.createdIds.length} todos`);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+/**
+ * The secret path of the calendar feed of the user. Only fetched while
+ * `enabled`, since the first fetch creates the feed token.
+ */
+export const useCalendarFeed = (enabled: boolean) => {
+  return useQuery({
+    queryKey: ["calendarFeed"],
+    queryFn: () => client.GET_CALENDAR_FEED({}),
+    enabled,
+  });
+};
+
+export const useRotateCalendarFeed = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => client.ROTATE_CALENDAR_FEED({}),
+    onSuccess: (data) => {
+      queryClient.setQueryData(["calendarFeed"], data);
+      toast.success("Feed URL replaced; the previous one no longer works");
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+/**
+ * Mapping template of an inbound webhook; each field may contain
+ * `{{body.path}}` or `{{item.path}}` placeholders.
+ */
+export interface WebhookTemplate {
+  each?: string;
+  title: string;
+  dueAt?: string;
+  priority?: string;
+  tags?: string[];
+  idempotencyKey?: string;
+}
+
+export const useListWebhooks = (enabled: boolean) => {
+  return useQuery({
+    queryKey: ["webhooks"],
+    queryFn: () => client.LIST_WEBHOOKS({}),
+    enabled,
+  });
+};
+
+export const useWebhookDeliveries = (webhookId: number) => {
+  return useQuery({
+    queryKey: ["webhooks", webhookId, "deliveries"],
+    queryFn: () => client.LIST_WEBHOOK_DELIVERIES({ webhookId }),
+  });
+};
+
+const useWebhookMutation = <TInput>(
+  mutationFn: (input: TInput) => Promise<any>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useCreateWebhook = () =>
+  useWebhookMutation((
+    input: { name: string; template: WebhookTemplate; listId: number | null },
+  ) => client.CREATE_WEBHOOK(input));
+
+export const useUpdateWebhook = () =>
+  useWebhookMutation((
+    input: { id: number; name?: string; template?: WebhookTemplate },
+  ) => client.UPDATE_WEBHOOK(input));
+
+export const useRotateWebhookSecret = () =>
+  useWebhookMutation((id: number) => client.ROTATE_WEBHOOK_SECRET({ id }));
+
+export const useDeleteWebhook = () =>
+  useWebhookMutation((id: number) => client.DELETE_WEBHOOK({ id }));
+
+export const useListWebhookSubscriptions = (enabled: boolean) => {
+  return useQuery({
+    queryKey: ["webhook-subscriptions"],
+    queryFn: () => client.LIST_WEBHOOK_SUBSCRIPTIONS({}),
+    enabled,
+  });
+};
+
+export const useWebhookAttempts = (subscriptionId: number) => {
+  return useQuery({
+    queryKey: ["webhook-subscriptions", subscriptionId, "attempts"],
+    queryFn: () => client.LIST_WEBHOOK_ATTEMPTS({ subscriptionId }),
+  });
+};
+
+const useWebhookSubscriptionMutation = <TInput>(
+  mutationFn: (input: TInput) => Promise<any>,
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["webhook-subscriptions"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useRegisterWebhookSubscription = () =>
+  useWebhookSubscriptionMutation((input: { url: string; events?: string[] }) =>
+    client.REGISTER_WEBHOOK_SUBSCRIPTION(input)
+  );
+
+export const useDeleteWebhookSubscription = () =>
+  useWebhookSubscriptionMutation((id: number) =>
+    client.DELETE_WEBHOOK_SUBSCRIPTION({ id })
+  );
+
 export const useAIToolExecutor = () => {
   const queryClient = useQueryClient();
   return useMutation({
@@ -149,6 +1168,7 @@ export const useAIToolExecutor = () => {
     onSuccess: () => {
       // Invalidate todos query to refresh the list after AI executes a tool
       queryClient.invalidateQueries({ queryKey: ["todos"] });
+      queryClient.invalidateQueries({ queryKey: ["lists"] });
     },
   });
 };
@@ -0,0 +1,160 @@
+import { Fragment, type ReactNode } from "react";
+
+const INLINE =
+  /`([^`]+)`|\*\*(.+?)\*\*|(?<!\w)[*_](.+?)[*_](?!\w)|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)])|(?<![\w@])@(\w[\w.-]*\w|\w)/g;
+
+const LIST_ITEM = /^\s*(?:[-*]|\d+\.)\s+/;
+
+/**
+ * Whether `line` ends a paragraph by being blank or starting another block.
+ */
+const startsBlock = (line: string) =>
+  line.trim() === "" || /^(```|>|#{1,6}\s)/.test(line) || LIST_ITEM.test(line);
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+function renderInline(text: string, mentions: Set<string>): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, bold, italic, label, href, url, handle] = match;
+    const index = match.index ?? 0;
+    if (index > last) nodes.push(text.slice(last, index));
+    last = index + whole.length;
+
+    const key = nodes.length;
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="rounded bg-slate-800 px-1 text-[11px]">
+          {code}
+        </code>,
+      );
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, mentions)}</strong>);
+    } else if (italic !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italic, mentions)}</em>);
+    } else if (label !== undefined || url !== undefined) {
+      const target = href ?? url;
+      nodes.push(
+        isSafeUrl(target)
+          ? (
+            <a
+              key={key}
+              href={target}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-400 underline hover:text-blue-300"
+            >
+              {label ?? url}
+            </a>
+          )
+          : whole,
+      );
+    } else if (mentions.has(handle.toLowerCase())) {
+      nodes.push(
+        <span
+          key={key}
+          className="rounded bg-blue-500/20 px-0.5 text-blue-300"
+        >
+          @{handle}
+        </span>,
+      );
+    } else {
+      nodes.push(whole);
+    }
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+function renderLines(lines: string[], mentions: Set<string>) {
+  return lines.map((line, index) => (
+    <Fragment key={index}>
+      {index > 0 && <br />}
+      {renderInline(line, mentions)}
+    </Fragment>
+  ));
+}
+
+/**
+ * Renders the Markdown of comments as React elements, so nothing in them is
+ * ever injected as HTML. Only what comments need is supported: paragraphs,
+ * `-`/`1.` lists, `>` quotes, `#` headings, fenced code, `code`, **bold**,
+ * *italic*, [links](https://...) and bare URLs. `@handle`s in `mentions`
+ * are highlighted.
+ */
+export function Markdown(
+  { text, mentions = [] }: { text: string; mentions?: string[] },
+) {
+  const handles = new Set(mentions.map((handle) => handle.toLowerCase()));
+  const lines = text.split("\n");
+  const blocks: ReactNode[] = [];
+
+  for (let i = 0; i < lines.length;) {
+    const line = lines[i];
+    const key = blocks.length;
+
+    if (line.trim() === "") {
+      i++;
+    } else if (line.startsWith("```")) {
+      const end = lines.findIndex((l, j) => j > i && l.startsWith("```"));
+      const code = lines.slice(i + 1, end === -1 ? lines.length : end);
+      blocks.push(
+        <pre
+          key={key}
+          className="overflow-x-auto rounded bg-slate-800 p-2 text-[11px]"
+        >
+          <code>{code.join("\n")}</code>
+        </pre>,
+      );
+      i = end === -1 ? lines.length : end + 1;
+    } else if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d/.test(line);
+      const items: string[] = [];
+      for (; i < lines.length && LIST_ITEM.test(lines[i]); i++) {
+        items.push(lines[i].replace(LIST_ITEM, ""));
+      }
+      const List = ordered ? "ol" : "ul";
+      blocks.push(
+        <List
+          key={key}
+          className={`pl-4 ${ordered ? "list-decimal" : "list-disc"}`}
+        >
+          {items.map((item, j) => (
+            <li key={j}>{renderInline(item, handles)}</li>
+          ))}
+        </List>,
+      );
+    } else if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].startsWith(">"); i++) {
+        quoted.push(lines[i].replace(/^>\s?/, ""));
+      }
+      blocks.push(
+        <blockquote
+          key={key}
+          className="border-l-2 border-slate-600 pl-2 text-slate-400"
+        >
+          {renderLines(quoted, handles)}
+        </blockquote>,
+      );
+    } else if (/^#{1,6}\s/.test(line)) {
+      blocks.push(
+        <p key={key} className="font-semibold">
+          {renderInline(line.replace(/^#+\s+/, ""), handles)}
+        </p>,
+      );
+      i++;
+    } else {
+      const paragraph = [line];
+      for (i++; i < lines.length && !startsBlock(lines[i]); i++) {
+        paragraph.push(lines[i]);
+      }
+      blocks.push(<p key={key}>{renderLines(paragraph, handles)}</p>);
+    }
+  }
+
+  return <div className="space-y-1.5 break-words">{blocks}</div>;
+}
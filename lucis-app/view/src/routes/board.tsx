@@ -0,0 +1,260 @@
+import React from "react";
+import {
+  createRoute,
+  Link,
+  type RootRoute,
+  useNavigate,
+  useSearch,
+} from "@tanstack/react-router";
+import { ArrowLeft, CheckCircle, Loader } from "lucide-react";
+import {
+  useListLists,
+  useListTodos,
+  useMoveTodoStatus,
+  useOptionalUser,
+} from "@/lib/hooks";
+import LoggedProvider from "@/components/logged-provider";
+import { Button } from "@/components/ui/button";
+import { UserButton } from "@/components/user-button";
+import {
+  DueBadge,
+  isOverdue,
+  RecurrenceBadge,
+} from "@/components/todo-schedule";
+import { TagChips } from "@/components/todo-tags";
+import { TodoPriorityPopover } from "@/components/todo-priority";
+import { TodoAssigneePopover } from "@/components/todo-assignee";
+import { ListStatusesPopover } from "@/components/todo-lists";
+import { TodoDetailDrawer } from "@/components/todo-detail";
+
+/**
+ * The workflow of the inbox, which LIST_LISTS also returns; it is only used
+ * until the lists are loaded.
+ */
+const DEFAULT_WORKFLOW = [
+  { id: "todo", name: "To do", done: false },
+  { id: "doing", name: "Doing", done: false },
+  { id: "done", name: "Done", done: true },
+];
+
+function BoardCard({ todo, onDragStart }: {
+  todo: any;
+  onDragStart: () => void;
+}) {
+  const [showDetails, setShowDetails] = React.useState(false);
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      className={`group bg-slate-800 border rounded-lg p-2 space-y-1.5 cursor-grab hover:bg-slate-700 transition-colors ${
+        isOverdue(todo) ? "border-red-500/60" : "border-slate-700"
+      }`}
+    >
+      <button
+        onClick={() => setShowDetails(true)}
+        className={`w-full text-left text-sm break-words ${
+          todo.completed ? "text-slate-400 line-through" : "text-slate-200"
+        }`}
+        title="Details and history"
+      >
+        {todo.title}
+      </button>
+      <div className="flex flex-wrap items-center gap-1">
+        {todo.subtasks?.total > 0 && (
+          <span
+            className="text-[10px] font-medium text-slate-400"
+            title="Completed subtasks"
+          >
+            {todo.subtasks.completed}/{todo.subtasks.total}
+          </span>
+        )}
+        <DueBadge todo={todo} />
+        <RecurrenceBadge todo={todo} />
+        <TagChips todo={todo} />
+        <span className="flex-1" />
+        <TodoPriorityPopover todo={todo} />
+        <TodoAssigneePopover todo={todo} />
+      </div>
+
+      {showDetails && (
+        <TodoDetailDrawer todo={todo} onClose={() => setShowDetails(false)} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * The top-level todos of a list in one column per status of its workflow.
+ * Dropping a card on another column moves the todo to that status, which
+ * completes or reopens it when the columns differ in that; subtasks show up
+ * as the completion count of their parent's card.
+ */
+function Board({ listId }: { listId: number | null }) {
+  const navigate = useNavigate();
+  const { data: lists } = useListLists();
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useListTodos(listId);
+  const moveTodoStatus = useMoveTodoStatus();
+  const [draggedId, setDraggedId] = React.useState<number | null>(null);
+  const [overStatus, setOverStatus] = React.useState<string | null>(null);
+
+  const list = lists?.lists.find((list: any) => list.id === listId);
+  const statuses: { id: string; name: string; done: boolean }[] =
+    listId === null
+      ? lists?.inbox.statuses ?? DEFAULT_WORKFLOW
+      : list?.statuses ?? DEFAULT_WORKFLOW;
+  const todos = data.pages.flatMap((page: any) => page.todos);
+
+  const handleDrop = (status: string) => {
+    const todo = todos.find((todo: any) => todo.id === draggedId);
+    if (todo && todo.status !== status) {
+      moveTodoStatus.mutate({
+        id: todo.id,
+        status,
+        expectedVersion: todo.version,
+      });
+    }
+    setDraggedId(null);
+    setOverStatus(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <select
+          value={listId ?? ""}
+          onChange={(e) =>
+            navigate({
+              to: "/board",
+              search: {
+                listId: e.target.value ? Number(e.target.value) : undefined,
+              },
+            })}
+          className="bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Inbox</option>
+          {lists?.lists.map((list: any) => (
+            <option key={list.id} value={list.id}>{list.name}</option>
+          ))}
+        </select>
+        {moveTodoStatus.isPending && (
+          <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+        )}
+        <span className="flex-1" />
+        {list && <ListStatusesPopover list={list} />}
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {statuses.map((status) => {
+          const columnTodos = todos.filter((todo: any) =>
+            todo.status === status.id
+          );
+          return (
+            <section
+              key={status.id}
+              onDragOver={(e) => {
+                if (draggedId === null) return;
+                e.preventDefault();
+                setOverStatus(status.id);
+              }}
+              onDragLeave={() => setOverStatus(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(status.id);
+              }}
+              className={`w-64 flex-shrink-0 rounded-lg bg-slate-800/50 p-2 space-y-2 ${
+                overStatus === status.id ? "ring-1 ring-blue-500" : ""
+              }`}
+            >
+              <h3 className="flex items-center gap-1.5 px-1 text-xs font-medium text-slate-400">
+                {status.done && <CheckCircle className="w-3 h-3" />}
+                <span className="flex-1 truncate">{status.name}</span>
+                <span className="text-[10px] text-slate-500">
+                  {columnTodos.length}
+                </span>
+              </h3>
+              {columnTodos.map((todo: any) => (
+                <BoardCard
+                  key={todo.id}
+                  todo={todo}
+                  onDragStart={() => setDraggedId(todo.id)}
+                />
+              ))}
+            </section>
+          );
+        })}
+      </div>
+
+      {hasNextPage && (
+        <Button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          variant="ghost"
+          size="sm"
+          className="w-full text-xs text-slate-400 hover:text-white"
+        >
+          {isFetchingNextPage
+            ? <Loader className="w-3 h-3 animate-spin" />
+            : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function BoardPage() {
+  const user = useOptionalUser();
+  const { listId } = useSearch({ from: "/board" });
+
+  return (
+    <div className="bg-slate-900 min-h-screen p-6">
+      <div className="max-w-6xl mx-auto w-full space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link
+              to="/"
+              className="p-1 hover:bg-slate-700 rounded"
+              title="Back to the todos"
+            >
+              <ArrowLeft className="w-4 h-4 text-slate-400" />
+            </Link>
+            <h1 className="text-xl font-semibold text-white">Board</h1>
+          </div>
+
+          <UserButton />
+        </div>
+
+        {user.data
+          ? (
+            <LoggedProvider>
+              <Board listId={listId ?? null} />
+            </LoggedProvider>
+          )
+          : (
+            <p className="text-sm text-slate-400 text-center">
+              Sign in to see the board of your todos.
+            </p>
+          )}
+      </div>
+    </div>
+  );
+}
+
+export default (parentRoute: RootRoute) =>
+  createRoute({
+    path: "/board",
+    component: BoardPage,
+    getParentRoute: () => parentRoute,
+    // The list whose board is shown; none is the inbox
+    validateSearch: (search: Record<string, unknown>) => ({
+      listId: typeof search.listId === "number" ? search.listId : undefined,
+    }),
+  });
@@ -1,96 +1,532 @@
 import React from "react";
-import { createRoute, type RootRoute } from "@tanstack/react-router";
-import { CheckCircle, Circle, Loader, Sparkles, Trash2 } from "lucide-react";
+import { createRoute, Link, type RootRoute } from "@tanstack/react-router";
+import {
+  CheckCircle,
+  ChevronRight,
+  Circle,
+  Columns3,
+  History,
+  Loader,
+  Pencil,
+  Plus,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
 import {
   useAIToolExecutor,
+  useCreateTodo,
   useDeleteTodo,
   useGenerateTodoWithAI,
+  useListLists,
   useListTodos,
   useOptionalUser,
+  useReorderTodos,
   useToggleTodo,
+  useUpdateTodo,
+  todosQueryKey,
 } from "@/lib/hooks";
 import LoggedProvider from "@/components/logged-provider";
 import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
 import { UserButton } from "@/components/user-button";
+import {
+  DueBadge,
+  isOverdue,
+  RecurrenceBadge,
+  TodoSchedulePopover,
+} from "@/components/todo-schedule";
+import {
+  TagChips,
+  TagFilterBar,
+  TodoTagsPopover,
+} from "@/components/todo-tags";
+import { ListSidebar, MoveTodoPopover } from "@/components/todo-lists";
+import { TodoPriorityPopover } from "@/components/todo-priority";
+import { TodoAssigneePopover } from "@/components/todo-assignee";
+import {
+  RunningTimer,
+  TimeTrackingPanel,
+  TodoTimerButton,
+} from "@/components/time-tracking";
+import {
+  BulkActionBar,
+  SelectTodoCheckbox,
+  TodoSelectionProvider,
+} from "@/components/todo-bulk";
+import { TodoDetailDrawer } from "@/components/todo-detail";
+import { TodoSearch } from "@/components/todo-search";
+import { TrashPanel } from "@/components/todo-trash";
+import { TransferPanel } from "@/components/todo-transfer";
+import { CalendarFeedPanel } from "@/components/calendar-feed";
+import { WebhooksPanel } from "@/components/webhooks";
+import { WebhookSubscriptionsPanel } from "@/components/webhook-subscriptions";
+import {
+  DEFAULT_VIEW_OPTIONS,
+  TodoViewOptionsBar,
+} from "@/components/todo-view-options";
 
-function TodoList() {
-  const { data: todos } = useListTodos();
+const TODO_TITLE_MAX_LENGTH = 200;
+
+function NewTodoInput(
+  { parentId, listId }: { parentId?: number; listId?: number | null },
+) {
+  const createTodo = useCreateTodo();
+  const [title, setTitle] = React.useState("");
+
+  const handleCreate = () => {
+    if (!title.trim()) return;
+    createTodo.mutate({ title: title.trim(), parentId, listId }, {
+      onSuccess: () => setTitle(""),
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !createTodo.isPending) {
+      handleCreate();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={handleKeyDown}
+        maxLength={TODO_TITLE_MAX_LENGTH}
+        placeholder={parentId ? "Add a subtask..." : "Add a todo..."}
+        disabled={createTodo.isPending}
+        className="flex-1 bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-md px-3 py-2 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+      />
+      <Button
+        onClick={handleCreate}
+        disabled={createTodo.isPending || !title.trim()}
+        size="sm"
+        className="bg-slate-700 text-white hover:bg-slate-600"
+        title={parentId ? "Add subtask" : "Add todo"}
+      >
+        {createTodo.isPending
+          ? <Loader className="w-3 h-3 animate-spin" />
+          : <Plus className="w-3 h-3" />}
+      </Button>
+    </div>
+  );
+}
+
+function TodoItem(
+  { todo, expanded, dragProps }: {
+    todo: any;
+    expanded: boolean;
+    /** Makes the todo draggable, see SortableTodoNodes */
+    dragProps?: React.HTMLAttributes<HTMLDivElement>;
+  },
+) {
   const toggleTodo = useToggleTodo();
   const deleteTodo = useDeleteTodo();
+  const updateTodo = useUpdateTodo();
+  const { data: user } = useOptionalUser();
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draftTitle, setDraftTitle] = React.useState(todo.title ?? "");
+  const [showDetails, setShowDetails] = React.useState(false);
+
+  const isBusy = toggleTodo.isPending || deleteTodo.isPending ||
+    updateTodo.isPending;
+  // Assignees can edit a todo, but only its owner tags, moves or deletes it
+  const isOwner = todo.ownerId === user?.id;
 
-  const handleToggle = (todoId: number) => {
-    toggleTodo.mutate(todoId);
+  const handleToggle = () => {
+    toggleTodo.mutate({ id: todo.id, expectedVersion: todo.version });
   };
 
-  const handleDelete = (e: React.MouseEvent, todoId: number) => {
+  const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent triggering the toggle
-    deleteTodo.mutate(todoId);
+    deleteTodo.mutate(todo.id);
+  };
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraftTitle(todo.title ?? "");
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const title = draftTitle.trim();
+    if (!title || title === todo.title) {
+      setIsEditing(false);
+      return;
+    }
+    updateTodo.mutate(
+      { id: todo.id, title, expectedVersion: todo.version },
+      { onSuccess: () => setIsEditing(false) },
+    );
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      saveEdit();
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+    }
   };
 
   return (
-    <div className="space-y-4">
-      <h2 className="text-lg font-medium text-white">Your TODOs</h2>
+    <div
+      {...dragProps}
+      draggable={!!dragProps && !isEditing}
+      className={`group relative bg-slate-800 border rounded-lg p-3 flex items-center gap-3 hover:bg-slate-700 transition-colors ${
+        isOverdue(todo) ? "border-red-500/60" : "border-slate-700"
+      }`}
+    >
+      <SelectTodoCheckbox todoId={todo.id} />
 
-      {todos?.todos && todos.todos.length > 0
+      {/* Expands the subtasks, see TodoNode */}
+      <CollapsibleTrigger
+        className="flex-shrink-0 p-0.5 -ml-1 hover:bg-slate-600 rounded"
+        title={expanded ? "Hide subtasks" : "Show subtasks"}
+      >
+        <ChevronRight
+          className={`w-3 h-3 text-slate-500 transition-transform ${
+            expanded ? "rotate-90" : ""
+          }`}
+        />
+      </CollapsibleTrigger>
+
+      {isEditing
         ? (
-          <div className="space-y-2">
-            {todos.todos.slice(0, 3).map((todo: any) => (
-              <div
-                key={todo.id}
-                className="group relative bg-slate-800 border border-slate-700 rounded-lg p-3 flex items-center gap-3 hover:bg-slate-700 transition-colors"
+          <input
+            type="text"
+            autoFocus
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            onBlur={saveEdit}
+            maxLength={TODO_TITLE_MAX_LENGTH}
+            disabled={updateTodo.isPending}
+            className="flex-1 bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+        )
+        : (
+          <button
+            onClick={handleToggle}
+            onDoubleClick={startEditing}
+            disabled={isBusy}
+            className="flex-1 flex items-center gap-3 disabled:cursor-not-allowed text-left"
+          >
+            <div className="flex-shrink-0">
+              {toggleTodo.isPending
+                ? <Loader className="w-4 h-4 text-slate-400 animate-spin" />
+                : todo.completed
+                ? <CheckCircle className="w-4 h-4 text-slate-400" />
+                : <Circle className="w-4 h-4 text-slate-500" />}
+            </div>
+            <span
+              className={`flex-1 text-sm ${
+                todo.completed
+                  ? "text-slate-400 line-through"
+                  : "text-slate-200"
+              }`}
+            >
+              {todo.title}
+            </span>
+            {todo.subtasks?.total > 0 && (
+              <span
+                className="flex-shrink-0 text-[10px] font-medium text-slate-400"
+                title="Completed subtasks"
               >
-                <button
-                  onClick={() => handleToggle(todo.id)}
-                  disabled={toggleTodo.isPending || deleteTodo.isPending}
-                  className="flex-1 flex items-center gap-3 disabled:cursor-not-allowed text-left"
-                >
-                  <div className="flex-shrink-0">
-                    {toggleTodo.isPending && toggleTodo.variables === todo.id
-                      ? (
-                        <Loader className="w-4 h-4 text-slate-400 animate-spin" />
-                      )
-                      : todo.completed
-                      ? <CheckCircle className="w-4 h-4 text-slate-400" />
-                      : <Circle className="w-4 h-4 text-slate-500" />}
-                  </div>
-                  <span
-                    className={`flex-1 text-sm ${
-                      todo.completed
-                        ? "text-slate-400 line-through"
-                        : "text-slate-200"
-                    }`}
+                {todo.subtasks.completed}/{todo.subtasks.total}
+              </span>
+            )}
+            <DueBadge todo={todo} />
+            <RecurrenceBadge todo={todo} />
+          </button>
+        )}
+      {!isEditing && <TagChips todo={todo} />}
+
+      {/* Priority, assignee and a running timer are always visible; tag,
+          move, schedule, timer, details, edit and delete buttons only on
+          hover */}
+      {!isEditing && <TodoPriorityPopover todo={todo} disabled={isBusy} />}
+      {!isEditing && <TodoAssigneePopover todo={todo} disabled={isBusy} />}
+      {!isEditing && isOwner && (
+        <TodoTagsPopover todo={todo} disabled={isBusy} />
+      )}
+      {!isEditing && isOwner && (
+        <MoveTodoPopover todo={todo} disabled={isBusy} />
+      )}
+      {!isEditing && <TodoSchedulePopover todo={todo} disabled={isBusy} />}
+      {!isEditing && <TodoTimerButton todo={todo} disabled={isBusy} />}
+      {!isEditing && (
+        <button
+          onClick={() => setShowDetails(true)}
+          className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-slate-600 rounded flex-shrink-0"
+          title="Details and history"
+        >
+          <History className="w-3 h-3 text-slate-400 hover:text-white transition-colors" />
+        </button>
+      )}
+      {!isEditing && (
+        <button
+          onClick={startEditing}
+          disabled={isBusy}
+          className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0"
+          title="Edit todo"
+        >
+          <Pencil className="w-3 h-3 text-slate-400 hover:text-blue-400 transition-colors" />
+        </button>
+      )}
+      {isOwner && (
+        <button
+          onClick={handleDelete}
+          disabled={isBusy}
+          className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0"
+          title="Delete todo"
+        >
+          {deleteTodo.isPending
+            ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
+            : (
+              <Trash2 className="w-3 h-3 text-slate-400 hover:text-red-400 transition-colors" />
+            )}
+        </button>
+      )}
+
+      {showDetails && (
+        <TodoDetailDrawer todo={todo} onClose={() => setShowDetails(false)} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * A todo with its subtasks, which can be expanded to show them and to
+ * add new ones.
+ */
+function TodoNode(
+  { todo, queryKey, sortable, dragProps }: {
+    todo: any;
+    queryKey: unknown[];
+    sortable: boolean;
+    dragProps?: React.HTMLAttributes<HTMLDivElement>;
+  },
+) {
+  const [expanded, setExpanded] = React.useState(false);
+
+  return (
+    <Collapsible open={expanded} onOpenChange={setExpanded}>
+      <TodoItem todo={todo} expanded={expanded} dragProps={dragProps} />
+      <CollapsibleContent className="pl-5 mt-2 space-y-2 border-l border-slate-700 ml-3">
+        <SortableTodoNodes
+          todos={todo.children ?? []}
+          queryKey={queryKey}
+          sortable={sortable}
+        />
+        <NewTodoInput parentId={todo.id} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+/**
+ * Sibling todos that can be reordered by dragging one onto another. Drops
+ * are only accepted among the same siblings, so subtasks stay under their
+ * parent. Dragging is off when the list is not in its manual order, and
+ * for todos the user is only assigned to.
+ */
+function SortableTodoNodes(
+  { todos, queryKey, sortable }: {
+    todos: any[];
+    queryKey: unknown[];
+    sortable: boolean;
+  },
+) {
+  const reorderTodos = useReorderTodos(queryKey);
+  const { data: user } = useOptionalUser();
+  const [draggedId, setDraggedId] = React.useState<number | null>(null);
+  const [overId, setOverId] = React.useState<number | null>(null);
+
+  const handleDrop = (targetId: number) => {
+    if (draggedId === null || draggedId === targetId) return;
+
+    // The dragged todo takes the place of the one it is dropped on
+    const movingDown = todos.findIndex((todo) => todo.id === draggedId) <
+      todos.findIndex((todo) => todo.id === targetId);
+    const others = todos.filter((todo) => todo.id !== draggedId);
+    const index = others.findIndex((todo) => todo.id === targetId) +
+      (movingDown ? 1 : 0);
+
+    reorderTodos.mutate({
+      id: draggedId,
+      previousId: others[index - 1]?.id ?? null,
+      nextId: others[index]?.id ?? null,
+    });
+  };
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setOverId(null);
+  };
+
+  return todos.map((todo) => (
+    <div
+      key={todo.id}
+      onDragOver={(e) => {
+        if (draggedId === null) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setOverId(todo.id);
+      }}
+      onDrop={(e) => {
+        if (draggedId === null) return;
+        e.preventDefault();
+        e.stopPropagation();
+        handleDrop(todo.id);
+        endDrag();
+      }}
+      className={overId === todo.id && draggedId !== todo.id
+        ? "rounded-lg ring-1 ring-blue-500"
+        : undefined}
+    >
+      <TodoNode
+        todo={todo}
+        queryKey={queryKey}
+        sortable={sortable}
+        dragProps={sortable && todo.ownerId === user?.id ? {
+          onDragStart: (e) => {
+            e.stopPropagation(); // Only the innermost todo is dragged
+            e.dataTransfer.effectAllowed = "move";
+            setDraggedId(todo.id);
+          },
+          onDragEnd: endDrag,
+        } : undefined}
+      />
+    </div>
+  ));
+}
+
+function TodoList() {
+  const [listId, setListId] = React.useState<number | null>(null);
+  const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+  const [tagMatch, setTagMatch] = React.useState<"any" | "all">("any");
+  const [viewOptions, setViewOptions] = React.useState(DEFAULT_VIEW_OPTIONS);
+  const { text, completion, assignee, sort, order } = viewOptions;
+  const isFiltered = selectedTags.length > 0 || !!text.trim() ||
+    completion !== "all" || assignee !== "all";
+
+  // Only non-default options go in the filters, so the default view shares
+  // its cache key with the one new todos are added to. Deferring keeps
+  // showing the current todos while the next ones load.
+  const filters = React.useDeferredValue(
+    React.useMemo(() => ({
+      ...(selectedTags.length > 0 ? { tags: selectedTags, tagMatch } : {}),
+      ...(text.trim() ? { text: text.trim() } : {}),
+      ...(completion !== "all"
+        ? { completed: completion === "completed" }
+        : {}),
+      ...(assignee !== "all" ? { assignee } : {}),
+      ...(sort !== "position" ? { sort } : {}),
+      ...(order !== "asc" ? { order } : {}),
+    }), [selectedTags, tagMatch, text, completion, assignee, sort, order]),
+  );
+  const shownListId = React.useDeferredValue(listId);
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useListTodos(shownListId, filters);
+  const todos = data.pages.flatMap((page: any) => page.todos);
+  const { data: lists } = useListLists();
+  const listName = listId === null
+    ? "Inbox"
+    : lists?.lists.find((list: any) => list.id === listId)?.name;
+
+  return (
+    <div className="flex gap-4">
+      <ListSidebar selectedListId={listId} onSelect={setListId} />
+
+      <div className="flex-1 min-w-0 space-y-4">
+        <TodoSearch onSelectList={setListId} />
+
+        <RunningTimer />
+
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-lg font-medium text-white">
+            {assignee === "me" ? "Assigned to me" : listName ?? "Your TODOs"}
+          </h2>
+          <Link
+            to="/board"
+            search={{ listId: listId ?? undefined }}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+            title="Show this list as a board"
+          >
+            <Columns3 className="w-3 h-3" />
+            Board
+          </Link>
+        </div>
+
+        <NewTodoInput listId={listId} />
+
+        <TodoViewOptionsBar value={viewOptions} onChange={setViewOptions} />
+
+        <TagFilterBar
+          selected={selectedTags}
+          onSelectedChange={setSelectedTags}
+          match={tagMatch}
+          onMatchChange={setTagMatch}
+        />
+
+        {/* Selection is per list, so it starts over on another list */}
+        <TodoSelectionProvider key={shownListId ?? "inbox"} todos={todos}>
+          <BulkActionBar />
+
+          {todos.length > 0
+            ? (
+              <div className="space-y-2">
+                <SortableTodoNodes
+                  todos={todos}
+                  queryKey={todosQueryKey(shownListId, filters)}
+                  sortable={sort === "position" && order === "asc" &&
+                    assignee !== "me"}
+                />
+                {hasNextPage && (
+                  <Button
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    variant="ghost"
+                    size="sm"
+                    className="w-full text-xs text-slate-400 hover:text-white"
                   >
-                    {todo.title}
-                  </span>
-                </button>
-
-                {/* Delete button - only visible on hover */}
-                <button
-                  onClick={(e) => handleDelete(e, todo.id)}
-                  disabled={deleteTodo.isPending || toggleTodo.isPending}
-                  className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1 hover:bg-slate-600 rounded disabled:cursor-not-allowed flex-shrink-0"
-                  title="Delete todo"
-                >
-                  {deleteTodo.isPending && deleteTodo.variables === todo.id
-                    ? <Loader className="w-3 h-3 text-slate-400 animate-spin" />
-                    : (
-                      <Trash2 className="w-3 h-3 text-slate-400 hover:text-red-400 transition-colors" />
-                    )}
-                </button>
+                    {isFetchingNextPage
+                      ? <Loader className="w-3 h-3 animate-spin" />
+                      : "Load more"}
+                  </Button>
+                )}
+              </div>
+            )
+            : (
+              <div className="bg-slate-800 border border-slate-700 rounded-lg p-4 text-center">
+                <p className="text-sm text-slate-400">
+                  {isFiltered ? "No todos match these filters" : "No todos yet"}
+                </p>
               </div>
-            ))}
-            {todos.todos.length > 3 && (
-              <p className="text-xs text-slate-500 text-center">
-                +{todos.todos.length - 3} more
-              </p>
             )}
-          </div>
-        )
-        : (
-          <div className="bg-slate-800 border border-slate-700 rounded-lg p-4 text-center">
-            <p className="text-sm text-slate-400">No todos yet</p>
-          </div>
-        )}
+        </TodoSelectionProvider>
+
+        <TrashPanel />
+
+        <TimeTrackingPanel />
+
+        <TransferPanel />
+
+        <CalendarFeedPanel />
+
+        <WebhooksPanel />
+
+        <WebhookSubscriptionsPanel />
+      </div>
     </div>
   );
 }
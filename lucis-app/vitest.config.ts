@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts, whose Cloudflare and deco plugins are only
+// needed to build and serve the app. Tests cover the modules that run
+// without the workers runtime, such as the recurrence rules.
+export default defineConfig({
+  test: {
+    include: ["server/**/*.test.ts"],
+  },
+});